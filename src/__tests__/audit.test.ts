@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { appendAuditEntry, searchAuditLog } from "../audit.js";
+
+// ─── Audit log ──────────────────────────────────────────────────
+
+describe("audit log", () => {
+  let dir: string;
+  let cfg: {
+    path: string;
+    maxSizeMb: number;
+    maxFiles: number;
+    logSql: boolean;
+    redactParams: boolean;
+  };
+
+  const entry = (ts: string, label: string, sql: string, error?: string) => ({
+    ts,
+    tool: "mysql_query",
+    label,
+    sql,
+    durationMs: 1,
+    error,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mcp-mysql-audit-"));
+    cfg = {
+      path: join(dir, "logs", "audit.jsonl"),
+      maxSizeMb: 1,
+      maxFiles: 2,
+      logSql: true,
+      redactParams: true,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON object per line, creating the directory", async () => {
+    await appendAuditEntry(cfg, entry("2026-01-01T10:00:00.000Z", "prod", "SELECT 1"));
+    await appendAuditEntry(cfg, entry("2026-01-01T10:00:01.000Z", "prod", "SELECT 2"));
+    const lines = readFileSync(cfg.path, "utf-8").trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l).sql)).toEqual(["SELECT 1", "SELECT 2"]);
+  });
+
+  it("rotates by size and keeps at most maxFiles rotations", async () => {
+    cfg.maxSizeMb = 150 / (1024 * 1024); // ~one entry per file
+    for (let i = 0; i < 5; i++) {
+      await appendAuditEntry(cfg, entry(`2026-01-01T10:00:0${i}.000Z`, "prod", `SELECT ${i}`));
+    }
+    expect(JSON.parse(readFileSync(cfg.path, "utf-8")).sql).toBe("SELECT 4");
+    expect(JSON.parse(readFileSync(`${cfg.path}.1`, "utf-8")).sql).toBe("SELECT 3");
+    expect(JSON.parse(readFileSync(`${cfg.path}.2`, "utf-8")).sql).toBe("SELECT 2");
+    expect(existsSync(`${cfg.path}.3`)).toBe(false);
+
+    // Search spans rotations, newest first
+    const found = await searchAuditLog(cfg, { limit: 10 });
+    expect(found.map((e) => e.sql)).toEqual(["SELECT 4", "SELECT 3", "SELECT 2"]);
+  });
+
+  it("filters by label, time range, SQL text and errors", async () => {
+    await appendAuditEntry(cfg, entry("2026-01-01T09:00:00.000Z", "prod", "SELECT old"));
+    await appendAuditEntry(cfg, entry("2026-01-02T09:00:00.000Z", "dev", "SELECT * FROM users"));
+    await appendAuditEntry(cfg, entry("2026-01-02T10:00:00.000Z", "prod", "SELECT * FROM Users"));
+    await appendAuditEntry(
+      cfg,
+      entry("2026-01-02T11:00:00.000Z", "prod", "SELEC oops", "ER_PARSE_ERROR")
+    );
+
+    const today = await searchAuditLog(cfg, {
+      label: "prod",
+      since: new Date("2026-01-02"),
+      limit: 10,
+    });
+    expect(today.map((e) => e.sql)).toEqual(["SELEC oops", "SELECT * FROM Users"]);
+
+    const users = await searchAuditLog(cfg, { contains: "from users", limit: 10 });
+    expect(users).toHaveLength(2);
+
+    const errors = await searchAuditLog(cfg, { errorsOnly: true, limit: 10 });
+    expect(errors.map((e) => e.error)).toEqual(["ER_PARSE_ERROR"]);
+
+    const until = await searchAuditLog(cfg, { until: new Date("2026-01-01T12:00Z"), limit: 10 });
+    expect(until.map((e) => e.sql)).toEqual(["SELECT old"]);
+  });
+
+  it("finds entries written after a longer call that started earlier", async () => {
+    await appendAuditEntry(cfg, entry("2026-01-02T10:00:00.000Z", "prod", "SELECT quick"));
+    // Started before `since` but finished, and was written, last
+    await appendAuditEntry(cfg, entry("2026-01-02T08:00:00.000Z", "prod", "SELECT slow"));
+
+    const found = await searchAuditLog(cfg, { since: new Date("2026-01-02T09:00:00Z"), limit: 10 });
+    expect(found.map((e) => e.sql)).toEqual(["SELECT quick"]);
+  });
+
+  it("matches SQL text inside transaction steps", async () => {
+    await appendAuditEntry(cfg, {
+      ts: "2026-01-02T09:00:00.000Z",
+      tool: "mysql_transaction",
+      label: "prod",
+      steps: [{ sql: "UPDATE accounts SET balance = 0" }, { sql: "DELETE FROM audit" }],
+      durationMs: 1,
+    });
+    await appendAuditEntry(cfg, entry("2026-01-02T10:00:00.000Z", "prod", "SELECT 1"));
+
+    const found = await searchAuditLog(cfg, { contains: "delete from", limit: 10 });
+    expect(found.map((e) => e.tool)).toEqual(["mysql_transaction"]);
+  });
+
+  it("honours limit and label scope", async () => {
+    await appendAuditEntry(cfg, entry("2026-01-01T09:00:00.000Z", "prod", "SELECT 1"));
+    await appendAuditEntry(cfg, entry("2026-01-01T09:00:01.000Z", "dev", "SELECT 2"));
+    await appendAuditEntry(cfg, entry("2026-01-01T09:00:02.000Z", "prod", "SELECT 3"));
+
+    expect(await searchAuditLog(cfg, { limit: 1 })).toHaveLength(1);
+    const scoped = await searchAuditLog(cfg, { limit: 10 }, ["dev"]);
+    expect(scoped.map((e) => e.sql)).toEqual(["SELECT 2"]);
+  });
+
+  it("returns nothing when no log exists yet", async () => {
+    expect(await searchAuditLog(cfg, { limit: 10 })).toEqual([]);
+  });
+});
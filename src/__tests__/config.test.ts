@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { join } from "path";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import {
+  stripJsonComments,
+  parseConfigText,
+  mergeConfigs,
+  readConfigTree,
+  parseProjectOverlay,
+  applyProjectOverlay,
+  loadFullConfig,
+} from "../config.js";
+
+// The config path is read once at import, so point it at a temp dir first
+const { configDir } = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const configDir = mkdtempSync(join(tmpdir(), "mcp-mysql-config-"));
+  process.env.MCP_MYSQL_CONFIG = join(configDir, "config.json");
+  return { configDir };
+});
+
+// ─── Config files ───────────────────────────────────────────────
+
+describe("stripJsonComments", () => {
+  it("removes comments and trailing commas outside strings", () => {
+    const text = `{
+      // line comment
+      "url": "mysql://h/db", /* block */
+      "note": "keep // and /* this */ and \\"quotes\\"",
+      "list": [1, 2,],
+    }`;
+    expect(JSON.parse(stripJsonComments(text))).toEqual({
+      url: "mysql://h/db",
+      note: 'keep // and /* this */ and "quotes"',
+      list: [1, 2],
+    });
+  });
+
+  it("keeps line numbers for parse errors", () => {
+    const text = '{\n/* a\nb */\n"x": 1\n}';
+    expect(stripJsonComments(text).split("\n")).toHaveLength(5);
+  });
+});
+
+describe("parseConfigText", () => {
+  it("parses YAML by extension without converting dates", () => {
+    const doc = parseConfigText(
+      "connections:\n  - label: dev\n    url: mysql://u@h/db\n    readOnly: false\n    since: 2024-01-01\n",
+      "conf.d/dev.yaml"
+    );
+    expect(doc).toEqual({
+      connections: [{ label: "dev", url: "mysql://u@h/db", readOnly: false, since: "2024-01-01" }],
+    });
+  });
+
+  it("treats an empty file as an empty fragment and names the file on errors", () => {
+    expect(parseConfigText("", "empty.yml")).toEqual({});
+    expect(() => parseConfigText("[1]", "list.json")).toThrow(/list\.json: config must be an object/);
+    expect(() => parseConfigText("{", "bad.jsonc")).toThrow(/^bad\.jsonc: /);
+  });
+});
+
+describe("mergeConfigs", () => {
+  it("merges connections by label and prompts by name", () => {
+    const merged = mergeConfigs(
+      {
+        connections: { a: { label: "a", host: "h", policy: { deniedTables: ["x"] } } },
+        prompts: [{ name: "p", template: "old" }],
+        audit: { path: "a.jsonl", logSql: true },
+      },
+      {
+        connections: [
+          { label: "a", readOnly: false, policy: { masks: [] } },
+          { label: "b", url: "mysql://b" },
+        ],
+        prompts: [{ name: "p", template: "new" }],
+        audit: { logSql: false },
+      }
+    );
+    expect(merged).toEqual({
+      connections: [
+        { label: "a", host: "h", readOnly: false, policy: { deniedTables: ["x"], masks: [] } },
+        { label: "b", url: "mysql://b" },
+      ],
+      prompts: [{ name: "p", template: "new" }],
+      audit: { path: "a.jsonl", logSql: false },
+    });
+  });
+});
+
+describe("readConfigTree", () => {
+  let dir: string;
+  const write = (name: string, doc: unknown) => {
+    const path = join(dir, name);
+    writeFileSync(path, JSON.stringify(doc));
+    return path;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mcp-mysql-config-"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads a file included from two places (diamond includes)", async () => {
+    write("shared.json", { prompts: [{ name: "p", template: "t" }] });
+    write("a.json", { include: ["shared.json"], connections: [{ label: "a", url: "mysql://a" }] });
+    write("b.json", { include: ["shared.json"], connections: [{ label: "b", url: "mysql://b" }] });
+    const main = write("main.json", { include: ["a.json", "b.json"] });
+    const files = new Set<string>();
+    const doc = await readConfigTree(main, files);
+    expect(doc.connections).toEqual([
+      { label: "a", url: "mysql://a" },
+      { label: "b", url: "mysql://b" },
+    ]);
+    expect(doc.prompts).toEqual([{ name: "p", template: "t" }]);
+    expect(files.has(join(dir, "shared.json"))).toBe(true);
+    expect(console.error).not.toHaveBeenCalledWith(expect.stringMatching(/skipped/));
+  });
+
+  it("skips a missing include with a warning and still watches its path", async () => {
+    const main = write("main.json", {
+      include: ["gone.json"],
+      connections: [{ label: "a", url: "mysql://a" }],
+    });
+    const files = new Set<string>();
+    const doc = await readConfigTree(main, files);
+    expect(doc.connections).toEqual([{ label: "a", url: "mysql://a" }]);
+    expect(files.has(join(dir, "gone.json"))).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/gone\.json.*skipped/));
+  });
+
+  it("skips the include that closes a cycle", async () => {
+    write("a.json", { include: ["main.json"], prompts: [{ name: "a", template: "t" }] });
+    const main = write("main.json", { include: ["a.json"] });
+    const doc = await readConfigTree(main, new Set());
+    expect(doc.prompts).toEqual([{ name: "a", template: "t" }]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/include cycle: .*main\.json -> .*a\.json -> .*main\.json/));
+  });
+
+  it("still fails when the main file is unreadable", async () => {
+    await expect(readConfigTree(join(dir, "missing.json"), new Set())).rejects.toThrow(/ENOENT/);
+  });
+});
+
+describe("project overlays", () => {
+  const prod = {
+    label: "prod",
+    url: "mysql://u@h/db",
+    port: 3306,
+    password: "",
+    enabled: true,
+    readOnly: false,
+    poolSize: 5,
+    connectTimeoutMs: 10_000,
+    queryTimeoutMs: 30_000,
+    defaultFormat: "json",
+    maxRows: 1000,
+    allowedStatements: ["SELECT", "INSERT", "UPDATE"],
+    policy: { deniedTables: ["secrets"], deniedColumns: [], masks: [] },
+    confirmWrites: false,
+    guardrails: { requireWhere: false },
+    maxSessions: 2,
+    sessionIdleTimeoutMs: 300_000,
+  } as Parameters<typeof applyProjectOverlay>[0][number];
+
+  it("accepts enabling, disabling and tightening known connections", () => {
+    const overlay = parseProjectOverlay(
+      { connections: [{ label: "prod", enabled: false }, { label: "dev", maxRows: 50, readOnly: true }] },
+      ["prod", "dev"]
+    );
+    expect(overlay.connections).toHaveLength(2);
+  });
+
+  it("rejects new connections, loosening settings and other sections", () => {
+    const reject = (doc: Record<string, unknown>) => () => parseProjectOverlay(doc, ["prod"]);
+    expect(reject({ connections: [{ label: "x" }] })).toThrow(/not defined/);
+    expect(reject({ connections: [{ label: "prod", host: "evil" }] })).toThrow(/connections\.0: Unrecognized key.*host/);
+    expect(reject({ connections: [{ label: "prod", database: "other" }] })).toThrow(/database/);
+    expect(reject({ connections: [{ label: "prod", readOnly: false }] })).toThrow(/only set this to true/);
+    expect(reject({ connections: [{ label: "prod", confirmWrites: false }] })).toThrow(/only set this to true/);
+    expect(reject({ connections: [{ label: "prod", guardrails: { requireWhere: false } }] })).toThrow(
+      /only set this to true/
+    );
+    expect(reject({ audit: { path: "/tmp/x" } })).toThrow(/Unrecognized key.*audit/);
+  });
+
+  it("only lowers limits, narrows statements and adds policy rules", () => {
+    const overlay = parseProjectOverlay(
+      {
+        connections: [
+          {
+            label: "prod",
+            readOnly: true,
+            maxRows: 5000,
+            queryTimeoutMs: 5000,
+            maxConcurrentQueries: 2,
+            allowedStatements: ["select", "delete"],
+            guardrails: { requireWhere: true, maxAffectedRows: 10 },
+            policy: { deniedColumns: ["*.email"] },
+          },
+        ],
+      },
+      ["prod"]
+    );
+    const [c] = applyProjectOverlay([prod], overlay);
+    expect(c).toMatchObject({
+      readOnly: true,
+      maxRows: 1000,
+      queryTimeoutMs: 5000,
+      maxConcurrentQueries: 2,
+      allowedStatements: ["SELECT"],
+      guardrails: { requireWhere: true, maxAffectedRows: 10 },
+      policy: { deniedTables: ["secrets"], deniedColumns: ["*.email"], masks: [] },
+    });
+  });
+
+  it("can't drop the main config's policy with an empty one", () => {
+    const overlay = parseProjectOverlay({ connections: [{ label: "prod", policy: {} }] }, ["prod"]);
+    expect(applyProjectOverlay([prod], overlay)[0].policy).toEqual(prod.policy);
+  });
+});
+
+describe("loadFullConfig with a project overlay", () => {
+  let project: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(join(tmpdir(), "mcp-mysql-project-"));
+    vi.spyOn(process, "cwd").mockReturnValue(project);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(project, { recursive: true, force: true });
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("never expands ${cmd:...} or ${file:...} in overlay prompts", async () => {
+    const marker = join(project, "pwned");
+    writeFileSync(
+      join(configDir, "config.json"),
+      JSON.stringify({
+        connections: [{ label: "dev", url: "mysql://u@127.0.0.1:1/app" }],
+        prompts: [{ name: "main", template: "Hello ${USER_NAME}" }],
+      })
+    );
+    const template = `\${cmd:touch ${marker}} \${file:/etc/hostname}`;
+    writeFileSync(
+      join(project, ".mcp-mysql.json"),
+      JSON.stringify({ prompts: [{ name: "review", template }] })
+    );
+    vi.stubEnv("USER_NAME", "ada");
+
+    const { prompts } = await loadFullConfig();
+    expect(prompts.map((p) => [p.name, p.template])).toEqual([
+      ["main", "Hello ada"],
+      ["review", template],
+    ]);
+    expect(existsSync(marker)).toBe(false);
+    vi.unstubAllEnvs();
+  });
+});
+
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  queryFingerprint,
+  encodeCursor,
+  cursorRejection,
+  decodeCursor,
+} from "../cursors.js";
+import { classifyStatement } from "../sql.js";
+
+// ─── Cursors ────────────────────────────────────────────────────
+
+describe("cursors", () => {
+  it("round-trips cursor state", () => {
+    const state = { label: "prod", hash: queryFingerprint("SELECT 1"), offset: 500 };
+    expect(decodeCursor(encodeCursor(state))).toEqual(state);
+  });
+
+  it("produces URL-safe opaque tokens", () => {
+    const cursor = encodeCursor({ label: "a/b+c", hash: "x", offset: 1 });
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor("")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"l":"a","h":"b","o":-1}').toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"l":"a","h":"b","o":1.5}').toString("base64url"))).toBeNull();
+  });
+
+  it("are only issued for ordered reads", () => {
+    const check = (sql: string) => cursorRejection(classifyStatement(sql), sql);
+    expect(check("SELECT * FROM t ORDER BY id")).toBeNull();
+    expect(check("(SELECT a FROM t) UNION (SELECT a FROM u) ORDER BY a LIMIT 10")).toBeNull();
+    expect(check("SHOW TABLES")).toBeNull();
+    expect(check("SELECT * FROM t")).toMatch(/ORDER BY/);
+    expect(check("SELECT * FROM (SELECT * FROM t ORDER BY id) x")).toMatch(/ORDER BY/);
+    expect(check("CALL report()")).toMatch(/CALL results can't be paged/);
+    expect(check("SELECT * FROM t ORDER BY id FOR UPDATE")).toMatch(/can't be paged/);
+  });
+
+  it("fingerprints depend on query and params", () => {
+    const base = queryFingerprint("SELECT * FROM t WHERE id > ?", [1]);
+    expect(queryFingerprint("SELECT * FROM t WHERE id > ?", [1])).toBe(base);
+    expect(queryFingerprint("SELECT * FROM t WHERE id > ?", [2])).not.toBe(base);
+    expect(queryFingerprint("SELECT * FROM t WHERE id >= ?", [1])).not.toBe(base);
+    expect(queryFingerprint("SELECT 1")).toBe(queryFingerprint("SELECT 1", []));
+  });
+});
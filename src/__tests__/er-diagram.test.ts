@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { tablesWithinHops, renderErDiagram } from "../er-diagram.js";
+import type { ColumnInfo, TableSchema } from "../introspection.js";
+
+describe("ER diagrams", () => {
+  const col = (name: string, type: string, nullable = false): ColumnInfo => ({
+    name,
+    type,
+    nullable,
+    default: null,
+    key: "",
+    extra: "",
+    generation: "",
+  });
+  const pk = { name: "PRIMARY", columns: ["id"], unique: true, type: "BTREE" };
+  const fk = (name: string, column: string, refTable: string) => ({
+    name,
+    columns: [column],
+    refSchema: "shop",
+    refTable,
+    refColumns: ["id"],
+    onUpdate: "NO ACTION",
+    onDelete: "NO ACTION",
+  });
+  const schemas: TableSchema[] = [
+    {
+      name: "users",
+      columns: [col("id", "int"), col("email", "varchar(255)")],
+      indexes: [pk, { name: "uq_email", columns: ["email"], unique: true, type: "BTREE" }],
+      foreignKeys: [],
+    },
+    {
+      name: "profiles",
+      columns: [col("id", "int"), col("user_id", "int")],
+      indexes: [pk, { name: "uq_user", columns: ["user_id"], unique: true, type: "BTREE" }],
+      foreignKeys: [fk("fk_profile_user", "user_id", "users")],
+    },
+    {
+      name: "orders",
+      columns: [col("id", "int"), col("user_id", "int", true), col("total", "decimal(10,2)")],
+      indexes: [pk],
+      foreignKeys: [fk("fk_order_user", "user_id", "users")],
+    },
+    {
+      name: "order_items",
+      columns: [col("id", "int"), col("order_id", "int")],
+      indexes: [pk],
+      foreignKeys: [fk("fk_item_order", "order_id", "orders")],
+    },
+  ];
+
+  it("renders Mermaid with key markers and inferred cardinality", () => {
+    const diagram = renderErDiagram(schemas, "shop", "mermaid");
+    expect(diagram).toMatch(/^erDiagram\n/);
+    expect(diagram).toContain('users ||--o| profiles : "fk_profile_user"');
+    expect(diagram).toContain('users |o--o{ orders : "fk_order_user"');
+    expect(diagram).toContain("        int id PK\n        varchar(255) email UK\n");
+    expect(diagram).toContain("        decimal(10-2) total\n");
+    expect(diagram).toContain("        int user_id FK, UK\n");
+  });
+
+  it("renders PlantUML and DOT", () => {
+    const plantuml = renderErDiagram(schemas, "shop", "plantuml");
+    expect(plantuml).toMatch(/^@startuml\n[\s\S]*@enduml$/);
+    expect(plantuml).toContain("entity orders {\n  * id : int <<PK>>\n  --\n  user_id : int <<FK>>");
+    expect(plantuml).toContain("orders ||--o{ order_items : fk_item_order");
+
+    const dot = renderErDiagram(schemas, "shop", "dot");
+    expect(dot).toContain(
+      '"order_items" -> "orders" [label="fk_item_order", dir=both, arrowtail=crowodot, arrowhead=teetee];'
+    );
+    expect(dot).toContain('"users" [label="{users|id : int PK\\lemail : varchar(255) UK\\l}"];');
+  });
+
+  it("ignores references to tables outside the snapshot", () => {
+    const diagram = renderErDiagram(schemas.slice(2), "shop", "mermaid");
+    expect(diagram).not.toContain("users");
+    expect(diagram).toContain("orders ||--o{ order_items");
+  });
+
+  it("collects tables within N foreign-key hops in both directions", () => {
+    expect([...tablesWithinHops(schemas, "shop", "orders", 0)]).toEqual(["orders"]);
+    expect(new Set(tablesWithinHops(schemas, "shop", "orders", 1))).toEqual(
+      new Set(["orders", "users", "order_items"])
+    );
+    expect(tablesWithinHops(schemas, "shop", "order_items", 2).has("profiles")).toBe(false);
+    expect(tablesWithinHops(schemas, "shop", "order_items", 3).has("profiles")).toBe(true);
+  });
+});
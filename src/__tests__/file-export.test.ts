@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import mysql from "mysql2/promise";
+import { resolveInsideDir, exportEncoder, exportRows, parquetKindOf } from "../file-export.js";
+import type { DbConnection } from "../config.js";
+
+// ─── File Exports ────────────────────────────────────────────────
+
+describe("resolveInsideDir", () => {
+  it("resolves relative paths inside the directory", () => {
+    expect(resolveInsideDir("/data/exports", "a/b.csv")).toBe("/data/exports/a/b.csv");
+    expect(resolveInsideDir("/data/exports", "./x/../c.csv")).toBe("/data/exports/c.csv");
+    expect(resolveInsideDir("/data/exports", "..report.csv")).toBe("/data/exports/..report.csv");
+  });
+
+  it("rejects paths that leave the directory", () => {
+    for (const path of ["../etc/passwd", "/etc/passwd", "a/../../b", ".", "/data/exports2/x"]) {
+      expect(() => resolveInsideDir("/data/exports", path), path).toThrow(/outside/);
+    }
+  });
+});
+
+describe("exportEncoder", () => {
+  const columns = [
+    { name: "id", kind: "int64" as const },
+    { name: "note", kind: "utf8" as const },
+  ];
+  const rows = [
+    { id: 1, note: 'say "hi", bye' },
+    { id: 2, note: null },
+  ];
+  const encode = (format: "csv" | "ndjson" | "sql") => {
+    const enc = exportEncoder(format, columns, "notes");
+    return Buffer.concat([enc.head(), enc.rows(rows), enc.tail()]).toString();
+  };
+
+  it("writes CSV with a header row", () => {
+    expect(encode("csv")).toBe('id,note\r\n1,"say ""hi"", bye"\r\n2,\r\n');
+  });
+
+  it("writes one JSON object per line", () => {
+    expect(encode("ndjson")).toBe('{"id":1,"note":"say \\"hi\\", bye"}\n{"id":2,"note":null}\n');
+  });
+
+  it("writes escaped multi-row INSERT statements", () => {
+    expect(encode("sql")).toBe(
+      "INSERT INTO `notes` (`id`, `note`) VALUES\n(1, 'say \\\"hi\\\", bye'),\n(2, NULL);\n"
+    );
+  });
+});
+
+describe("parquetKindOf", () => {
+  const field = (columnType: number, flags = 0) =>
+    ({ name: "c", columnType, flags, characterSet: 33 }) as unknown as mysql.FieldPacket;
+
+  it("keeps decimals and unsigned BIGINTs exact as strings", () => {
+    expect(parquetKindOf(field(mysql.Types.NEWDECIMAL), false)).toBe("utf8");
+    expect(parquetKindOf(field(mysql.Types.LONGLONG, 32), false)).toBe("utf8");
+    expect(parquetKindOf(field(mysql.Types.LONGLONG), false)).toBe("int64");
+  });
+
+  it("maps dates and times, and masks every column to text", () => {
+    expect(parquetKindOf(field(mysql.Types.DATE), false)).toBe("date");
+    expect(parquetKindOf(field(mysql.Types.DATETIME), false)).toBe("timestamp");
+    expect(parquetKindOf(field(mysql.Types.TIME), false)).toBe("utf8");
+    expect(parquetKindOf(field(mysql.Types.LONG), true)).toBe("utf8");
+  });
+});
+
+describe("exportRows", () => {
+  const dir = mkdtempSync(join(tmpdir(), "mcp-mysql-export-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const conn = { label: "dev", policy: null } as unknown as DbConnection;
+  const fields = [{ name: "id", columnType: mysql.Types.LONG, flags: 0, orgTable: "t" }];
+
+  /** A pool connection whose statement streams `rows` ids. */
+  function fakeConnection(rows: number) {
+    let id = 0;
+    const stream = new Readable({
+      objectMode: true,
+      read() {
+        if (id === 0) this.emit("fields", fields);
+        this.push(id < rows ? { id: ++id } : null);
+      },
+    });
+    const connection = {
+      connection: { execute: () => ({ stream: () => stream }) },
+      destroy: vi.fn(),
+    };
+    return connection as unknown as mysql.PoolConnection & { destroy: typeof connection.destroy };
+  }
+
+  it("writes the whole result and keeps the connection", async () => {
+    const connection = fakeConnection(3);
+    const file = join(dir, "all.csv");
+    const result = await exportRows(conn, connection, "SELECT id FROM t", [], "csv", file, {
+      maxBytes: 1024,
+    });
+    expect(result).toEqual({ rows: 3, bytes: 13 });
+    expect(connection.destroy).not.toHaveBeenCalled();
+  });
+
+  it("destroys the connection when the size limit cuts the result short", async () => {
+    const connection = fakeConnection(100_000);
+    const file = join(dir, "big.csv");
+    await expect(
+      exportRows(conn, connection, "SELECT id FROM t", [], "csv", file, { maxBytes: 100 })
+    ).rejects.toThrow("exports.maxMb");
+    expect(connection.destroy).toHaveBeenCalled();
+    expect(existsSync(`${file}.partial`)).toBe(false);
+  });
+});
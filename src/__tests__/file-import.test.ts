@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCsvRecords,
+  parseNdjsonRecords,
+  importValue,
+  mapImportColumns,
+  importStatements,
+  runImportBatches,
+  importInsertSql,
+} from "../file-import.js";
+import type { ColumnInfo } from "../introspection.js";
+
+describe("parseCsvRecords", () => {
+  it("reads quoted fields, NULL markers and line numbers", () => {
+    const { header, records } = parseCsvRecords(
+      '\uFEFFid,note\r\n1,"multi\nline, ""quoted"""\n\n2,\n3,\\N\n4,""\n'
+    );
+    expect(header).toEqual(["id", "note"]);
+    expect(records).toEqual([
+      { line: 2, values: { id: "1", note: 'multi\nline, "quoted"' } },
+      { line: 5, values: { id: "2", note: null } },
+      { line: 6, values: { id: "3", note: null } },
+      { line: 7, values: { id: "4", note: "" } },
+    ]);
+  });
+
+  it("reports rows with the wrong number of fields", () => {
+    expect(() => parseCsvRecords("a,b\n1,2\n3\n")).toThrow(/line 3/i);
+    expect(() => parseCsvRecords('a\n"open\n')).toThrow(/line 2/i);
+  });
+});
+
+describe("parseNdjsonRecords", () => {
+  it("collects keys across lines and skips blank lines", () => {
+    const { header, records } = parseNdjsonRecords('{"a":1}\n\n{"b":"x","a":null}\n');
+    expect(header).toEqual(["a", "b"]);
+    expect(records).toEqual([
+      { line: 1, values: { a: 1 } },
+      { line: 3, values: { b: "x", a: null } },
+    ]);
+  });
+
+  it("reports lines that are not JSON objects", () => {
+    expect(() => parseNdjsonRecords('{"a":1}\n[1]\n')).toThrow(/line 2/i);
+  });
+});
+
+describe("importValue", () => {
+  const col = (type: string, nullable = false): ColumnInfo => ({
+    name: "c",
+    type,
+    nullable,
+    default: null,
+    key: "",
+    extra: "",
+    generation: "",
+  });
+
+  it("checks integer ranges", () => {
+    expect(importValue(col("tinyint unsigned"), "255")).toEqual({ value: "255" });
+    expect(importValue(col("tinyint unsigned"), "256")).toHaveProperty("error");
+    expect(importValue(col("bigint"), "-9223372036854775808")).toEqual({
+      value: "-9223372036854775808",
+    });
+    expect(importValue(col("int"), "1.5")).toHaveProperty("error");
+  });
+
+  it("checks NULL against nullability", () => {
+    expect(importValue(col("int", true), null)).toEqual({ value: null });
+    expect(importValue(col("int"), null)).toHaveProperty("error");
+  });
+
+  it("checks decimals, dates and string lengths", () => {
+    expect(importValue(col("decimal(5,2)"), "123.45")).toHaveProperty("value");
+    expect(importValue(col("decimal(5,2)"), "1234.5")).toHaveProperty("error");
+    expect(importValue(col("date"), "2024-02-29")).toHaveProperty("value");
+    expect(importValue(col("date"), "2023-02-29")).toHaveProperty("error");
+    expect(importValue(col("varchar(3)"), "abc")).toHaveProperty("value");
+    expect(importValue(col("varchar(3)"), "abcd")).toHaveProperty("error");
+  });
+
+  it("checks enums and JSON", () => {
+    expect(importValue(col("enum('a','b')"), "b")).toEqual({ value: "b" });
+    expect(importValue(col("enum('a','b')"), "c")).toHaveProperty("error");
+    expect(importValue(col("json"), { a: 1 })).toEqual({ value: '{"a":1}' });
+    expect(importValue(col("json"), "{oops")).toHaveProperty("error");
+    expect(importValue(col("int"), { a: 1 })).toHaveProperty("error");
+  });
+});
+
+describe("mapImportColumns", () => {
+  const columns = [
+    { name: "id", type: "int", nullable: false, default: null, key: "PRI", extra: "", generation: "" },
+    { name: "email", type: "varchar(100)", nullable: false, default: null, key: "", extra: "", generation: "" },
+    { name: "total", type: "int", nullable: true, default: null, key: "", extra: "", generation: "a + b" },
+  ];
+
+  it("matches names case-insensitively and applies the mapping", () => {
+    const pairs = mapImportColumns(["ID", "mail"], columns, { mail: "email" });
+    expect(pairs.map((p) => [p.field, p.column.name])).toEqual([
+      ["ID", "id"],
+      ["mail", "email"],
+    ]);
+  });
+
+  it("rejects unknown, generated and duplicate columns", () => {
+    expect(() => mapImportColumns(["nope"], columns)).toThrow(/no matching/);
+    expect(() => mapImportColumns(["total"], columns)).toThrow(/generated/);
+    expect(() => mapImportColumns(["id", "Id"], columns)).toThrow(/Several/);
+  });
+});
+
+describe("importInsertSql", () => {
+  it("builds a multi-row INSERT", () => {
+    expect(importInsertSql("t", ["a", "b"], 2, null)).toBe(
+      "INSERT INTO `t` (`a`, `b`) VALUES (?, ?), (?, ?)"
+    );
+  });
+
+  it("upserts non-key columns with VALUES() or the row alias", () => {
+    expect(importInsertSql("t", ["id", "b"], 1, ["id"])).toBe(
+      "INSERT INTO `t` (`id`, `b`) VALUES (?, ?) ON DUPLICATE KEY UPDATE `b` = VALUES(`b`)"
+    );
+    const server = { flavor: "mysql", major: 8, minor: 0, patch: 19 } as Parameters<
+      typeof importInsertSql
+    >[4];
+    expect(importInsertSql("t", ["id", "b"], 1, ["id"], server)).toBe(
+      "INSERT INTO `t` (`id`, `b`) VALUES (?, ?) AS `new` ON DUPLICATE KEY UPDATE `b` = `new`.`b`"
+    );
+  });
+});
+
+describe("importStatements", () => {
+  const row = (line: number, values: Record<string, string>) => ({
+    line,
+    columns: Object.keys(values),
+    values: Object.values(values),
+  });
+
+  it("groups each batch by the columns present, so missing keys keep their default", () => {
+    const rows = [
+      row(1, { id: "1", name: "a" }),
+      row(2, { id: "2" }),
+      row(3, { id: "3", name: "c" }),
+      row(4, { id: "4" }),
+    ];
+    const statements = importStatements("t", rows, 3, null);
+    expect(statements.map(({ batch, sql, params }) => ({ batch, sql, params }))).toEqual([
+      { batch: 1, sql: "INSERT INTO `t` (`id`, `name`) VALUES (?, ?), (?, ?)", params: ["1", "a", "3", "c"] },
+      { batch: 1, sql: "INSERT INTO `t` (`id`) VALUES (?)", params: ["2"] },
+      { batch: 2, sql: "INSERT INTO `t` (`id`) VALUES (?)", params: ["4"] },
+    ]);
+    expect(statements[0].rows.map((r) => r.line)).toEqual([1, 3]);
+  });
+
+  it("leaves missing columns alone on upsert", () => {
+    const [statement] = importStatements("t", [row(1, { id: "1" })], 10, ["id"]);
+    expect(statement.sql).toBe("INSERT INTO `t` (`id`) VALUES (?) ON DUPLICATE KEY UPDATE `id` = `id`");
+    expect(importStatements("t", [row(1, {})], 10, ["id"])[0].sql).toBe("INSERT INTO `t` () VALUES ()");
+  });
+});
+
+describe("runImportBatches", () => {
+  const statement = (batch: number, line: number) => ({
+    batch,
+    rows: [{ line, columns: ["id"], values: [line] }],
+    sql: `INSERT ${batch}`,
+    params: [line],
+  });
+  const statements = [statement(1, 1), statement(2, 2), statement(3, 3)];
+
+  /** Fails the INSERTs in `failing`; a `lost` failure also drops the savepoint, like a deadlock. */
+  function fakeConnection(failing: Record<string, "error" | "lost">) {
+    const log: string[] = [];
+    let savepoint = false;
+    const query = async (sql: string) => {
+      log.push(sql);
+      if (sql === "SAVEPOINT import_batch") savepoint = true;
+      if (sql === "ROLLBACK TO SAVEPOINT import_batch" && !savepoint) {
+        throw new Error("SAVEPOINT import_batch does not exist");
+      }
+      const failure = failing[sql];
+      if (failure === "lost") savepoint = false;
+      if (failure) throw new Error(`${sql} failed at row 1`);
+      return [{ affectedRows: 1 }, []];
+    };
+    return { connection: { query } as unknown as Parameters<typeof runImportBatches>[0], log };
+  }
+
+  it("stops at the first failing batch by default", async () => {
+    const { connection, log } = fakeConnection({ "INSERT 2": "error" });
+    const result = await runImportBatches(connection, statements, false);
+    expect(result).toEqual({ affected: 1, errors: ["Batch 2 (lines 2–2), line 2: INSERT 2 failed at row 1"] });
+    expect(log).toEqual(["INSERT 1", "INSERT 2"]);
+  });
+
+  it("undoes a failing batch and reports later ones with continueOnError", async () => {
+    const { connection, log } = fakeConnection({ "INSERT 1": "error", "INSERT 3": "error" });
+    const result = await runImportBatches(connection, statements, true);
+    expect(result.errors).toHaveLength(2);
+    expect(result.affected).toBe(1);
+    expect(log.filter((sql) => sql.startsWith("ROLLBACK"))).toHaveLength(2);
+  });
+
+  it("stops when the server already rolled back the transaction", async () => {
+    const { connection, log } = fakeConnection({ "INSERT 1": "lost" });
+    const result = await runImportBatches(connection, statements, true);
+    expect(result.errors).toHaveLength(1);
+    expect(log).not.toContain("INSERT 2");
+  });
+});
+
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { formatQueryResult } from "../format.js";
+
+// ─── formatQueryResult ──────────────────────────────────────────
+
+describe("formatQueryResult", () => {
+  const columns = ["id", "name", "note"];
+  const rows = [
+    { id: 1, name: "Alice", note: null },
+    { id: 2, name: 'Bob "B", Jr.', note: "a|b\nc" },
+  ];
+  const truncatedMeta = { rowCount: 2, offset: 4, truncated: true, limit: 2, cursor: "abc" };
+
+  it("json keeps the pretty-printed payload shape", () => {
+    const [text] = formatQueryResult(columns, rows, { rowCount: 2 }, "json");
+    expect(JSON.parse(text)).toEqual({ columns, rows, rowCount: 2 });
+    expect(text).toContain("\n  ");
+  });
+
+  it("compact returns column arrays on one line", () => {
+    const [text] = formatQueryResult(columns, rows, truncatedMeta, "compact");
+    expect(text).not.toContain("\n");
+    expect(JSON.parse(text)).toEqual({
+      columns,
+      rows: [
+        [1, "Alice", null],
+        [2, 'Bob "B", Jr.', "a|b\nc"],
+      ],
+      ...truncatedMeta,
+    });
+  });
+
+  it("csv quotes special characters and reports metadata separately", () => {
+    const [data, meta] = formatQueryResult(columns, rows, truncatedMeta, "csv");
+    expect(data).toBe('id,name,note\r\n1,Alice,\r\n2,"Bob ""B"", Jr.","a|b\nc"');
+    expect(JSON.parse(meta)).toEqual(truncatedMeta);
+  });
+
+  it("ndjson emits one object per line plus metadata", () => {
+    const [data, meta] = formatQueryResult(columns, rows, { rowCount: 2 }, "ndjson");
+    expect(data.split("\n").map((l) => JSON.parse(l))).toEqual(rows);
+    expect(JSON.parse(meta)).toEqual({ rowCount: 2 });
+  });
+
+  it("markdown escapes pipes and newlines and shows NULL", () => {
+    const [text] = formatQueryResult(columns, rows, { rowCount: 2 }, "markdown");
+    const lines = text.split("\n");
+    expect(lines[0]).toBe("| id | name | note |");
+    expect(lines[1]).toBe("| --- | --- | --- |");
+    expect(lines[2]).toBe("| 1 | Alice | NULL |");
+    expect(lines[3]).toBe('| 2 | Bob "B", Jr. | a\\|b<br>c |');
+    expect(text).toContain("_2 row(s)._");
+  });
+
+  it("markdown footer reports truncation", () => {
+    const [text] = formatQueryResult(columns, rows, truncatedMeta, "markdown");
+    expect(text).toContain(
+      "_Showing rows 5–6 (truncated at limit 2; more available with cursor `abc`)._"
+    );
+  });
+
+  it("reports totalRows when the whole result was read", () => {
+    const meta = { rowCount: 2, offset: 4, truncated: true, totalRows: 9, limit: 2, cursorUnavailable: "no cursor." };
+    const [text] = formatQueryResult(columns, rows, meta, "markdown");
+    expect(text).toContain("_Showing rows 5–6 of 9 (truncated at limit 2; no cursor.)._");
+    const [, json] = formatQueryResult(columns, rows, meta, "csv");
+    expect(JSON.parse(json)).toMatchObject({ truncated: true, totalRows: 9 });
+  });
+
+  it("renders dates and buffers in text formats", () => {
+    const [data] = formatQueryResult(
+      ["d", "b"],
+      [{ d: new Date("2026-01-02T03:04:05Z"), b: Buffer.from([0xde, 0xad]) }],
+      { rowCount: 1 },
+      "csv"
+    );
+    expect(data).toBe("d,b\r\n2026-01-02T03:04:05.000Z,0xdead");
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { closeAllHttpSessions, startHttpServer } from "../http.js";
+import { configCache } from "../config.js";
+
+// The config path is read once at import, so point it at a temp dir first
+const { dir } = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = mkdtempSync(join(tmpdir(), "mcp-mysql-http-"));
+  process.env.MCP_MYSQL_CONFIG = join(dir, "config.json");
+  return { dir };
+});
+
+const DEV_TOKEN = "dev-token-0123456789";
+const ADMIN_TOKEN = "admin-token-0123456789";
+
+function writeConfig(http: object = {}): void {
+  writeFileSync(
+    join(dir, "config.json"),
+    JSON.stringify({
+      // Nothing listens on port 1; none of the calls below connect
+      connections: [
+        { label: "dev", url: "mysql://u@127.0.0.1:1/app" },
+        { label: "prod", url: "mysql://u@127.0.0.1:1/app" },
+      ],
+      http: {
+        tokens: [
+          { name: "dev", token: DEV_TOKEN, labels: ["dev"] },
+          { name: "admin", token: ADMIN_TOKEN },
+        ],
+        ...http,
+      },
+    })
+  );
+  if (configCache) configCache.loadedAt = 0; // as the file watcher does
+}
+
+// ─── HTTP transport ─────────────────────────────────────────────
+
+describe("HTTP transport", () => {
+  let server: Server;
+  let base: string;
+  const clients: Client[] = [];
+
+  const auth = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  /** URLs the clients requested, to read the legacy transport's session id. */
+  const requested: string[] = [];
+  const recordingFetch: typeof fetch = (url, init) => {
+    requested.push(String(url));
+    return fetch(url, init);
+  };
+
+  const clientOptions = (token: string) => ({
+    requestInit: { headers: auth(token) },
+    fetch: recordingFetch,
+  });
+
+  async function connectWith(transport: StreamableHTTPClientTransport | SSEClientTransport) {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  async function connect(token: string) {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${base}/mcp`),
+      clientOptions(token)
+    );
+    return { client: await connectWith(transport), transport };
+  }
+
+  function connectLegacy(token: string): Promise<Client> {
+    return connectWith(new SSEClientTransport(new URL(`${base}/sse`), clientOptions(token)));
+  }
+
+  async function listDatabases(client: Client): Promise<string> {
+    const result = await client.callTool({ name: "mysql_list_databases", arguments: {} });
+    return (result.content as { text: string }[])[0].text;
+  }
+
+  /** A ping sent straight to the handler, bypassing the client's session checks. */
+  function ping(path: string, token: string, headers: Record<string, string> = {}) {
+    return fetch(`${base}${path}`, {
+      method: "POST",
+      headers: {
+        ...auth(token),
+        ...headers,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+  }
+
+  beforeAll(async () => {
+    writeConfig();
+    server = await startHttpServer(0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.close()));
+    writeConfig();
+  });
+
+  afterAll(async () => {
+    closeAllHttpSessions();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects missing and unknown bearer tokens", async () => {
+    const missing = await fetch(`${base}/mcp`, { method: "POST" });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe('Bearer realm="mcp-mysql"');
+
+    const unknown = await ping("/mcp", "not-a-configured-token");
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual({ error: "Missing or invalid bearer token" });
+  });
+
+  it("limits each token to its labels", async () => {
+    const { client: dev } = await connect(DEV_TOKEN);
+    const devList = await listDatabases(dev);
+    expect(devList).toContain("- dev:");
+    expect(devList).not.toContain("- prod:");
+
+    const { client: admin } = await connect(ADMIN_TOKEN);
+    const adminList = await listDatabases(admin);
+    expect(adminList).toContain("- dev:");
+    expect(adminList).toContain("- prod:");
+  });
+
+  it("only serves a session to the token that opened it", async () => {
+    const { transport } = await connect(DEV_TOKEN);
+    const session = { "mcp-session-id": transport.sessionId! };
+
+    expect((await ping("/mcp", ADMIN_TOKEN, session)).status).toBe(404);
+    expect((await ping("/mcp", DEV_TOKEN, session)).status).toBe(200);
+  });
+
+  it("closes a session once its token's labels change", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { transport } = await connect(DEV_TOKEN);
+    const session = { "mcp-session-id": transport.sessionId! };
+
+    writeConfig({
+      tokens: [
+        { name: "dev", token: DEV_TOKEN, labels: ["dev", "prod"] },
+        { name: "admin", token: ADMIN_TOKEN },
+      ],
+    });
+    expect((await ping("/mcp", DEV_TOKEN, session)).status).toBe(404);
+    expect(log).toHaveBeenCalledWith(
+      `HTTP session ${transport.sessionId} closed — its token's labels changed`
+    );
+    log.mockRestore();
+
+    const { client } = await connect(DEV_TOKEN);
+    expect(await listDatabases(client)).toContain("- prod:");
+  });
+
+  it("closes sessions idle longer than http.sessionIdleTimeoutMs", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    writeConfig({ sessionIdleTimeoutMs: 300 });
+    const { transport } = await connect(DEV_TOKEN);
+    const session = { "mcp-session-id": transport.sessionId! };
+
+    // Each request restarts the timer
+    await new Promise((r) => setTimeout(r, 150));
+    expect((await ping("/mcp", DEV_TOKEN, session)).status).toBe(200);
+    await new Promise((r) => setTimeout(r, 150));
+    expect((await ping("/mcp", DEV_TOKEN, session)).status).toBe(200);
+
+    await new Promise((r) => setTimeout(r, 500));
+    expect((await ping("/mcp", DEV_TOKEN, session)).status).toBe(404);
+    expect(log).toHaveBeenCalledWith(`HTTP session ${transport.sessionId} idle — closed`);
+    log.mockRestore();
+  });
+
+  it("serves older clients over the legacy SSE transport", async () => {
+    const client = await connectLegacy(DEV_TOKEN);
+    const list = await listDatabases(client);
+    expect(list).toContain("- dev:");
+    expect(list).not.toContain("- prod:");
+
+    const messages = new URL(requested.find((url) => url.includes("/messages?"))!);
+    expect(messages.searchParams.get("sessionId")).toBeTruthy();
+    expect((await ping(messages.pathname + messages.search, ADMIN_TOKEN)).status).toBe(404);
+  });
+});
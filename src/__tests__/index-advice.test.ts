@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  conditionColumns,
+  tableAliases,
+  clauseColumns,
+  adviseIndexes,
+} from "../index-advice.js";
+import { tokenizeSql } from "../sql.js";
+
+describe("index advice", () => {
+  const scanPlan = (condition: string, rows = 50000) => ({
+    query_block: {
+      select_id: 1,
+      ordering_operation: {
+        using_filesort: true,
+        table: {
+          table_name: "o",
+          access_type: "ALL",
+          rows_examined_per_scan: rows,
+          filtered: "10.00",
+          attached_condition: condition,
+        },
+      },
+    },
+  });
+  const query =
+    "SELECT * FROM shop.orders AS o WHERE o.status = 'new' AND o.created_at > ? ORDER BY o.id";
+  const condition =
+    "((`shop`.`o`.`status` = 'new') and (`shop`.`o`.`created_at` > '2026-01-01'))";
+
+  it("extracts equality and range columns of one table from a plan condition", () => {
+    expect(
+      conditionColumns(
+        "((`s`.`o`.`a` = 1) and (`s`.`o`.`b` between 1 and 2) and (`s`.`u`.`c` = 3) and (`o`.`d` in (1,2)))",
+        "o"
+      )
+    ).toEqual({ equality: ["a", "d"], range: ["b"] });
+  });
+
+  it("resolves aliases and ORDER BY / GROUP BY columns", () => {
+    const tokens = tokenizeSql(
+      "SELECT u.id FROM users u, items JOIN orders AS o ON o.user_id = u.id " +
+        "WHERE x IN (SELECT a FROM b ORDER BY a) GROUP BY u.id ORDER BY o.created_at DESC, 2 LIMIT 5"
+    );
+    expect(Object.fromEntries(tableAliases(tokens))).toMatchObject({
+      u: "users",
+      o: "orders",
+      items: "items",
+    });
+    expect(clauseColumns(tokens, "ORDER")).toEqual([{ qualifier: "o", column: "created_at" }]);
+    expect(clauseColumns(tokens, "GROUP")).toEqual([{ qualifier: "u", column: "id" }]);
+  });
+
+  it("proposes an index with equality columns before the range column", () => {
+    const advice = adviseIndexes(scanPlan(condition), query, new Map());
+    expect(advice[0]).toMatchObject({
+      table: "orders",
+      problem: "full table scan (~50000 rows per scan)",
+      statement: "CREATE INDEX `idx_orders_status_created_at` ON `orders` (`status`, `created_at`);",
+    });
+    expect(advice[1].problem).toBe("sorts with filesort");
+  });
+
+  it("points at an existing index instead of proposing a duplicate", () => {
+    const existing = new Map([
+      ["orders", [{ name: "ix", columns: ["status", "created_at", "id"], unique: false, type: "BTREE" }]],
+    ]);
+    const [first] = adviseIndexes(scanPlan(condition), query, existing);
+    expect(first.statement).toBeUndefined();
+    expect(first.reasoning.join(" ")).toContain("Existing index ix");
+  });
+
+  it("notes when a proposal extends an existing index", () => {
+    const existing = new Map([
+      ["orders", [{ name: "ix_status", columns: ["status"], unique: false, type: "BTREE" }]],
+    ]);
+    const [first] = adviseIndexes(scanPlan(condition), query, existing);
+    expect(first.statement).toBeDefined();
+    expect(first.reasoning.join(" ")).toContain("Extends existing index ix_status");
+  });
+
+  it("ignores small tables", () => {
+    const advice = adviseIndexes(scanPlan(condition, 10), query, new Map());
+    expect(advice.map((a) => a.problem)).toEqual(["sorts with filesort"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { parquetMetadata, parquetReadObjects } from "hyparquet";
+import { createParquetWriter } from "../parquet.js";
+
+function arrayBuffer(file: Buffer): ArrayBuffer {
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.length) as ArrayBuffer;
+}
+
+describe("createParquetWriter", () => {
+  it("frames the file with magic bytes and a length-prefixed footer", () => {
+    const writer = createParquetWriter([{ name: "id", kind: "int64" }]);
+    const file = Buffer.concat([
+      writer.header(),
+      writer.rowGroup([{ id: 1 }, { id: null }, { id: 3 }]),
+      writer.footer(),
+    ]);
+    expect(file.subarray(0, 4).toString()).toBe("PAR1");
+    expect(file.subarray(-4).toString()).toBe("PAR1");
+    const footerLength = file.readUInt32LE(file.length - 8);
+    const footer = file.subarray(file.length - 8 - footerLength, file.length - 8);
+    expect(footer.includes(Buffer.from("id"))).toBe(true);
+    expect(footer.includes(Buffer.from("mcp-mysql"))).toBe(true);
+    // Two present values, PLAIN INT64
+    expect(file.includes(Buffer.from([1, 0, 0, 0, 0, 0, 0, 0, 3, 0, 0, 0, 0, 0, 0, 0]))).toBe(true);
+  });
+
+  it("writes files a Parquet reader reads back, across row groups and nulls", async () => {
+    const writer = createParquetWriter([
+      { name: "id", kind: "int64" },
+      { name: "price", kind: "double" },
+      { name: "created", kind: "timestamp" },
+      { name: "day", kind: "date" },
+      { name: "name", kind: "utf8" },
+      { name: "blob", kind: "binary" },
+    ]);
+    const created = new Date("2026-03-04T05:06:07.089Z");
+    const file = Buffer.concat([
+      writer.header(),
+      writer.rowGroup([
+        {
+          id: "9007199254740993",
+          price: 1.5,
+          created,
+          day: new Date(2026, 2, 4),
+          name: "Zoë",
+          blob: Buffer.from([0, 255]),
+        },
+        { id: 2, price: null, created: null, day: null, name: null, blob: null },
+      ]),
+      writer.rowGroup([{ id: -3, price: -0.25, name: "" }]),
+      writer.footer(),
+    ]);
+
+    const metadata = parquetMetadata(arrayBuffer(file));
+    expect(Number(metadata.num_rows)).toBe(3);
+    expect(metadata.row_groups).toHaveLength(2);
+    expect(metadata.created_by).toBe("mcp-mysql");
+
+    const rows = await parquetReadObjects({ file: arrayBuffer(file), utf8: false });
+    expect(rows).toEqual([
+      {
+        id: 9007199254740993n,
+        price: 1.5,
+        created,
+        day: new Date("2026-03-04T00:00:00.000Z"),
+        name: "Zoë",
+        blob: new Uint8Array([0, 255]),
+      },
+      { id: 2n, price: null, created: null, day: null, name: null, blob: null },
+      { id: -3n, price: -0.25, created: null, day: null, name: "", blob: null },
+    ]);
+  });
+
+  it("reads back more columns than fit a short Thrift list header", async () => {
+    const columns = Array.from({ length: 20 }, (_, i) => ({
+      name: `c${i}`,
+      kind: "int64" as const,
+    }));
+    const writer = createParquetWriter(columns);
+    const row = Object.fromEntries(columns.map((c, i) => [c.name, i]));
+    const file = Buffer.concat([writer.header(), writer.rowGroup([row]), writer.footer()]);
+
+    const [read] = await parquetReadObjects({ file: arrayBuffer(file) });
+    expect(read).toEqual(Object.fromEntries(columns.map((c, i) => [c.name, BigInt(i)])));
+  });
+
+  it("keeps nulls in place past the first byte of definition levels", async () => {
+    const writer = createParquetWriter([
+      { name: "id", kind: "int64" },
+      { name: "note", kind: "utf8" },
+    ]);
+    const rows = Array.from({ length: 20 }, (_, i) => ({
+      id: i % 3 === 0 ? null : i,
+      note: i === 17 ? "x" : null,
+    }));
+    const file = Buffer.concat([
+      writer.header(),
+      writer.rowGroup(rows),
+      writer.rowGroup([{ id: null, note: null }]),
+      writer.footer(),
+    ]);
+
+    const read = await parquetReadObjects({ file: arrayBuffer(file) });
+    expect(read).toEqual([
+      ...rows.map((r) => ({ id: r.id === null ? null : BigInt(r.id), note: r.note })),
+      { id: null, note: null },
+    ]);
+  });
+
+  it("writes decimals as exact text", async () => {
+    const writer = createParquetWriter([{ name: "amount", kind: "utf8" }]);
+    const amounts = ["12345678901234567890.123456789", "-0.10", "0.00"];
+    const file = Buffer.concat([
+      writer.header(),
+      writer.rowGroup(amounts.map((amount) => ({ amount }))),
+      writer.footer(),
+    ]);
+
+    const read = await parquetReadObjects({ file: arrayBuffer(file) });
+    expect(read.map((r) => r.amount)).toEqual(amounts);
+  });
+
+  it("writes dates before the epoch and zero dates as null", async () => {
+    const writer = createParquetWriter([
+      { name: "day", kind: "date" },
+      { name: "at", kind: "timestamp" },
+    ]);
+    const at = new Date("1969-12-31T23:59:59.500Z");
+    const file = Buffer.concat([
+      writer.header(),
+      writer.rowGroup([
+        { day: new Date(1969, 11, 31), at },
+        { day: new Date(1900, 0, 1), at: new Date(0) },
+        // mysql2 returns MySQL's zero dates ('0000-00-00') as invalid Dates
+        { day: new Date(NaN), at: new Date(NaN) },
+      ]),
+      writer.footer(),
+    ]);
+
+    const read = await parquetReadObjects({ file: arrayBuffer(file) });
+    expect(read).toEqual([
+      { day: new Date("1969-12-31T00:00:00.000Z"), at },
+      { day: new Date("1900-01-01T00:00:00.000Z"), at: new Date(0) },
+      { day: null, at: null },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  isTableDenied,
+  findPolicyViolation,
+  referencesMaskedColumn,
+  maskValue,
+  applyPolicyToRows,
+} from "../policy.js";
+
+// ─── Access policy ──────────────────────────────────────────────
+
+describe("access policy", () => {
+  const mask = (column: string, strategy: "redact" | "hash" | "partial", keepEnd = 0) => ({
+    column,
+    strategy,
+    keepStart: 1,
+    keepEnd,
+  });
+  const policy = {
+    deniedTables: ["payment_tokens", "audit.*"],
+    deniedColumns: ["users.password_hash"],
+    masks: [mask("users.email", "partial"), mask("*.phone", "redact")],
+  };
+
+  describe("isTableDenied", () => {
+    it("matches unqualified patterns in any schema", () => {
+      expect(isTableDenied(policy, "shop", "payment_tokens")).toBe(true);
+      expect(isTableDenied(policy, undefined, "PAYMENT_TOKENS")).toBe(true);
+    });
+
+    it("matches schema-qualified wildcards only in that schema", () => {
+      expect(isTableDenied(policy, "audit", "events")).toBe(true);
+      expect(isTableDenied(policy, "shop", "events")).toBe(false);
+    });
+  });
+
+  describe("findPolicyViolation", () => {
+    it("rejects denied tables", () => {
+      expect(findPolicyViolation(policy, "SELECT * FROM payment_tokens", "shop")).toMatch(
+        /payment_tokens/
+      );
+      expect(findPolicyViolation(policy, "SELECT * FROM `payment_tokens` p", "shop")).not.toBeNull();
+    });
+
+    it("rejects denied tables in joins, subqueries and qualified names", () => {
+      expect(
+        findPolicyViolation(
+          policy,
+          "SELECT u.id FROM users u WHERE EXISTS (SELECT 1 FROM shop.payment_tokens t)",
+          "shop"
+        )
+      ).not.toBeNull();
+      expect(findPolicyViolation(policy, "SELECT * FROM audit.events", "shop")).not.toBeNull();
+    });
+
+    it("uses the default schema for unqualified names", () => {
+      expect(findPolicyViolation(policy, "SELECT * FROM events", "audit")).not.toBeNull();
+      expect(findPolicyViolation(policy, "SELECT * FROM events", "shop")).toBeNull();
+    });
+
+    it("ignores names inside string literals", () => {
+      expect(
+        findPolicyViolation(policy, "SELECT * FROM users WHERE note = 'payment_tokens'", "shop")
+      ).toBeNull();
+    });
+
+    it("rejects explicit references to denied columns", () => {
+      expect(
+        findPolicyViolation(policy, "SELECT u.password_hash FROM users u", "shop")
+      ).toMatch(/users\.password_hash/);
+      expect(
+        findPolicyViolation(policy, "SELECT id FROM users WHERE password_hash LIKE 'a%'", "shop")
+      ).not.toBeNull();
+    });
+
+    it("allows the same column name on other tables", () => {
+      expect(findPolicyViolation(policy, "SELECT password_hash FROM admins", "shop")).toBeNull();
+    });
+
+    it("allows SELECT * (denied columns are filtered from results)", () => {
+      expect(findPolicyViolation(policy, "SELECT * FROM users", "shop")).toBeNull();
+    });
+  });
+
+  it("refuses prepared statements, whose SQL it can't see", () => {
+    expect(findPolicyViolation(policy, "PREPARE s FROM @sql", "shop")).toMatch(/PREPARE is not allowed/);
+    expect(findPolicyViolation(policy, "EXECUTE s USING @id", "shop")).toMatch(/EXECUTE is not allowed/);
+  });
+
+  it("referencesMaskedColumn", () => {
+    expect(referencesMaskedColumn(policy, "SELECT UPPER(email) FROM users")).toBe(true);
+    expect(referencesMaskedColumn(policy, "SELECT phone FROM contacts")).toBe(true);
+    expect(referencesMaskedColumn(policy, "SELECT id FROM users")).toBe(false);
+  });
+
+  describe("maskValue", () => {
+    it("partial keeps the email domain", () => {
+      expect(maskValue("john@example.com", mask("c", "partial"))).toBe("j***@example.com");
+    });
+
+    it("partial keeps configured start/end characters", () => {
+      expect(maskValue("4111111111111111", mask("c", "partial", 4))).toBe("4***1111");
+      expect(maskValue("ab", mask("c", "partial", 4))).toBe("***");
+    });
+
+    it("hash is stable and non-reversible", () => {
+      const a = maskValue("secret", mask("c", "hash"));
+      expect(a).toMatch(/^[0-9a-f]{16}$/);
+      expect(maskValue("secret", mask("c", "hash"))).toBe(a);
+    });
+
+    it("redact and NULL handling", () => {
+      expect(maskValue("x", mask("c", "redact"))).toBe("[REDACTED]");
+      expect(maskValue(null, mask("c", "redact"))).toBeNull();
+    });
+  });
+
+  describe("applyPolicyToRows", () => {
+    const fields = [
+      { name: "id", db: "shop", orgTable: "users", orgName: "id" },
+      { name: "mail", db: "shop", orgTable: "users", orgName: "email" },
+      { name: "password_hash", db: "shop", orgTable: "users", orgName: "password_hash" },
+      { name: "n", db: "", orgTable: "", orgName: "" },
+    ];
+    const rows = [{ id: 1, mail: "jane@example.com", password_hash: "x", n: 5 }];
+
+    it("drops denied columns and masks by origin column (aliases included)", () => {
+      const out = applyPolicyToRows(policy, fields, rows, "SELECT u.*, 5 AS n FROM users u");
+      expect(out.columns).toEqual(["id", "mail", "n"]);
+      expect(out.rows).toEqual([{ id: 1, mail: "j***@example.com", n: 5 }]);
+    });
+
+    it("redacts computed columns when masked columns are referenced", () => {
+      const out = applyPolicyToRows(policy, fields, rows, "SELECT id, LENGTH(email) AS n FROM users");
+      expect(out.rows[0].n).toBe("[REDACTED]");
+    });
+
+    it("matches wrapped columns by name when their origin is hidden", () => {
+      // Derived tables report their alias (and no schema) as the origin
+      const derived = [
+        { name: "id", db: "", orgTable: "t", orgName: "id" },
+        { name: "email", db: "", orgTable: "t", orgName: "email" },
+        { name: "password_hash", db: "", orgTable: "t", orgName: "password_hash" },
+      ];
+      const wrapped = [{ id: 1, email: "jane@example.com", password_hash: "x" }];
+      const out = applyPolicyToRows(policy, derived, wrapped, "SELECT * FROM (SELECT * FROM users) t");
+      expect(out.columns).toEqual(["id", "email"]);
+      expect(out.rows[0].email).toBe("j***@example.com");
+    });
+
+    it("does not trust origins reported for UNIONs and CTEs", () => {
+      // A UNION reports the first branch's columns
+      const unioned = [{ name: "name", db: "shop", orgTable: "products", orgName: "name" }];
+      const out = applyPolicyToRows(
+        policy,
+        unioned,
+        [{ name: "jane@example.com" }],
+        "SELECT name FROM products UNION SELECT email FROM users"
+      );
+      expect(out.rows[0].name).toBe("[REDACTED]");
+
+      const cte = [{ name: "email", db: "shop", orgTable: "u", orgName: "email" }];
+      const viaCte = applyPolicyToRows(
+        policy,
+        cte,
+        [{ email: "jane@example.com" }],
+        "WITH u AS (SELECT * FROM users) SELECT * FROM u"
+      );
+      expect(viaCte.rows[0].email).toBe("j***@example.com");
+    });
+
+    it("redacts expressions over masked columns", () => {
+      const expr = [{ name: "x", db: "", orgTable: "", orgName: "" }];
+      const out = applyPolicyToRows(
+        policy,
+        expr,
+        [{ x: "jane@example.com" }],
+        "SELECT CONCAT(email, '') AS x FROM users"
+      );
+      expect(out.rows[0].x).toBe("[REDACTED]");
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { acquireQuerySlot } from "../pool.js";
+import { configCache, loadFullConfig } from "../config.js";
+
+// The config path is read once at import, so point it at a temp dir first
+const { dir } = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = mkdtempSync(join(tmpdir(), "mcp-mysql-pool-"));
+  process.env.MCP_MYSQL_CONFIG = join(dir, "config.json");
+  return { dir };
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// ─── Concurrency limits ─────────────────────────────────────────
+
+describe("acquireQuerySlot", () => {
+  type Conn = Parameters<typeof acquireQuerySlot>[0];
+  const conn = (label: string, maxConcurrentQueries?: number) =>
+    ({ label, maxConcurrentQueries }) as Conn;
+  const tick = () => new Promise((r) => setTimeout(r, 0));
+
+  it("does not limit connections without maxConcurrentQueries", async () => {
+    const c = conn("unlimited");
+    await Promise.all([acquireQuerySlot(c), acquireQuerySlot(c), acquireQuerySlot(c)]);
+  });
+
+  it("queues beyond the limit and hands slots over in order", async () => {
+    const c = conn("limited", 2);
+    const order: number[] = [];
+    const releaseA = await acquireQuerySlot(c);
+    const releaseB = await acquireQuerySlot(c);
+    const third = acquireQuerySlot(c).then((release) => (order.push(3), release));
+    const fourth = acquireQuerySlot(c).then((release) => (order.push(4), release));
+    await tick();
+    expect(order).toEqual([]);
+
+    releaseA();
+    releaseA(); // double release is a no-op
+    await tick();
+    expect(order).toEqual([3]);
+
+    releaseB();
+    await tick();
+    expect(order).toEqual([3, 4]);
+    (await third)();
+    (await fourth)();
+
+    // Both slots free again
+    await Promise.all([acquireQuerySlot(c), acquireQuerySlot(c)]);
+  });
+
+  it("drops a queued request when the client cancels it", async () => {
+    const c = conn("cancel", 1);
+    const release = await acquireQuerySlot(c);
+    const controller = new AbortController();
+    const queued = acquireQuerySlot(c, controller.signal);
+    controller.abort();
+    await expect(queued).rejects.toThrow(/cancelled/);
+
+    release();
+    const next = await acquireQuerySlot(c); // not handed to the cancelled waiter
+    next();
+  });
+
+  it("follows maxConcurrentQueries changes on config reload", async () => {
+    const reload = async (connections: object[]) => {
+      writeFileSync(join(dir, "config.json"), JSON.stringify({ connections }));
+      if (configCache) configCache.loadedAt = 0; // as the file watcher does
+      await loadFullConfig();
+    };
+    const url = "mysql://u@127.0.0.1:1/app";
+    const order: number[] = [];
+    const queue = (c: Conn, n: number) =>
+      acquireQuerySlot(c).then((release) => (order.push(n), release));
+
+    const raised = conn("raised", 1);
+    const gone = conn("gone", 1);
+    await acquireQuerySlot(raised);
+    await acquireQuerySlot(gone);
+    const waiting = [queue(raised, 1), queue(raised, 2), queue(raised, 3), queue(gone, 4)];
+    await tick();
+    expect(order).toEqual([]);
+
+    // "raised" now allows 3 at once; "gone" was removed from the config
+    await reload([{ label: "raised", url, maxConcurrentQueries: 3 }]);
+    await tick();
+    expect(order).toEqual([1, 2, 4]);
+
+    // Raising the limit again lets the last one through
+    await reload([{ label: "raised", url, maxConcurrentQueries: 4 }]);
+    await tick();
+    expect(order).toEqual([1, 2, 4, 3]);
+    for (const release of await Promise.all(waiting)) release();
+  });
+});
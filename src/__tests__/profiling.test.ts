@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { profileColumn, formatColumnProfile } from "../profiling.js";
+
+describe("table profiling", () => {
+  it("computes nulls, distinct values, min/max and top values", () => {
+    const profile = profileColumn([3, 1, null, 3, 10, 3, null], 2);
+    expect(profile).toMatchObject({ count: 7, nulls: 2, distinct: 3, min: 1, max: 10 });
+    expect(profile.top).toEqual([
+      [3, 3],
+      [1, 1],
+    ]);
+    expect(profile.lengths).toBeUndefined();
+  });
+
+  it("compares dates chronologically and reports string lengths", () => {
+    const early = new Date("2020-01-01T00:00:00Z");
+    const late = new Date("2026-01-01T00:00:00Z");
+    expect(profileColumn([late, early], 5)).toMatchObject({ min: early, max: late });
+
+    const { lengths } = profileColumn(["a", "abcd", "ab", "abc", null], 5);
+    expect(lengths).toEqual({ min: 1, p50: 3, p90: 4, max: 4, avg: 2.5 });
+  });
+
+  it("uses separately fetched lengths for truncated values", () => {
+    const { lengths } = profileColumn(["x".repeat(5), "y"], 5, [5000, 1]);
+    expect(lengths).toMatchObject({ min: 1, max: 5000 });
+  });
+
+  it("formats one line per column and skips top values of unique columns", () => {
+    const status = formatColumnProfile(
+      "status",
+      "varchar(10)",
+      profileColumn(["new", "new", "paid", null], 3)
+    );
+    expect(status).toBe(
+      "- status varchar(10): nulls 25.0%; distinct 2 (sample); min new; max paid; " +
+        "top: new (66.7%), paid (33.3%); length min 3 / p50 3 / p90 4 / max 4 (avg 3.3)"
+    );
+
+    const id = formatColumnProfile("id", "int", profileColumn([1, 2, 3], 3), 120000);
+    expect(id).toBe("- id int: nulls 0.0%; distinct ~120000 (index); min 1; max 3");
+  });
+});
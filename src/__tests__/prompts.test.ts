@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { renderPromptTemplate } from "../prompts.js";
+
+// ─── Prompt templates ───────────────────────────────────────────
+
+describe("renderPromptTemplate", () => {
+  it("substitutes placeholders, tolerating inner whitespace", () => {
+    expect(
+      renderPromptTemplate("Report for {{week}} on {{ database }}", {
+        week: "2026-W42",
+        database: "prod",
+      })
+    ).toBe("Report for 2026-W42 on prod");
+  });
+
+  it("replaces missing arguments with an empty string", () => {
+    expect(renderPromptTemplate("a{{x}}b{{y}}", { x: "1" })).toBe("a1b");
+  });
+
+  it("does not re-expand placeholders inside values", () => {
+    expect(renderPromptTemplate("{{a}}", { a: "{{b}}", b: "no" })).toBe("{{b}}");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  normalizeSql,
+  resultCacheKey,
+  getCachedResult,
+  storeCachedResult,
+} from "../result-cache.js";
+
+// ─── Result cache ───────────────────────────────────────────────
+
+describe("result cache", () => {
+  type Conn = Parameters<typeof getCachedResult>[0];
+  let n = 0;
+  const conn = (over: Partial<Conn> = {}): Conn =>
+    ({
+      label: `cache-${n}`,
+      host: "db",
+      port: 3306,
+      user: "u",
+      password: "",
+      database: "app",
+      readOnly: true,
+      cache: { ttlSeconds: 60, maxMb: 1 },
+      ...over,
+    }) as Conn;
+  const result = (rows: Record<string, unknown>[]) => ({
+    columns: ["v"],
+    fields: [],
+    rows,
+    hasMore: false,
+  });
+
+  beforeEach(() => {
+    n++; // fresh label per test
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("normalizeSql ignores comments and whitespace but keeps literals", () => {
+    expect(normalizeSql("SELECT  *\n FROM t -- note\n WHERE a = 'x  y'")).toBe(
+      "SELECT * FROM t WHERE a = 'x  y'"
+    );
+    expect(normalizeSql("SELECT 'a  b'")).not.toBe(normalizeSql("SELECT 'a b'"));
+  });
+
+  it("keys on params, offset and page size", () => {
+    const k = resultCacheKey("SELECT ?", [1], 0, 100);
+    expect(resultCacheKey("SELECT  ?", [1], 0, 100)).toBe(k);
+    expect(resultCacheKey("SELECT ?", [2], 0, 100)).not.toBe(k);
+    expect(resultCacheKey("SELECT ?", [1], 100, 100)).not.toBe(k);
+    expect(resultCacheKey("SELECT ?", [1], 0, 50)).not.toBe(k);
+  });
+
+  it("returns stored results until the TTL expires", () => {
+    vi.useFakeTimers();
+    const c = conn();
+    storeCachedResult(c, "k", result([{ v: 1 }]));
+    expect(getCachedResult(c, "k")?.result.rows).toEqual([{ v: 1 }]);
+    vi.advanceTimersByTime(61_000);
+    expect(getCachedResult(c, "k")).toBeNull();
+  });
+
+  it("is disabled without a cache config", () => {
+    const c = conn({ cache: undefined });
+    storeCachedResult(c, "k", result([{ v: 1 }]));
+    expect(getCachedResult(c, "k")).toBeNull();
+  });
+
+  it("invalidates when the connection settings change", () => {
+    const c = conn();
+    storeCachedResult(c, "k", result([{ v: 1 }]));
+    expect(getCachedResult({ ...c, host: "other-db" }, "k")).toBeNull();
+    expect(getCachedResult(c, "k")).toBeNull();
+  });
+
+  it("evicts least recently used entries beyond the memory budget", () => {
+    const c = conn({ cache: { ttlSeconds: 60, maxMb: 200 / (1024 * 1024) } });
+    const big = (tag: string) => result([{ v: tag.repeat(50) }]); // ~60 bytes each
+    storeCachedResult(c, "a", big("a"));
+    storeCachedResult(c, "b", big("b"));
+    storeCachedResult(c, "c", big("c"));
+    getCachedResult(c, "a"); // a becomes most recently used
+    storeCachedResult(c, "d", big("d"));
+    expect(getCachedResult(c, "b")).toBeNull();
+    expect(getCachedResult(c, "a")).not.toBeNull();
+    expect(getCachedResult(c, "d")).not.toBeNull();
+
+    // Results larger than the whole budget are never cached
+    storeCachedResult(c, "huge", big("x".repeat(10)));
+    expect(getCachedResult(c, "huge")).toBeNull();
+  });
+});
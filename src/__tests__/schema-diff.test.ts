@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import type { ColumnInfo, TableSchema } from "../introspection.js";
+import { columnDefinition, diffSchemas } from "../schema-diff.js";
+
+describe("diffSchemas", () => {
+  const col = (name: string, type: string, extra: Partial<ColumnInfo> = {}): ColumnInfo => ({
+    name,
+    type,
+    nullable: false,
+    default: null,
+    key: "",
+    extra: "",
+    generation: "",
+    ...extra,
+  });
+  const users = (): TableSchema => ({
+    name: "users",
+    columns: [col("id", "int", { extra: "auto_increment" }), col("email", "varchar(100)")],
+    indexes: [{ name: "PRIMARY", columns: ["id"], unique: true, type: "BTREE" }],
+    foreignKeys: [],
+  });
+
+  it("reports identical schemas", () => {
+    const diff = diffSchemas([users()], [users()], "prod", "stage");
+    expect(diff.statements).toEqual([]);
+    expect(diff.summary).toEqual(["No differences (1 tables compared)."]);
+  });
+
+  it("generates ADD, MODIFY and DROP COLUMN", () => {
+    const source = users();
+    source.columns[1] = col("email", "varchar(255)");
+    source.columns.push(col("phone", "varchar(32)", { nullable: true }));
+    const target = users();
+    target.columns.push(col("legacy_id", "int"));
+
+    const diff = diffSchemas([source], [target]);
+    expect(diff.statements).toEqual([
+      "ALTER TABLE `users`\n" +
+        "  DROP COLUMN `legacy_id`,\n" +
+        "  MODIFY COLUMN `email` varchar(255) NOT NULL,\n" +
+        "  ADD COLUMN `phone` varchar(32) NULL AFTER `email`;",
+    ]);
+    expect(diff.summary).toContain(
+      "    ~ column email: `email` varchar(100) NOT NULL → `email` varchar(255) NOT NULL"
+    );
+  });
+
+  it("never drops a table or column hidden by a policy on either side", () => {
+    const payments = (): TableSchema => ({ ...users(), name: "payments" });
+    // The source's policy denies payments and users.email, so its snapshot lacks them
+    const source = users();
+    source.columns.pop();
+    const target = [users(), payments()];
+    const hidden = (table: string, column?: string) =>
+      table === "payments" || (table === "users" && column === "email");
+
+    const diff = diffSchemas([source], target, "prod", "stage", hidden);
+    expect(diff.statements).toEqual([]);
+    expect(diff.summary).toEqual([
+      "No differences (1 tables compared).",
+      "Not compared, hidden by an access policy: users.email, payments",
+    ]);
+
+    // Without the policy information both would be dropped
+    expect(diffSchemas([source], target).statements).toEqual([
+      "ALTER TABLE `users`\n  DROP COLUMN `email`;",
+      "DROP TABLE `payments`;",
+    ]);
+  });
+
+  it("drops changed indexes before re-adding them", () => {
+    const source = users();
+    source.indexes.push({ name: "idx_email", columns: ["email"], unique: true, type: "BTREE" });
+    const target = users();
+    target.indexes.push({ name: "idx_email", columns: ["email"], unique: false, type: "BTREE" });
+
+    const [statement] = diffSchemas([source], [target]).statements;
+    expect(statement).toBe(
+      "ALTER TABLE `users`\n  DROP INDEX `idx_email`,\n  ADD UNIQUE INDEX `idx_email` (`email`);"
+    );
+  });
+
+  it("creates missing tables without foreign keys and adds them last", () => {
+    const orders: TableSchema = {
+      name: "orders",
+      columns: [col("id", "int"), col("user_id", "int")],
+      indexes: [],
+      foreignKeys: [
+        {
+          name: "fk_user",
+          columns: ["user_id"],
+          refSchema: "prod",
+          refTable: "users",
+          refColumns: ["id"],
+          onUpdate: "CASCADE",
+          onDelete: "RESTRICT",
+        },
+      ],
+    };
+    const diff = diffSchemas([users(), orders], [users(), { ...orders, name: "old" }], "prod");
+    expect(diff.summary).toEqual([
+      "Tables only in source (1): orders",
+      "Tables only in target (1): old",
+    ]);
+    expect(diff.statements).toEqual([
+      "CREATE TABLE `orders` (\n  `id` int NOT NULL,\n  `user_id` int NOT NULL\n);",
+      "ALTER TABLE `orders`\n  ADD CONSTRAINT `fk_user` FOREIGN KEY (`user_id`) " +
+        "REFERENCES `users` (`id`) ON DELETE RESTRICT ON UPDATE CASCADE;",
+      "DROP TABLE `old`;",
+    ]);
+  });
+
+  it("ignores the schema name of same-schema foreign key references", () => {
+    const fk = (refSchema: string) => ({
+      ...users(),
+      foreignKeys: [
+        {
+          name: "fk_self",
+          columns: ["id"],
+          refSchema,
+          refTable: "users",
+          refColumns: ["id"],
+          onUpdate: "NO ACTION",
+          onDelete: "CASCADE",
+        },
+      ],
+    });
+    expect(diffSchemas([fk("prod")], [fk("stage")], "prod", "stage").statements).toEqual([]);
+  });
+});
+
+describe("columnDefinition", () => {
+  const base: ColumnInfo = {
+    name: "c",
+    type: "varchar(10)",
+    nullable: true,
+    default: null,
+    key: "",
+    extra: "",
+    generation: "",
+  };
+
+  it("quotes string defaults and keeps numeric and timestamp defaults bare", () => {
+    expect(columnDefinition({ ...base, default: "it's" })).toBe(
+      "`c` varchar(10) NULL DEFAULT 'it''s'"
+    );
+    expect(columnDefinition({ ...base, type: "int", default: "0" })).toBe(
+      "`c` int NULL DEFAULT 0"
+    );
+    expect(
+      columnDefinition({
+        ...base,
+        type: "timestamp",
+        default: "CURRENT_TIMESTAMP",
+        extra: "DEFAULT_GENERATED on update CURRENT_TIMESTAMP",
+      })
+    ).toBe("`c` timestamp NULL DEFAULT CURRENT_TIMESTAMP on update CURRENT_TIMESTAMP");
+  });
+
+  it("renders generated columns", () => {
+    expect(
+      columnDefinition({ ...base, generation: "`a` + 1", extra: "STORED GENERATED" })
+    ).toBe("`c` varchar(10) GENERATED ALWAYS AS (`a` + 1) STORED");
+  });
+});
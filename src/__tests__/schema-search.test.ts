@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { schemaMatcher, matchSchemaRows } from "../schema-search.js";
+import { globMatches } from "../helpers.js";
+
+describe("schema search", () => {
+  it("matches substrings, globs and regexes case-insensitively", () => {
+    expect(schemaMatcher("Invoice", "substring")("old_invoice_id")).toBe(true);
+    expect(schemaMatcher("invoice_*", "glob")("INVOICE_ID")).toBe(true);
+    expect(schemaMatcher("invoice_*", "glob")("old_invoice_id")).toBe(false);
+    expect(schemaMatcher("^inv.*_id$", "regex")("invoice_id")).toBe(true);
+    expect(() => schemaMatcher("(", "regex")).toThrow();
+  });
+
+  it("refuses regexes that could backtrack catastrophically", () => {
+    const unsafe = ["(a+)+$", "(x|xx)*y", "((a*))+", "(\\w+\\s?)*$", "(a)\\1", "a".repeat(101)];
+    for (const pattern of unsafe) {
+      expect(() => schemaMatcher(pattern, "regex"), pattern).toThrow(/was refused/);
+    }
+    for (const pattern of ["^(inv|pay)_\\w+$", "(?:ab)+", "[(+]+x", "a{2,3}b*"]) {
+      expect(() => schemaMatcher(pattern, "regex"), pattern).not.toThrow();
+    }
+  });
+
+  it("matches globs without backtracking", () => {
+    expect(globMatches("*_id", "invoice_ID")).toBe(true);
+    expect(globMatches("in?oice*", "invoices")).toBe(true);
+    expect(globMatches("*a*b", "aab")).toBe(true);
+    expect(globMatches("a*b", "aabc")).toBe(false);
+    expect(globMatches("", "")).toBe(true);
+    expect(globMatches("**", "")).toBe(true);
+
+    const start = Date.now();
+    expect(globMatches("*a".repeat(40) + "b", "a".repeat(5000))).toBe(false);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it("groups matching columns by table and keeps table-name matches", () => {
+    const rows = [
+      { table: "invoices", column: "id", type: "bigint", comment: "" },
+      { table: "payments", column: "id", type: "bigint", comment: "" },
+      { table: "payments", column: "invoice_id", type: "bigint", comment: "" },
+      { table: "payments", column: "ref", type: "varchar(64)", comment: "Invoice number" },
+      { table: "users", column: "email", type: "varchar(255)", comment: "" },
+    ];
+    expect(matchSchemaRows(rows, schemaMatcher("invoice", "substring"))).toEqual([
+      { table: "invoices", tableMatched: true, columns: [] },
+      {
+        table: "payments",
+        tableMatched: false,
+        columns: [
+          { name: "invoice_id", type: "bigint", comment: "", commentMatched: false },
+          {
+            name: "ref",
+            type: "varchar(64)",
+            comment: "Invoice number",
+            commentMatched: true,
+          },
+        ],
+      },
+    ]);
+  });
+});
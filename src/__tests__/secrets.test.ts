@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { join } from "path";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { resolveEnvVars, parseEnvFile, resolveSecrets } from "../secrets.js";
+
+// ─── resolveEnvVars ──────────────────────────────────────────────
+
+describe("resolveEnvVars", () => {
+  const ORIG_ENV = { ...process.env };
+
+  beforeEach(() => {
+    process.env.TEST_HOST = "localhost";
+    process.env.TEST_PORT = "3306";
+    process.env.TEST_PASS = "s3cret";
+  });
+
+  afterEach(() => {
+    process.env = { ...ORIG_ENV };
+  });
+
+  it("replaces ${VAR} in a string", () => {
+    expect(resolveEnvVars("host=${TEST_HOST}")).toBe("host=localhost");
+  });
+
+  it("replaces multiple vars in one string", () => {
+    expect(resolveEnvVars("${TEST_HOST}:${TEST_PORT}")).toBe("localhost:3306");
+  });
+
+  it("returns empty string for unset var without default", () => {
+    expect(resolveEnvVars("${NONEXISTENT_VAR_XYZ}")).toBe("");
+  });
+
+  it("uses default value with ${VAR:-default} syntax", () => {
+    expect(resolveEnvVars("${NONEXISTENT_VAR_XYZ:-fallback}")).toBe("fallback");
+  });
+
+  it("prefers env var over default when var is set", () => {
+    expect(resolveEnvVars("${TEST_HOST:-other}")).toBe("localhost");
+  });
+
+  it("processes strings in objects recursively", () => {
+    const input = { host: "${TEST_HOST}", port: 3306, nested: { pass: "${TEST_PASS}" } };
+    const result = resolveEnvVars(input) as Record<string, unknown>;
+    expect(result.host).toBe("localhost");
+    expect(result.port).toBe(3306);
+    expect((result.nested as Record<string, unknown>).pass).toBe("s3cret");
+  });
+
+  it("processes strings in arrays", () => {
+    const input = ["${TEST_HOST}", "${TEST_PORT}"];
+    expect(resolveEnvVars(input)).toEqual(["localhost", "3306"]);
+  });
+
+  it("passes through non-string primitives unchanged", () => {
+    expect(resolveEnvVars(42)).toBe(42);
+    expect(resolveEnvVars(true)).toBe(true);
+    expect(resolveEnvVars(null)).toBe(null);
+  });
+
+  it("handles string with no vars unchanged", () => {
+    expect(resolveEnvVars("plain text")).toBe("plain text");
+  });
+});
+
+// ─── Secret sources ─────────────────────────────────────────────
+
+describe("parseEnvFile", () => {
+  it("reads plain, quoted and exported values", () => {
+    const env = parseEnvFile(
+      [
+        "# comment",
+        "",
+        "DB_HOST=db.internal  # trailing comment",
+        'export DB_PASS="p#ss\\nword \\"x\\""',
+        "RAW='no $ {expansion} \\n'",
+        "EMPTY=",
+      ].join("\n")
+    );
+    expect(env).toEqual({
+      DB_HOST: "db.internal",
+      DB_PASS: 'p#ss\nword "x"',
+      RAW: "no $ {expansion} \\n",
+      EMPTY: "",
+    });
+  });
+
+  it("reports malformed lines", () => {
+    expect(() => parseEnvFile("OK=1\nnot a pair")).toThrow(/line 2/);
+    expect(() => parseEnvFile('A="open')).toThrow(/unterminated/);
+  });
+});
+
+describe("resolveSecrets", () => {
+  const dir = mkdtempSync(join(tmpdir(), "mcp-mysql-secrets-"));
+  const ctx = {
+    env: { DB_USER: "app" },
+    baseDir: dir,
+    commandTimeoutMs: 5_000,
+    cacheTtlMs: 60_000,
+    envFile: null,
+  };
+
+  afterEach(() => rmSync(join(dir, "pass"), { force: true }));
+
+  it("reads file references relative to the config directory", async () => {
+    writeFileSync(join(dir, "pass"), "s3cret\n");
+    expect(await resolveSecrets({ password: "${file:pass}", user: "${DB_USER}" }, ctx)).toEqual({
+      password: "s3cret",
+      user: "app",
+    });
+  });
+
+  it("runs command references with the resolved environment", async () => {
+    expect(await resolveSecrets(["${cmd:echo $DB_USER-pw}"], ctx)).toEqual(["app-pw"]);
+  });
+
+  it("names the failing reference", async () => {
+    await expect(resolveSecrets("${file:missing}", ctx)).rejects.toThrow(/\$\{file:missing\}/);
+    await expect(resolveSecrets("${cmd:exit 3}", ctx)).rejects.toThrow(/exited with code 3/);
+    await expect(resolveSecrets("${vault:db}", ctx)).rejects.toThrow(/unknown secret source/);
+  });
+
+  it("keeps ${VAR:-default} syntax", async () => {
+    expect(await resolveSecrets("${NOPE_XYZ:-fallback}", ctx)).toBe("fallback");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseServerVersion,
+  describeServer,
+  sessionTimeoutStatement,
+  explainSyntax,
+} from "../server-flavor.js";
+
+describe("server flavor", () => {
+  it("detects MySQL, MariaDB, Percona and TiDB", () => {
+    expect(parseServerVersion("8.0.36")).toMatchObject({ flavor: "mysql", version: "8.0.36" });
+    expect(parseServerVersion("10.11.6-MariaDB-1:10.11.6+maria~ubu2204")).toMatchObject({
+      flavor: "mariadb",
+      major: 10,
+      minor: 11,
+      patch: 6,
+    });
+    expect(parseServerVersion("5.5.5-10.3.39-MariaDB").version).toBe("10.3.39");
+    expect(
+      parseServerVersion("8.0.35-27", "Percona Server (GPL), Release 27, Revision 2f8eeab2")
+        .flavor
+    ).toBe("percona");
+    const tidb = parseServerVersion("8.0.11-TiDB-v7.5.0");
+    expect(tidb).toMatchObject({ flavor: "tidb", version: "7.5.0", raw: "8.0.11-TiDB-v7.5.0" });
+    expect(describeServer(tidb)).toBe("TiDB 7.5.0");
+  });
+
+  it("picks the session timeout variable per flavor", () => {
+    expect(sessionTimeoutStatement(parseServerVersion("8.0.36"), 30000)).toBe(
+      "SET SESSION max_execution_time = 30000"
+    );
+    expect(sessionTimeoutStatement(parseServerVersion("10.6.16-MariaDB"), 1500)).toBe(
+      "SET SESSION max_statement_time = 1.5"
+    );
+    expect(sessionTimeoutStatement(parseServerVersion("5.6.51"), 30000)).toBeNull();
+  });
+
+  it("picks the EXPLAIN syntax per flavor and version", () => {
+    expect(explainSyntax(parseServerVersion("8.0.18"))).toEqual({
+      analyze: "EXPLAIN ANALYZE",
+      json: "EXPLAIN FORMAT=JSON",
+    });
+    expect(explainSyntax(parseServerVersion("5.7.44")).analyze).toBeNull();
+    expect(explainSyntax(parseServerVersion("10.11.6-MariaDB")).analyze).toBe(
+      "ANALYZE FORMAT=JSON"
+    );
+    expect(explainSyntax(parseServerVersion("8.0.11-TiDB-v7.5.0")).json).toBeNull();
+  });
+});
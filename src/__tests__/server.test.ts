@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createServer } from "../server.js";
+import { auditQueue } from "../audit.js";
+import { type LabelScope, configCache, loadFullConfig } from "../config.js";
+import { drainAllPools } from "../pool.js";
+
+// The config path is read once at import, so point it at a temp dir first
+const { dir } = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = mkdtempSync(join(tmpdir(), "mcp-mysql-server-"));
+  process.env.MCP_MYSQL_CONFIG = join(dir, "config.json");
+  return { dir };
+});
+
+const configPath = join(dir, "config.json");
+const auditPath = join(dir, "audit.jsonl");
+
+function writeConfig(config: object): void {
+  writeFileSync(configPath, JSON.stringify(config));
+  if (configCache) configCache.loadedAt = 0; // as the file watcher does
+}
+
+afterAll(async () => {
+  await drainAllPools();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function connect(scope: LabelScope = null): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(scope).connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function auditLines(): Record<string, unknown>[] {
+  if (!existsSync(auditPath)) return [];
+  return readFileSync(auditPath, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+// ─── Audit entries ──────────────────────────────────────────────
+
+describe("audit entries of multi-statement tools", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    rmSync(auditPath, { force: true });
+    writeConfig({
+      // Nothing listens on port 1; every call below is refused before connecting
+      connections: [{ label: "dev", url: "mysql://u@127.0.0.1:1/app", readOnly: false }],
+      audit: { path: auditPath, redactParams: false },
+    });
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("records each mysql_transaction step", async () => {
+    const result = await client.callTool({
+      name: "mysql_transaction",
+      arguments: {
+        database: "dev",
+        steps: [
+          { query: "UPDATE t SET a = ? WHERE id = ?", params: [1, 2] },
+          { query: "CREATE TABLE u (id INT)" },
+        ],
+      },
+    });
+    expect(result.isError).toBe(true);
+    await auditQueue;
+
+    const [entry] = auditLines();
+    expect(entry).toMatchObject({
+      tool: "mysql_transaction",
+      label: "dev",
+      error: "STEP_REJECTED",
+      steps: [
+        {
+          sql: "UPDATE t SET a = ? WHERE id = ?",
+          fingerprint: expect.any(String),
+          paramCount: 2,
+          params: [1, 2],
+        },
+        { sql: "CREATE TABLE u (id INT)", fingerprint: expect.any(String), paramCount: 0 },
+      ],
+    });
+    expect(entry.sql).toBeUndefined();
+  });
+
+  it("leaves step SQL out when logSql is off", async () => {
+    writeConfig({
+      connections: [{ label: "dev", url: "mysql://u@127.0.0.1:1/app", readOnly: false }],
+      audit: { path: auditPath, logSql: false },
+    });
+    await client.callTool({
+      name: "mysql_transaction",
+      arguments: { database: "dev", steps: [{ query: "DROP TABLE t", params: [] }] },
+    });
+    await auditQueue;
+
+    const [entry] = auditLines();
+    expect(entry.steps).toEqual([{ fingerprint: expect.any(String), paramCount: 0 }]);
+  });
+
+  it("records the mysql_import target table", async () => {
+    const result = await client.callTool({
+      name: "mysql_import",
+      arguments: { database: "dev", table: "orders", path: "orders.csv" },
+    });
+    expect(result.isError).toBe(true);
+    await auditQueue;
+
+    expect(auditLines()).toEqual([
+      expect.objectContaining({ tool: "mysql_import", label: "dev", table: "orders" }),
+    ]);
+  });
+});
+
+// ─── Resources ──────────────────────────────────────────────────
+
+describe("resources", () => {
+  let client: Client;
+
+  // Nothing listens on port 1, so reading a table list fails to connect
+  const connection = (label: string) => ({ label, url: "mysql://u@127.0.0.1:1/app" });
+
+  beforeEach(async () => {
+    writeConfig({ connections: [connection("dev"), connection("my db"), connection("prod")] });
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("offers a table list and a table definition template", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => [t.name, t.uriTemplate])).toEqual([
+      ["tables", "mysql://{label}/tables"],
+      ["table", "mysql://{label}/tables/{table}"],
+    ]);
+  });
+
+  it("lists a table list per connection, with encoded labels", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => [r.uri, r.name])).toEqual([
+      ["mysql://dev/tables", "dev tables"],
+      ["mysql://my%20db/tables", "my db tables"],
+      ["mysql://prod/tables", "prod tables"],
+    ]);
+  });
+
+  it("lists only the connections in the server's scope", async () => {
+    const scoped = await connect(["dev"]);
+    const { resources } = await scoped.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(["mysql://dev/tables"]);
+    await expect(scoped.readResource({ uri: "mysql://prod/tables" })).rejects.toThrow(
+      'Database "prod" not found'
+    );
+    await scoped.close();
+  });
+
+  it("completes labels, and table names only for a reachable connection", async () => {
+    const label = await client.complete({
+      ref: { type: "ref/resource", uri: "mysql://{label}/tables" },
+      argument: { name: "label", value: "d" },
+    });
+    expect(label.completion.values).toEqual(["dev"]);
+
+    const table = (args?: Record<string, string>) =>
+      client.complete({
+        ref: { type: "ref/resource", uri: "mysql://{label}/tables/{table}" },
+        argument: { name: "table", value: "" },
+        context: args && { arguments: args },
+      });
+    expect((await table()).completion.values).toEqual([]);
+    expect((await table({ label: "dev" })).completion.values).toEqual([]);
+  });
+
+  it("notifies clients when a reload adds or removes connections", async () => {
+    const changed = vi.fn();
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, changed);
+    await client.listResources(); // loads the config written above
+
+    // Other settings changing leaves the list alone
+    writeConfig({
+      connections: [{ ...connection("dev"), maxRows: 10 }, connection("my db"), connection("prod")],
+    });
+    await loadFullConfig();
+    writeConfig({ connections: [connection("dev"), connection("staging")] });
+    await loadFullConfig();
+
+    await vi.waitFor(() => expect(changed).toHaveBeenCalled());
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(["mysql://dev/tables", "mysql://staging/tables"]);
+    expect(changed).toHaveBeenCalledTimes(1);
+  });
+});
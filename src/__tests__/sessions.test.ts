@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import type mysql from "mysql2/promise";
+import { dbSessions, discardDbSession, findDbSession, sessionRejection } from "../sessions.js";
+import { classifyStatement } from "../sql.js";
+
+// ─── Sessions ────────────────────────────────────────────────────
+
+describe("sessionRejection", () => {
+  const rejection = (sql: string) => sessionRejection(classifyStatement(sql), sql);
+
+  it("allows DML, session variables and temporary tables", () => {
+    expect(rejection("UPDATE t SET a = 1 WHERE id = 2")).toBeNull();
+    expect(rejection("SET @batch = 5")).toBeNull();
+    expect(rejection("CREATE TEMPORARY TABLE tmp (id INT)")).toBeNull();
+    expect(rejection("DROP TEMPORARY TABLE tmp")).toBeNull();
+  });
+
+  it("rejects statements that would end the transaction", () => {
+    expect(rejection("COMMIT")?.message).toMatch(/mysql_commit/);
+    expect(rejection("START TRANSACTION")?.message).toMatch(/mysql_commit/);
+    expect(rejection("CREATE TABLE t (id INT)")?.message).toMatch(/commit implicitly/);
+    expect(rejection("LOCK TABLES t WRITE")).not.toBeNull();
+  });
+});
+
+describe("findDbSession", () => {
+  type DbSession = Parameters<typeof discardDbSession>[0];
+
+  const open = (id: string, label: string, owner: string | null) => {
+    const connection = { destroy: () => {} } as unknown as mysql.PoolConnection;
+    const session = { id, label, owner, connection } as DbSession;
+    dbSessions.set(id, session);
+    return session;
+  };
+
+  it("only finds a session for the token that opened it", () => {
+    const session = open("s1", "dev", "dev-token");
+    expect(findDbSession("s1", null, "dev-token")).toBe(session);
+    expect(() => findDbSession("s1", null, "admin-token")).toThrow('Unknown session "s1"');
+    expect(() => findDbSession("s1", null, null)).toThrow('Unknown session "s1"');
+    discardDbSession(session);
+  });
+
+  it("hides sessions whose label is outside the scope", () => {
+    const session = open("s2", "prod", null);
+    expect(findDbSession("s2", ["prod"], null)).toBe(session);
+    expect(() => findDbSession("s2", ["dev"], null)).toThrow('Unknown session "s2"');
+    discardDbSession(session);
+  });
+});
+
@@ -1,64 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { isSingleStatement, isDdlStatement, resolveEnvVars } from "../index.js";
-
-// ─── resolveEnvVars ──────────────────────────────────────────────
-
-describe("resolveEnvVars", () => {
-  const ORIG_ENV = { ...process.env };
-
-  beforeEach(() => {
-    process.env.TEST_HOST = "localhost";
-    process.env.TEST_PORT = "3306";
-    process.env.TEST_PASS = "s3cret";
-  });
-
-  afterEach(() => {
-    process.env = { ...ORIG_ENV };
-  });
-
-  it("replaces ${VAR} in a string", () => {
-    expect(resolveEnvVars("host=${TEST_HOST}")).toBe("host=localhost");
-  });
-
-  it("replaces multiple vars in one string", () => {
-    expect(resolveEnvVars("${TEST_HOST}:${TEST_PORT}")).toBe("localhost:3306");
-  });
-
-  it("returns empty string for unset var without default", () => {
-    expect(resolveEnvVars("${NONEXISTENT_VAR_XYZ}")).toBe("");
-  });
-
-  it("uses default value with ${VAR:-default} syntax", () => {
-    expect(resolveEnvVars("${NONEXISTENT_VAR_XYZ:-fallback}")).toBe("fallback");
-  });
-
-  it("prefers env var over default when var is set", () => {
-    expect(resolveEnvVars("${TEST_HOST:-other}")).toBe("localhost");
-  });
-
-  it("processes strings in objects recursively", () => {
-    const input = { host: "${TEST_HOST}", port: 3306, nested: { pass: "${TEST_PASS}" } };
-    const result = resolveEnvVars(input) as Record<string, unknown>;
-    expect(result.host).toBe("localhost");
-    expect(result.port).toBe(3306);
-    expect((result.nested as Record<string, unknown>).pass).toBe("s3cret");
-  });
-
-  it("processes strings in arrays", () => {
-    const input = ["${TEST_HOST}", "${TEST_PORT}"];
-    expect(resolveEnvVars(input)).toEqual(["localhost", "3306"]);
-  });
-
-  it("passes through non-string primitives unchanged", () => {
-    expect(resolveEnvVars(42)).toBe(42);
-    expect(resolveEnvVars(true)).toBe(true);
-    expect(resolveEnvVars(null)).toBe(null);
-  });
-
-  it("handles string with no vars unchanged", () => {
-    expect(resolveEnvVars("plain text")).toBe("plain text");
-  });
-});
+import { describe, it, expect } from "vitest";
+import {
+  tokenizeSql,
+  isSingleStatement,
+  classifyStatement,
+  isDdlStatement,
+} from "../sql.js";
 
 // ─── isSingleStatement (MySQL variant) ──────────────────────────
 
@@ -308,6 +254,20 @@ describe("isSingleStatement", () => {
       expect(isSingleStatement("SELECT /*!50000 SQL_NO_CACHE */ 1; DROP TABLE t")).toBe(false);
     });
   });
+
+  describe("follows MySQL comment rules", () => {
+    it("-- without trailing whitespace is not a comment", () => {
+      expect(isSingleStatement("SELECT 1--1; DROP TABLE t")).toBe(false);
+    });
+
+    it("MariaDB executable comment is parsed", () => {
+      expect(isSingleStatement("SELECT 1 /*M!100101 ; DROP TABLE t */")).toBe(false);
+    });
+
+    it("trailing comment after final semicolon", () => {
+      expect(isSingleStatement("SELECT 1; -- done")).toBe(true);
+    });
+  });
 });
 
 // ─── isDdlStatement ─────────────────────────────────────────────
@@ -361,6 +321,14 @@ describe("isDdlStatement", () => {
     it("with leading hash comment", () => {
       expect(isDdlStatement("# admin\nDROP TABLE users")).toBe(true);
     });
+
+    it("hidden in an executable comment", () => {
+      expect(isDdlStatement("/*!50000 DROP TABLE users */")).toBe(true);
+    });
+
+    it("OPTIMIZE TABLE", () => {
+      expect(isDdlStatement("OPTIMIZE TABLE users")).toBe(true);
+    });
   });
 
   describe("allows non-DDL statements", () => {
@@ -401,3 +369,151 @@ describe("isDdlStatement", () => {
     });
   });
 });
+
+// ─── tokenizeSql ────────────────────────────────────────────────
+
+describe("tokenizeSql", () => {
+  const types = (sql: string) => tokenizeSql(sql).map((t) => `${t.type}:${t.value}`);
+
+  it("splits words, identifiers, strings, params and punctuation", () => {
+    expect(types("SELECT `a``b`, 'x''y' FROM t WHERE id = ?")).toEqual([
+      "word:SELECT",
+      "ident:a`b",
+      "punct:,",
+      "string:x'y",
+      "word:FROM",
+      "word:t",
+      "word:WHERE",
+      "word:id",
+      "punct:=",
+      "param:?",
+    ]);
+  });
+
+  it("drops comments but keeps executable comment content", () => {
+    expect(types("SELECT /* x */ 1 /*!40001 SQL_NO_CACHE */ # tail")).toEqual([
+      "word:SELECT",
+      "number:1",
+      "word:SQL_NO_CACHE",
+    ]);
+  });
+
+  it("reads user and system variables", () => {
+    expect(types("SET @@GLOBAL.max_connections = @x")).toEqual([
+      "word:SET",
+      "variable:@@GLOBAL.max_connections",
+      "punct:=",
+      "variable:@x",
+    ]);
+  });
+
+  it("records source positions", () => {
+    const [, ident] = tokenizeSql("SELECT `col`");
+    expect([ident.start, ident.end]).toEqual([7, 12]);
+  });
+});
+
+// ─── classifyStatement ──────────────────────────────────────────
+
+describe("classifyStatement", () => {
+  const kind = (sql: string) => classifyStatement(sql).kind;
+
+  describe("reads", () => {
+    it.each([
+      ["SELECT * FROM t", "SELECT"],
+      ["  -- c\n(SELECT 1) UNION (SELECT 2)", "SELECT"],
+      ["WITH x AS (SELECT 1) SELECT * FROM x", "SELECT"],
+      ["TABLE users", "SELECT"],
+      ["SELECT 1 INTO @x", "SELECT"],
+      ["SHOW TABLES", "SHOW"],
+      ["DESCRIBE users", "DESCRIBE"],
+      ["DESC users", "DESCRIBE"],
+      ["EXPLAIN SELECT 1", "EXPLAIN"],
+      ["EXPLAIN FORMAT=JSON DELETE FROM t", "EXPLAIN"],
+      ["EXPLAIN ANALYZE SELECT * FROM t", "EXPLAIN"],
+    ])("%s → %s", (sql, expected) => {
+      expect(kind(sql)).toBe(expected);
+      expect(classifyStatement(sql).readOnly).toBe(true);
+    });
+  });
+
+  describe("locking and file-writing SELECTs", () => {
+    it("SELECT ... INTO OUTFILE", () => {
+      const info = classifyStatement("SELECT * FROM t INTO OUTFILE '/tmp/x'");
+      expect(info.kind).toBe("SELECT_INTO_FILE");
+      expect(info.bypassesReadOnly).toBe(true);
+    });
+
+    it("SELECT ... INTO DUMPFILE", () => {
+      expect(kind("SELECT data INTO DUMPFILE '/tmp/x' FROM t")).toBe("SELECT_INTO_FILE");
+    });
+
+    it("SELECT ... FOR UPDATE", () => {
+      const info = classifyStatement("SELECT * FROM t WHERE id = 1 FOR UPDATE");
+      expect(info.kind).toBe("SELECT_FOR_UPDATE");
+      expect(info.readOnly).toBe(false);
+    });
+
+    it("SELECT ... FOR SHARE / LOCK IN SHARE MODE", () => {
+      expect(kind("SELECT * FROM t FOR SHARE")).toBe("SELECT_FOR_SHARE");
+      expect(kind("SELECT * FROM t LOCK IN SHARE MODE")).toBe("SELECT_FOR_SHARE");
+    });
+
+    it("keywords inside strings do not count", () => {
+      expect(kind("SELECT 'INTO OUTFILE', 'FOR UPDATE' FROM t")).toBe("SELECT");
+    });
+  });
+
+  describe("writes and admin statements", () => {
+    it.each([
+      ["WITH old AS (SELECT id FROM t) DELETE FROM t WHERE id IN (SELECT id FROM old)", "DELETE"],
+      ["WITH RECURSIVE a (n) AS (SELECT 1), b AS (SELECT 2) UPDATE t SET x = 1", "UPDATE"],
+      ["INSERT INTO t VALUES (1)", "INSERT"],
+      ["REPLACE INTO t VALUES (1)", "REPLACE"],
+      ["HANDLER t OPEN", "HANDLER"],
+      ["DO SLEEP(10)", "DO"],
+      ["CALL proc()", "CALL"],
+      ["START TRANSACTION", "TRANSACTION"],
+      ["COMMIT", "TRANSACTION"],
+      ["START REPLICA", "START"],
+      ["ANALYZE TABLE t", "ANALYZE"],
+      ["PREPARE s FROM 'DROP TABLE t'", "PREPARE"],
+      ["/*!50000 DROP TABLE t */", "DROP"],
+      ["EXPLAIN ANALYZE DELETE FROM t", "EXPLAIN_ANALYZE"],
+      ["ANALYZE DELETE FROM t", "EXPLAIN_ANALYZE"],
+      ["SET STATEMENT max_statement_time = 1 FOR DELETE FROM t", "DELETE"],
+      ["FOO BAR", "OTHER"],
+      ["", "EMPTY"],
+    ])("%s → %s", (sql, expected) => {
+      expect(kind(sql)).toBe(expected);
+      expect(classifyStatement(sql).readOnly).toBe(false);
+    });
+  });
+
+  describe("SET", () => {
+    it("session variables", () => {
+      const info = classifyStatement("SET @x = 1, SESSION sql_mode = ''");
+      expect(info.kind).toBe("SET");
+      expect(info.bypassesReadOnly).toBe(false);
+    });
+
+    it.each([
+      "SET GLOBAL max_connections = 10",
+      "SET PERSIST max_connections = 10",
+      "SET @@global.max_connections = 10",
+      "SET @x = 1, GLOBAL max_connections = 10",
+    ])("%s → SET_GLOBAL", (sql) => {
+      const info = classifyStatement(sql);
+      expect(info.kind).toBe("SET_GLOBAL");
+      expect(info.bypassesReadOnly).toBe(true);
+    });
+
+    it("SET PASSWORD", () => {
+      expect(kind("SET PASSWORD = 'x'")).toBe("SET_ACCOUNT");
+    });
+  });
+
+  it("classifies only the first statement", () => {
+    expect(kind("SELECT 1; DROP TABLE t")).toBe("SELECT");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { createHmac } from "crypto";
+import { findKnownHostKeys } from "../ssh.js";
+
+// ─── findKnownHostKeys ──────────────────────────────────────────
+
+describe("findKnownHostKeys", () => {
+  const hashed = (name: string) => {
+    const salt = Buffer.from("0123456789abcdefghij");
+    const hash = createHmac("sha1", salt).update(name).digest("base64");
+    return `|1|${salt.toString("base64")}|${hash}`;
+  };
+
+  it("matches a plain host entry on port 22", () => {
+    const kh = "bastion.example.com ssh-ed25519 AAAAKEY1\nother ssh-rsa AAAAKEY2";
+    expect(findKnownHostKeys(kh, "bastion.example.com", 22)).toEqual(["AAAAKEY1"]);
+  });
+
+  it("matches comma-separated host lists", () => {
+    const kh = "bastion,10.0.0.5 ssh-ed25519 AAAAKEY1";
+    expect(findKnownHostKeys(kh, "10.0.0.5", 22)).toEqual(["AAAAKEY1"]);
+  });
+
+  it("requires [host]:port form for non-default ports", () => {
+    const kh = "bastion ssh-ed25519 AAAAKEY1\n[bastion]:2222 ssh-ed25519 AAAAKEY2";
+    expect(findKnownHostKeys(kh, "bastion", 2222)).toEqual(["AAAAKEY2"]);
+  });
+
+  it("matches hashed entries", () => {
+    const kh = `${hashed("bastion")} ssh-ed25519 AAAAKEY1`;
+    expect(findKnownHostKeys(kh, "bastion", 22)).toEqual(["AAAAKEY1"]);
+    expect(findKnownHostKeys(kh, "other", 22)).toEqual([]);
+  });
+
+  it("supports wildcards and negation", () => {
+    const kh = "*.internal,!db.internal ssh-ed25519 AAAAKEY1";
+    expect(findKnownHostKeys(kh, "bastion.internal", 22)).toEqual(["AAAAKEY1"]);
+    expect(findKnownHostKeys(kh, "db.internal", 22)).toEqual([]);
+  });
+
+  it("is case-insensitive for host names", () => {
+    expect(findKnownHostKeys("Bastion ssh-ed25519 AAAAKEY1", "bastion", 22)).toEqual([
+      "AAAAKEY1",
+    ]);
+  });
+
+  it("skips comments and marker lines", () => {
+    const kh = "# comment\n@revoked bastion ssh-ed25519 AAAAKEY1\n\n";
+    expect(findKnownHostKeys(kh, "bastion", 22)).toEqual([]);
+  });
+});
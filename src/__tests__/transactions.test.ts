@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { formatStepOutcomes } from "../transactions.js";
+
+// ─── Transactions ────────────────────────────────────────────────
+
+describe("formatStepOutcomes", () => {
+  it("numbers steps with affected or returned rows", () => {
+    expect(
+      formatStepOutcomes(
+        [
+          { kind: "UPDATE", affectedRows: 2 },
+          { kind: "INSERT", affectedRows: 1, insertId: 57 },
+          { kind: "SELECT_FOR_UPDATE", rowCount: 3 },
+        ],
+        false
+      )
+    ).toBe(
+      "1. UPDATE — 2 row(s) affected\n2. INSERT — 1 row(s) affected, insert id 57\n3. SELECT_FOR_UPDATE — 3 row(s) returned"
+    );
+  });
+
+  it("phrases dry runs conditionally", () => {
+    expect(formatStepOutcomes([{ kind: "DELETE", affectedRows: 4 }], true)).toBe(
+      "1. DELETE — 4 row(s) would be affected"
+    );
+  });
+});
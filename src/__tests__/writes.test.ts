@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { tokenizeSql } from "../sql.js";
+import {
+  issueConfirmation,
+  consumeConfirmation,
+  writeTarget,
+  isTriviallyTrue,
+} from "../writes.js";
+
+describe("write confirmation", () => {
+  it("finds the target table and WHERE clause of single-table writes", () => {
+    expect(
+      writeTarget("UPDATE shop.orders SET status = ? WHERE id IN (?, ?) AND x = 'a;' LIMIT 10", [
+        "paid",
+        1,
+        2,
+      ])
+    ).toEqual({
+      schema: "shop",
+      table: "orders",
+      multiTable: false,
+      where: { sql: "id IN (?, ?) AND x = 'a;'", params: [1, 2] },
+    });
+    expect(writeTarget("DELETE LOW_PRIORITY FROM `t` WHERE a > 1;")).toMatchObject({
+      table: "t",
+      where: { sql: "a > 1", params: [] },
+    });
+    expect(writeTarget("INSERT IGNORE INTO t (a) VALUES (1)")).toEqual({
+      schema: null,
+      table: "t",
+      multiTable: false,
+    });
+    expect(writeTarget("UPDATE t SET a = 1")).toEqual({ schema: null, table: "t", multiTable: false });
+  });
+
+  it("keeps the alias of the target table", () => {
+    expect(writeTarget("UPDATE t a SET a.x = ? WHERE a.id = ?", [1, 2])).toEqual({
+      schema: null,
+      table: "t",
+      alias: "a",
+      multiTable: false,
+      where: { sql: "a.id = ?", params: [2] },
+    });
+    expect(writeTarget("DELETE FROM shop.t AS `o` WHERE o.id = 1")).toMatchObject({
+      schema: "shop",
+      table: "t",
+      alias: "o",
+      where: { sql: "o.id = 1" },
+    });
+    expect(writeTarget("DELETE FROM t PARTITION (p1) WHERE id = 1")?.alias).toBeUndefined();
+    expect(writeTarget("DELETE a FROM a JOIN b ON a.id = b.id")?.alias).toBeUndefined();
+  });
+
+  it("flags multi-table writes and ignores other statements", () => {
+    expect(writeTarget("UPDATE a JOIN b ON a.id = b.id SET a.x = 1 WHERE b.y = 2")?.multiTable).toBe(
+      true
+    );
+    expect(writeTarget("DELETE a FROM a JOIN b ON a.id = b.id")?.multiTable).toBe(true);
+    expect(writeTarget("DELETE FROM a USING a, b WHERE a.id = b.id")?.multiTable).toBe(true);
+    expect(writeTarget("UPDATE t SET a = 1, b = 2 WHERE c = 3")?.multiTable).toBe(false);
+    expect(writeTarget("SELECT 1")).toBeNull();
+  });
+
+  it("reads the WHERE clause of multi-table and CTE-prefixed writes", () => {
+    expect(writeTarget("DELETE FROM a USING a, b WHERE a.id = b.id")?.where?.sql).toBe(
+      "a.id = b.id"
+    );
+    expect(
+      writeTarget("WITH old AS (SELECT id FROM s) DELETE FROM t WHERE id IN (SELECT id FROM old)")
+    ).toMatchObject({ table: "t", where: { sql: "id IN (SELECT id FROM old)" } });
+  });
+
+  it("redeems a token once, only for the same label and fingerprint", () => {
+    const token = issueConfirmation("prod", "abc");
+    expect(token).toMatch(/^[0-9a-f]{12}$/);
+    expect(consumeConfirmation(token, "prod", "other")).toBe(false);
+    expect(consumeConfirmation(token, "stage", "abc")).toBe(false);
+    expect(consumeConfirmation(token, "prod", "abc")).toBe(true);
+    expect(consumeConfirmation(token, "prod", "abc")).toBe(false);
+  });
+
+  it("rejects expired tokens", () => {
+    const token = issueConfirmation("prod", "abc", 0);
+    expect(consumeConfirmation(token, "prod", "abc", 5 * 60_000)).toBe(false);
+  });
+});
+
+// ─── Write Guardrails ────────────────────────────────────────────
+
+describe("isTriviallyTrue", () => {
+  const trivial = (sql: string) => isTriviallyTrue(tokenizeSql(sql));
+
+  it("detects constant and self-comparing conditions", () => {
+    for (const sql of ["1", "TRUE", "1=1", "(1 = 1)", "'a' = 'a'", "id = ID", "2 > 1", "1 <> 0"]) {
+      expect(trivial(sql), sql).toBe(true);
+    }
+    expect(trivial("NOT 0")).toBe(true);
+    expect(trivial("`x` <=> `x`")).toBe(true);
+  });
+
+  it("treats a single always-true OR branch as unbounded", () => {
+    expect(trivial("id = 5 OR 1=1")).toBe(true);
+    expect(trivial("status = 'x' || TRUE")).toBe(true);
+  });
+
+  it("treats an AND of always-true parts as unbounded", () => {
+    for (const sql of ["1 AND 1", "1=1 AND 2=2", "(1 = 1) && TRUE", "(1 AND 1) AND 'a' = 'a'"]) {
+      expect(trivial(sql), sql).toBe(true);
+    }
+  });
+
+  it("sees through IS TRUE and IS NOT FALSE", () => {
+    for (const sql of ["TRUE IS TRUE", "1=1 IS TRUE", "(1 AND 1) IS NOT FALSE"]) {
+      expect(trivial(sql), sql).toBe(true);
+    }
+    expect(trivial("id = 5 IS TRUE")).toBe(false);
+    expect(trivial("FALSE IS TRUE")).toBe(false);
+  });
+
+  it("accepts selective conditions", () => {
+    for (const sql of ["id = 5", "0", "FALSE", "'abc'", "1 = 2", "? = ?", "@a = @a", "a = b"]) {
+      expect(trivial(sql), sql).toBe(false);
+    }
+    expect(trivial("1=1 AND id = 5")).toBe(false);
+    expect(trivial("(id = 5 OR 1=1) AND x = 2")).toBe(false);
+    expect(trivial("id BETWEEN 1 AND 2")).toBe(false);
+  });
+});
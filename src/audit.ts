@@ -0,0 +1,230 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "fs/promises";
+import { dirname } from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { type AuditConfig, type LabelScope, loadFullConfig } from "./config.js";
+import { type QueryParam, queryFingerprint } from "./cursors.js";
+
+// ─── Audit Log ───────────────────────────────────────────────────
+
+interface AuditedStatement {
+  sql?: string;
+  /** queryFingerprint of the SQL alone, so repeated statements group together. */
+  fingerprint?: string;
+  paramCount?: number;
+  params?: QueryParam[];
+}
+
+export interface AuditEntry extends AuditedStatement {
+  ts: string;
+  tool: string;
+  label?: string;
+  /** One entry per mysql_transaction step, in order. */
+  steps?: AuditedStatement[];
+  /** Target table of mysql_import. */
+  table?: string;
+  rowsImported?: number;
+  durationMs: number;
+  rowsReturned?: number;
+  rowsAffected?: number;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface AuditFilter {
+  label?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  /** Case-insensitive substring of the SQL text. */
+  contains?: string;
+  errorsOnly?: boolean;
+  limit: number;
+}
+
+type AuditNote = Pick<
+  AuditEntry,
+  "label" | "table" | "rowsImported" | "rowsReturned" | "rowsAffected" | "cached" | "error"
+> & {
+  /** Statements run by a multi-statement tool; recorded as the entry's `steps`. */
+  statements?: { query: string; params?: QueryParam[] }[];
+};
+
+/** Details a running tool handler adds to its own audit entry. */
+const auditContext = new AsyncLocalStorage<AuditNote>();
+
+/** Appends are chained so rotation never races another write. */
+export let auditQueue: Promise<void> = Promise.resolve();
+
+export function noteAudit(note: AuditNote): void {
+  const current = auditContext.getStore();
+  if (current) Object.assign(current, note);
+}
+
+/** Live log first, then rotations from newest (`.1`) to oldest. */
+function auditFiles(cfg: AuditConfig): string[] {
+  const files = [cfg.path];
+  for (let i = 1; i <= cfg.maxFiles; i++) files.push(`${cfg.path}.${i}`);
+  return files;
+}
+
+async function rotateAuditLog(cfg: AuditConfig): Promise<void> {
+  await rm(`${cfg.path}.${cfg.maxFiles}`, { force: true });
+  for (let i = cfg.maxFiles - 1; i >= 1; i--) {
+    await rename(`${cfg.path}.${i}`, `${cfg.path}.${i + 1}`).catch(() => {});
+  }
+  await rename(cfg.path, `${cfg.path}.1`);
+}
+
+/** Appends one JSONL line, rotating first if it would push the file past maxSizeMb. */
+export function appendAuditEntry(cfg: AuditConfig, entry: AuditEntry): Promise<void> {
+  const line = JSON.stringify(entry) + "\n";
+  auditQueue = auditQueue.then(async () => {
+    try {
+      await mkdir(dirname(cfg.path), { recursive: true });
+      const size = await stat(cfg.path).then(
+        (s) => s.size,
+        () => 0
+      );
+      if (size > 0 && size + Buffer.byteLength(line) > cfg.maxSizeMb * 1024 * 1024) {
+        await rotateAuditLog(cfg);
+      }
+      await appendFile(cfg.path, line, { mode: 0o600 });
+    } catch (e) {
+      console.error(
+        `Audit log write failed (${cfg.path}):`,
+        e instanceof Error ? e.message : e
+      );
+    }
+  });
+  return auditQueue;
+}
+
+function auditEntryMatches(
+  entry: AuditEntry,
+  filter: AuditFilter,
+  scope: LabelScope
+): boolean {
+  if (scope && !(entry.label && scope.includes(entry.label))) return false;
+  if (filter.label && entry.label !== filter.label) return false;
+  if (filter.tool && entry.tool !== filter.tool) return false;
+  if (filter.errorsOnly && !entry.error) return false;
+  // `ts` is when a call started but lines are written when it ends, so a
+  // long call's line follows later-starting ones: check every line
+  if (filter.since && Date.parse(entry.ts) < filter.since.getTime()) return false;
+  if (filter.until && Date.parse(entry.ts) > filter.until.getTime()) return false;
+  if (filter.contains) {
+    const needle = filter.contains.toLowerCase();
+    const sqls = [entry.sql, ...(entry.steps ?? []).map((step) => step.sql)];
+    if (!sqls.some((sql) => sql?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/** Entries matching `filter` across the live log and its rotations, last written first. */
+export async function searchAuditLog(
+  cfg: AuditConfig,
+  filter: AuditFilter,
+  scope: LabelScope = null
+): Promise<AuditEntry[]> {
+  await auditQueue;
+  const matches: AuditEntry[] = [];
+  for (const file of auditFiles(cfg)) {
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf-8");
+    } catch {
+      continue;
+    }
+    const lines = raw.split("\n");
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!lines[i]) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        continue; // torn write
+      }
+      if (!auditEntryMatches(entry, filter, scope)) continue;
+      matches.push(entry);
+      if (matches.length >= filter.limit) return matches;
+    }
+  }
+  return matches;
+}
+
+/** The part of the SDK's per-request context tool handlers use. */
+interface ToolExtra {
+  /** Aborted when the client cancels the request. */
+  signal: AbortSignal;
+}
+
+interface AuditedArgs {
+  database?: string;
+  query?: string;
+  params?: QueryParam[];
+}
+
+/** SQL, fingerprint and parameters of one statement, as the audit config allows. */
+function auditedStatement(
+  audit: AuditConfig,
+  query: string | undefined,
+  params: QueryParam[] | undefined
+): AuditedStatement {
+  return {
+    sql: query !== undefined && audit.logSql ? query : undefined,
+    fingerprint: query !== undefined ? queryFingerprint(query) : undefined,
+    paramCount: query !== undefined ? (params?.length ?? 0) : undefined,
+    params: audit.redactParams ? undefined : params,
+  };
+}
+
+/** Runs `run` and appends an audit entry for it; `failed` flags error results. */
+export async function withAudit<R>(
+  tool: string,
+  args: AuditedArgs,
+  run: () => Promise<R>,
+  failed: (result: R) => boolean
+): Promise<R> {
+  const started = Date.now();
+  const note: AuditNote = {};
+  let result: R | undefined;
+  try {
+    result = await auditContext.run(note, run);
+    return result;
+  } finally {
+    const { audit } = await loadFullConfig();
+    if (audit) {
+      void appendAuditEntry(audit, {
+        ts: new Date(started).toISOString(),
+        tool,
+        label: note.label ?? args.database,
+        ...auditedStatement(audit, args.query, args.params),
+        steps: note.statements?.map((s) => auditedStatement(audit, s.query, s.params)),
+        table: note.table,
+        rowsImported: note.rowsImported,
+        durationMs: Date.now() - started,
+        rowsReturned: note.rowsReturned,
+        rowsAffected: note.rowsAffected,
+        cached: note.cached,
+        error:
+          note.error ??
+          (result === undefined ? "EXCEPTION" : failed(result) ? "REJECTED" : undefined),
+      });
+    }
+  }
+}
+
+/** Wraps a tool handler so every invocation is appended to the audit log. */
+export function audited<A extends object>(
+  tool: string,
+  handler: (args: A, extra: ToolExtra) => Promise<CallToolResult>
+): (args: A, extra: ToolExtra) => Promise<CallToolResult> {
+  return (args, extra) =>
+    withAudit(
+      tool,
+      args as AuditedArgs,
+      () => handler(args, extra),
+      (result) => !!result.isError
+    );
+}
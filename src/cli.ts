@@ -0,0 +1,45 @@
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+
+// ─── CLI args & env ───────────────────────────────────────────────
+
+const HOME = process.env.USERPROFILE || process.env.HOME || "";
+
+function getArg(name: string): string | null {
+  const idx = process.argv.indexOf(name);
+  if (idx === -1) return null;
+  const next = process.argv[idx + 1];
+  if (!next || next.startsWith("--")) return null;
+  return next;
+}
+
+/** Config file extensions, in the order the default location is probed. */
+export const CONFIG_EXTENSIONS = [".json", ".jsonc", ".yaml", ".yml"];
+
+/** ~/.mcp-mysql/config.{json,jsonc,yaml,yml}, whichever exists first */
+function defaultConfigPath(): string {
+  const base = join(HOME, ".mcp-mysql", "config");
+  return CONFIG_EXTENSIONS.map((ext) => base + ext).find((p) => existsSync(p)) ?? `${base}.json`;
+}
+
+/** --config <path>  or  MCP_MYSQL_CONFIG env  or  default */
+export const CONFIG_PATH = resolve(
+  getArg("--config") || process.env.MCP_MYSQL_CONFIG || defaultConfigPath()
+);
+
+/** --no-project-config  — ignore .mcp-mysql.* overlays in the working directory */
+export const PROJECT_CONFIG = !process.argv.includes("--no-project-config");
+
+/** --label <name>  — if set, only this database is visible */
+export const LABEL_FILTER = getArg("--label");
+
+/** --http <port>  — serve MCP over Streamable HTTP instead of stdio */
+export const HTTP_PORT = getArg("--http");
+
+/** --http-host <addr>  — interface to bind in HTTP mode */
+export const HTTP_HOST = getArg("--http-host") || "127.0.0.1";
+
+/** `~` and `~/...` relative to the home directory. */
+export function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? join(HOME, p.slice(1)) : p;
+}
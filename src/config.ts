@@ -0,0 +1,724 @@
+import { z } from "zod";
+import yaml from "js-yaml";
+import { readdir, readFile, stat } from "fs/promises";
+import { existsSync, unwatchFile, watchFile } from "fs";
+import { dirname, join, resolve } from "path";
+import {
+  CONFIG_EXTENSIONS,
+  CONFIG_PATH,
+  PROJECT_CONFIG,
+  LABEL_FILTER,
+  expandHome,
+} from "./cli.js";
+import { SecretsConfigSchema, secretContext, resolveConfigSecrets } from "./secrets.js";
+import { STATEMENT_KINDS } from "./sql.js";
+
+// ─── Zod Schemas ─────────────────────────────────────────────────
+
+const SslConfigSchema = z.union([
+  z.literal(true),
+  z.object({
+    rejectUnauthorized: z.boolean().optional(),
+    ca: z.string().optional(),
+    cert: z.string().optional(),
+    key: z.string().optional(),
+  }),
+]);
+
+const SshHopSchema = z.object({
+  host: z.string().min(1, "SSH host is required"),
+  port: z.coerce.number().int().positive().default(22),
+  user: z.string().min(1, "SSH user is required"),
+  privateKeyPath: z.string().optional(),
+  passphrase: z.string().optional(),
+  password: z.string().optional(),
+});
+
+const SshTunnelSchema = SshHopSchema.extend({
+  jumpHost: SshHopSchema.optional(),
+  knownHostsPath: z.string().default("~/.ssh/known_hosts"),
+  strictHostKeyChecking: z.boolean().default(true),
+});
+
+export type SshHop = z.infer<typeof SshHopSchema>;
+export type SshTunnelConfig = z.infer<typeof SshTunnelSchema>;
+
+/** Output formats supported by mysql_query. */
+export const RESULT_FORMATS = ["json", "compact", "csv", "ndjson", "markdown"] as const;
+
+export type ResultFormat = (typeof RESULT_FORMATS)[number];
+
+const MaskRuleSchema = z.object({
+  column: z.string().min(1, "Mask column pattern is required"),
+  strategy: z.enum(["redact", "hash", "partial"]),
+  keepStart: z.number().int().min(0).default(1),
+  keepEnd: z.number().int().min(0).default(0),
+});
+
+export type MaskRule = z.infer<typeof MaskRuleSchema>;
+
+const AccessPolicySchema = z.object({
+  deniedTables: z.array(z.string()).default([]),
+  deniedColumns: z.array(z.string()).default([]),
+  masks: z.array(MaskRuleSchema).default([]),
+});
+
+export type AccessPolicy = z.infer<typeof AccessPolicySchema>;
+
+const GuardrailsSchema = z.object({
+  requireWhere: z.boolean().default(true),
+  maxAffectedRows: z.coerce.number().int().positive().optional(),
+});
+
+const ResultCacheSchema = z.object({
+  ttlSeconds: z.coerce.number().positive().default(60),
+  maxMb: z.coerce.number().positive().default(16),
+});
+
+const AllowedStatementsSchema = z.array(
+  z
+    .string()
+    .toUpperCase()
+    .refine((k) => (STATEMENT_KINDS as readonly string[]).includes(k), {
+      message: "Unknown statement kind (see README for the list)",
+    })
+);
+
+const DbConnectionSchema = z
+  .object({
+    label: z.string().min(1, "Label is required"),
+    host: z.string().optional(),
+    port: z.coerce.number().int().positive().default(3306),
+    user: z.string().optional(),
+    password: z.string().default(""),
+    database: z.string().optional(),
+    url: z.string().optional(),
+    enabled: z.boolean().default(true),
+    ssl: SslConfigSchema.optional(),
+    ssh: SshTunnelSchema.optional(),
+    readOnly: z.boolean().default(true),
+    poolSize: z.coerce.number().int().min(1).max(100).default(5),
+    connectTimeoutMs: z.coerce.number().int().positive().default(10_000),
+    queryTimeoutMs: z.coerce.number().int().positive().default(30_000),
+    maxConcurrentQueries: z.coerce.number().int().positive().optional(),
+    defaultFormat: z.enum(RESULT_FORMATS).default("json"),
+    maxRows: z.coerce.number().int().positive().default(1000),
+    allowedStatements: AllowedStatementsSchema.optional(),
+    policy: AccessPolicySchema.optional(),
+    cache: ResultCacheSchema.optional(),
+    confirmWrites: z.boolean().default(false),
+    guardrails: GuardrailsSchema.default({}),
+    maxSessions: z.coerce.number().int().nonnegative().default(2),
+    sessionIdleTimeoutMs: z.coerce.number().int().positive().default(300_000),
+  })
+  .refine((c) => c.url || (c.host && c.user && c.database), {
+    message: "Provide either 'url' or 'host' + 'user' + 'database'",
+  });
+
+export type DbConnection = z.infer<typeof DbConnectionSchema>;
+
+const HttpTokenSchema = z.object({
+  name: z.string().min(1, "Token name is required"),
+  token: z.string().min(16, "HTTP tokens must be at least 16 characters"),
+  labels: z.array(z.string()).optional(),
+});
+
+export type HttpToken = z.infer<typeof HttpTokenSchema>;
+
+const AuditConfigSchema = z.object({
+  path: z.string().min(1, "Audit log path is required"),
+  maxSizeMb: z.coerce.number().positive().default(10),
+  maxFiles: z.coerce.number().int().min(1).default(5),
+  logSql: z.boolean().default(true),
+  redactParams: z.boolean().default(true),
+});
+
+export type AuditConfig = z.infer<typeof AuditConfigSchema>;
+
+const ExportConfigSchema = z.object({
+  dir: z.string().min(1, "Export directory is required"),
+  maxMb: z.coerce.number().positive().default(1024),
+  /** Limit for a whole export, instead of the connection's queryTimeoutMs; 0 = none. */
+  timeoutMs: z.coerce.number().int().nonnegative().default(600_000),
+});
+
+type ExportConfig = z.infer<typeof ExportConfigSchema>;
+
+const ImportConfigSchema = z.object({
+  dir: z.string().min(1, "Import directory is required"),
+  maxMb: z.coerce.number().positive().default(100),
+  /** Limit for a whole import, instead of the connection's queryTimeoutMs; 0 = none. */
+  timeoutMs: z.coerce.number().int().nonnegative().default(600_000),
+});
+
+type ImportConfig = z.infer<typeof ImportConfigSchema>;
+
+const PromptArgumentSchema = z.object({
+  name: z.string().regex(/^\w+$/, "Prompt argument names may only contain letters, digits and _"),
+  description: z.string().optional(),
+  required: z.boolean().default(true),
+});
+
+const CustomPromptSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, "Prompt names may only contain letters, digits, _ and -"),
+  description: z.string().optional(),
+  arguments: z.array(PromptArgumentSchema).default([]),
+  /** Message text; `{{argument}}` placeholders are replaced with argument values. */
+  template: z.string().min(1, "Prompt template is required"),
+});
+
+export type CustomPrompt = z.infer<typeof CustomPromptSchema>;
+
+const DbConfigSchema = z.object({
+  connections: z.union([
+    z.array(DbConnectionSchema),
+    z.record(z.string(), DbConnectionSchema),
+  ]),
+  http: z
+    .object({
+      tokens: z.array(HttpTokenSchema).default([]),
+      sessionIdleTimeoutMs: z.coerce.number().int().positive().default(1_800_000),
+    })
+    .default({}),
+  audit: AuditConfigSchema.optional(),
+  exports: ExportConfigSchema.optional(),
+  imports: ImportConfigSchema.optional(),
+  envFile: z.string().optional(),
+  secrets: SecretsConfigSchema.default({}),
+  prompts: z.array(CustomPromptSchema).default([]),
+});
+
+/**
+ * Connection settings a project overlay may set. Apart from `enabled`, each
+ * one can only make a connection stricter; see applyProjectOverlay.
+ */
+const OverlayOnlyTrue = z.literal(true, {
+  errorMap: () => ({ message: "A project overlay can only set this to true" }),
+});
+
+const OverlayConnectionSchema = z
+  .object({
+    label: z.string(),
+    enabled: z.boolean().optional(),
+    readOnly: OverlayOnlyTrue.optional(),
+    confirmWrites: OverlayOnlyTrue.optional(),
+    maxRows: z.number().int().positive().optional(),
+    queryTimeoutMs: z.number().int().positive().optional(),
+    maxConcurrentQueries: z.number().int().positive().optional(),
+    maxSessions: z.number().int().nonnegative().optional(),
+    defaultFormat: z.enum(RESULT_FORMATS).optional(),
+    allowedStatements: AllowedStatementsSchema.optional(),
+    guardrails: z
+      .object({
+        requireWhere: OverlayOnlyTrue.optional(),
+        maxAffectedRows: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    policy: AccessPolicySchema.strict().optional(),
+  })
+  .strict();
+
+const ProjectOverlaySchema = z
+  .object({
+    // Keyed by label or a list, like the main config
+    connections: z
+      .preprocess((c) => (isPlainObject(c) ? Object.values(c) : c), z.array(OverlayConnectionSchema))
+      .default([]),
+    prompts: z.array(CustomPromptSchema).default([]),
+  })
+  .strict();
+
+type ProjectOverlay = z.infer<typeof ProjectOverlaySchema>;
+
+/** Connection labels a client may see; null means every configured label. */
+export type LabelScope = readonly string[] | null;
+
+// ─── Config Files ────────────────────────────────────────────────
+
+/**
+ * Blanks out `//` and `/* *\/` comments and trailing commas so JSONC parses
+ * as JSON. Line and column positions are kept for JSON.parse errors.
+ */
+export function stripJsonComments(text: string): string {
+  let out = "";
+  let inString = false;
+  let trailingComma = -1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === "\\") out += text[++i] ?? "";
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        out += " ";
+        i++;
+      }
+      out += text[i] ?? "";
+      continue;
+    }
+    if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) throw new Error("Unterminated /* comment");
+      out += text.slice(i, end + 2).replace(/[^\n]/g, " ");
+      i = end + 1;
+      continue;
+    }
+    if ((ch === "}" || ch === "]") && trailingComma !== -1) {
+      out = `${out.slice(0, trailingComma)} ${out.slice(trailingComma + 1)}`;
+    }
+    if (ch === ",") trailingComma = out.length;
+    else if (!/\s/.test(ch)) trailingComma = -1;
+    if (ch === '"') inString = true;
+    out += ch;
+  }
+  return out;
+}
+
+/** Parses a config file by extension: YAML for .yaml/.yml, JSON with comments otherwise. */
+export function parseConfigText(text: string, path: string): Record<string, unknown> {
+  let doc: unknown;
+  try {
+    doc = /\.ya?ml$/i.test(path)
+      ? yaml.load(text, { schema: yaml.CORE_SCHEMA, filename: path })
+      : JSON.parse(stripJsonComments(text));
+  } catch (e) {
+    throw new Error(`${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  // An empty YAML file is an empty fragment
+  if (doc === undefined || doc === null) return {};
+  if (typeof doc !== "object" || Array.isArray(doc)) {
+    throw new Error(`${path}: config must be an object`);
+  }
+  return doc as Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function deepMerge(base: unknown, over: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(over)) return over;
+  const out: Record<string, unknown> = { ...base };
+  for (const [k, v] of Object.entries(over)) out[k] = k in out ? deepMerge(out[k], v) : v;
+  return out;
+}
+
+/** Connection entries, whether listed as an array or keyed by name. */
+function connectionEntries(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return isPlainObject(value) ? Object.values(value) : [];
+}
+
+/** Merges `over` into `list`, matching entries on `key`; unmatched entries are appended. */
+function mergeByKey(list: unknown[], over: unknown[], key: string): unknown[] {
+  const out = [...list];
+  for (const entry of over) {
+    const id = isPlainObject(entry) ? entry[key] : undefined;
+    const at = id === undefined ? -1 : out.findIndex((e) => isPlainObject(e) && e[key] === id);
+    if (at === -1) out.push(entry);
+    else out[at] = deepMerge(out[at], entry);
+  }
+  return out;
+}
+
+/**
+ * Layers config fragment `over` onto `base`. Connections merge by label
+ * and prompts by name, field by field; other objects merge recursively and
+ * other values (arrays included) are replaced.
+ */
+export function mergeConfigs(
+  base: Record<string, unknown>,
+  over: Record<string, unknown>
+): Record<string, unknown> {
+  const out = deepMerge(base, over) as Record<string, unknown>;
+  if ("connections" in over && "connections" in base) {
+    out.connections = mergeByKey(
+      connectionEntries(base.connections),
+      connectionEntries(over.connections),
+      "label"
+    );
+  }
+  if (Array.isArray(base.prompts) && Array.isArray(over.prompts)) {
+    out.prompts = mergeByKey(base.prompts, over.prompts, "name");
+  }
+  return out;
+}
+
+/**
+ * Reads a config file and, after its own settings, everything it includes:
+ * `include` entries (files, or directories whose config files are read in
+ * name order) relative to the file. Every path read is added to `files`.
+ * An include that is missing, broken or part of a cycle (`stack` holds the
+ * files currently being read) is skipped with a warning.
+ */
+export async function readConfigTree(
+  path: string,
+  files: Set<string>,
+  extraIncludes: string[] = [],
+  stack: string[] = []
+): Promise<Record<string, unknown>> {
+  if (stack.includes(path)) throw new Error(`include cycle: ${[...stack, path].join(" -> ")}`);
+  files.add(path);
+  const { include, ...own } = parseConfigText(await readFile(path, "utf-8"), path);
+  if (include !== undefined && !(Array.isArray(include) && include.every((i) => typeof i === "string"))) {
+    throw new Error(`${path}: include must be a list of paths`);
+  }
+  const includes = ((include as string[] | undefined) ?? []).map((i) =>
+    resolve(dirname(path), expandHome(i))
+  );
+  let doc = own;
+  for (const target of [...includes, ...extraIncludes.filter((i) => !includes.includes(i))]) {
+    // A broken include costs only its own settings; the file is still watched
+    try {
+      files.add(target);
+      let paths = [target];
+      if ((await stat(target)).isDirectory()) {
+        const names = (await readdir(target)).filter((n) =>
+          CONFIG_EXTENSIONS.some((ext) => n.toLowerCase().endsWith(ext))
+        );
+        paths = names.sort().map((n) => join(target, n));
+      }
+      for (const p of paths) {
+        try {
+          doc = mergeConfigs(doc, await readConfigTree(p, files, [], [...stack, path]));
+        } catch (e) {
+          console.error(`Warning: ${p} (included from ${path}) skipped — ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+    } catch (e) {
+      console.error(`Warning: include ${target} (from ${path}) skipped — ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return doc;
+}
+
+/** Overlay file names, looked for from the working directory upwards. */
+const PROJECT_CONFIG_NAMES = CONFIG_EXTENSIONS.map((ext) => `.mcp-mysql${ext}`);
+
+/**
+ * Nearest project overlay at or above `from`, plus every path checked on
+ * the way so that creating a nearer overlay is noticed.
+ */
+function findProjectOverlay(from: string): { path: string | null; candidates: string[] } {
+  const candidates: string[] = [];
+  for (let dir = resolve(from); ; dir = dirname(dir)) {
+    for (const name of PROJECT_CONFIG_NAMES) {
+      const path = join(dir, name);
+      candidates.push(path);
+      if (existsSync(path)) return { path, candidates };
+    }
+    if (dirname(dir) === dir) return { path: null, candidates };
+  }
+}
+
+/**
+ * Validates a project overlay. Overlays come from whatever directory the
+ * server starts in, so they may only adjust connections the main config
+ * defines (and prompts), using the settings in OverlayConnectionSchema.
+ */
+export function parseProjectOverlay(doc: Record<string, unknown>, labels: string[]): ProjectOverlay {
+  const result = ProjectOverlaySchema.safeParse(doc);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${issue.path.join(".") || "overlay"}: ${issue.message}`);
+  }
+  for (const { label } of result.data.connections) {
+    if (!labels.includes(label)) {
+      throw new Error(`connection ${JSON.stringify(label)} is not defined in the main config`);
+    }
+  }
+  return result.data;
+}
+
+/**
+ * Applies an overlay to parsed connections. Limits can only be lowered,
+ * flags only turned on, `allowedStatements` only narrowed and policy rules
+ * only added; `enabled` and `defaultFormat` are taken as given.
+ */
+export function applyProjectOverlay(
+  connections: DbConnection[],
+  overlay: ProjectOverlay
+): DbConnection[] {
+  const overrides = new Map(overlay.connections.map((o) => [o.label, o]));
+  const lower = <T extends number | undefined>(base: T, value: number | undefined): T =>
+    (value === undefined ? base : base === undefined ? value : Math.min(base, value)) as T;
+
+  return connections.map((c) => {
+    const o = overrides.get(c.label);
+    if (!o) return c;
+    const allowed = o.allowedStatements;
+    return {
+      ...c,
+      enabled: o.enabled ?? c.enabled,
+      readOnly: c.readOnly || o.readOnly === true,
+      confirmWrites: c.confirmWrites || o.confirmWrites === true,
+      maxRows: lower(c.maxRows, o.maxRows),
+      queryTimeoutMs: lower(c.queryTimeoutMs, o.queryTimeoutMs),
+      maxConcurrentQueries: lower(c.maxConcurrentQueries, o.maxConcurrentQueries),
+      maxSessions: lower(c.maxSessions, o.maxSessions),
+      defaultFormat: o.defaultFormat ?? c.defaultFormat,
+      allowedStatements:
+        allowed && c.allowedStatements
+          ? c.allowedStatements.filter((k) => allowed.includes(k))
+          : (allowed ?? c.allowedStatements),
+      guardrails: {
+        requireWhere: c.guardrails.requireWhere || o.guardrails?.requireWhere === true,
+        maxAffectedRows: lower(c.guardrails.maxAffectedRows, o.guardrails?.maxAffectedRows),
+      },
+      policy: o.policy
+        ? {
+            deniedTables: [...(c.policy?.deniedTables ?? []), ...o.policy.deniedTables],
+            deniedColumns: [...(c.policy?.deniedColumns ?? []), ...o.policy.deniedColumns],
+            masks: [...(c.policy?.masks ?? []), ...o.policy.masks],
+          }
+        : c.policy,
+    };
+  });
+}
+
+// ─── Config Caching ──────────────────────────────────────────────
+
+/** Parsed config with duplicates, disabled entries and --label already applied. */
+interface LoadedConfig {
+  connections: DbConnection[];
+  httpTokens: HttpToken[];
+  httpSessionIdleTimeoutMs: number;
+  audit: AuditConfig | null;
+  exports: ExportConfig | null;
+  imports: ImportConfig | null;
+  prompts: CustomPrompt[];
+  /** Connections left out because their secrets didn't resolve, label → reason. */
+  unavailable: Map<string, string>;
+}
+
+interface ConfigCache extends LoadedConfig {
+  /** mtime of every contributing file and directory; -1 for paths that didn't exist. */
+  files: Map<string, number>;
+  loadedAt: number;
+}
+
+const CONFIG_CACHE_TTL = 5_000; // 5 seconds
+export let configCache: ConfigCache | null = null;
+
+async function fileMtimes(paths: Iterable<string>): Promise<Map<string, number>> {
+  const mtimes = new Map<string, number>();
+  for (const p of paths) {
+    mtimes.set(p, await stat(p).then((s) => s.mtimeMs, () => -1));
+  }
+  return mtimes;
+}
+
+const watchedConfigFiles = new Set<string>();
+
+/** Reload promptly when any of `paths` changes, so list-change notifications go out. */
+export function watchConfigFiles(paths: Iterable<string>): void {
+  const wanted = new Set(paths);
+  for (const p of watchedConfigFiles) {
+    if (!wanted.has(p) && p !== CONFIG_PATH) {
+      unwatchFile(p);
+      watchedConfigFiles.delete(p);
+    }
+  }
+  for (const p of wanted) {
+    if (watchedConfigFiles.has(p)) continue;
+    watchedConfigFiles.add(p);
+    watchFile(p, { interval: CONFIG_CACHE_TTL }, () => {
+      if (configCache) configCache.loadedAt = 0;
+      void loadFullConfig();
+    }).unref();
+  }
+}
+
+// ─── Config Loading ──────────────────────────────────────────────
+
+/** Told about every (re)load; `previous` is null the first time. */
+type ConfigListener = (config: LoadedConfig, previous: LoadedConfig | null) => void;
+
+const configListeners: ConfigListener[] = [];
+
+/** Runs `listener` after each config load, e.g. to drop state of removed connections. */
+export function onConfigLoad(listener: ConfigListener): void {
+  configListeners.push(listener);
+}
+
+export async function loadFullConfig(): Promise<LoadedConfig> {
+  try {
+    // Check cache: reuse if TTL not expired and no file changed
+    if (configCache) {
+      const elapsed = Date.now() - configCache.loadedAt;
+      if (elapsed < CONFIG_CACHE_TTL) return configCache;
+
+      // TTL expired — check mtimes
+      const current = await fileMtimes(configCache.files.keys());
+      if ([...current].every(([p, mtime]) => configCache?.files.get(p) === mtime)) {
+        configCache.loadedAt = Date.now(); // refresh TTL
+        return configCache;
+      }
+    }
+
+    // Main file, its includes and conf.d/ beside it, then the project overlay
+    const files = new Set<string>();
+    const confD = join(dirname(CONFIG_PATH), "conf.d");
+    files.add(confD);
+    let json = await readConfigTree(CONFIG_PATH, files, existsSync(confD) ? [confD] : []);
+    let projectOverlay: ProjectOverlay | null = null;
+    if (PROJECT_CONFIG) {
+      const overlay = findProjectOverlay(process.cwd());
+      const seen = new Set(files);
+      for (const p of overlay.candidates) files.add(p);
+      if (overlay.path && !seen.has(overlay.path)) {
+        const labels = connectionEntries(json.connections).map((c) =>
+          isPlainObject(c) ? c.label : undefined
+        );
+        try {
+          const doc = parseConfigText(await readFile(overlay.path, "utf-8"), overlay.path);
+          projectOverlay = parseProjectOverlay(doc, labels.filter((l) => typeof l === "string"));
+          // `enabled` decides whether a connection's secrets get resolved, so it goes in first
+          const toggles = projectOverlay.connections
+            .filter((o) => o.enabled !== undefined)
+            .map(({ label, enabled }) => ({ label, enabled }));
+          json = mergeConfigs(json, { connections: toggles });
+        } catch (e) {
+          const reason = e instanceof Error ? e.message : String(e);
+          console.error(`Warning: project config ${overlay.path} ignored — ${reason}`);
+        }
+      }
+    }
+
+    const ctx = await secretContext(json, dirname(CONFIG_PATH));
+    if (ctx.envFile) files.add(ctx.envFile);
+    const { config, failures } = await resolveConfigSecrets(json, ctx);
+    const parsed = DbConfigSchema.parse(config);
+    for (const [label, reason] of failures) {
+      console.error(`Warning: connection "${label}" skipped — ${reason}`);
+    }
+
+    let connections: DbConnection[];
+    if (Array.isArray(parsed.connections)) {
+      connections = parsed.connections;
+    } else {
+      connections = Object.values(parsed.connections);
+    }
+
+    // Detect duplicate labels
+    const seen = new Set<string>();
+    for (const c of connections) {
+      if (seen.has(c.label)) {
+        console.error(
+          `Warning: duplicate label "${c.label}" in config — using first occurrence`
+        );
+      }
+      seen.add(c.label);
+    }
+
+    // Deduplicate (keep first)
+    connections = connections.filter(
+      (c, i, arr) => arr.findIndex((x) => x.label === c.label) === i
+    );
+
+    if (projectOverlay) connections = applyProjectOverlay(connections, projectOverlay);
+
+    connections = connections.filter((c) => c.enabled !== false);
+
+    if (LABEL_FILTER) {
+      connections = connections.filter((c) => c.label === LABEL_FILTER);
+    }
+
+    // Overlay prompts are merged after secrets are resolved, so an untrusted
+    // checkout can't use `${cmd:...}` or `${file:...}` in them
+    const prompts = projectOverlay
+      ? (mergeByKey(parsed.prompts, projectOverlay.prompts, "name") as CustomPrompt[])
+      : parsed.prompts;
+
+    const previous = configCache;
+
+    const httpTokens = parsed.http.tokens;
+    // Relative audit, export and import paths are relative to the config file
+    const audit = parsed.audit
+      ? {
+          ...parsed.audit,
+          path: resolve(dirname(CONFIG_PATH), expandHome(parsed.audit.path)),
+        }
+      : null;
+    const exports = parsed.exports
+      ? {
+          ...parsed.exports,
+          dir: resolve(dirname(CONFIG_PATH), expandHome(parsed.exports.dir)),
+        }
+      : null;
+    const imports = parsed.imports
+      ? {
+          ...parsed.imports,
+          dir: resolve(dirname(CONFIG_PATH), expandHome(parsed.imports.dir)),
+        }
+      : null;
+
+    // Update cache
+    const loaded = {
+      connections,
+      httpTokens,
+      httpSessionIdleTimeoutMs: parsed.http.sessionIdleTimeoutMs,
+      audit,
+      exports,
+      imports,
+      prompts,
+      unavailable: failures,
+    };
+    configCache = { ...loaded, files: await fileMtimes(files), loadedAt: Date.now() };
+    watchConfigFiles(files);
+    for (const listener of configListeners) listener(configCache, previous);
+
+    return configCache;
+  } catch (e) {
+    if (!existsSync(CONFIG_PATH)) {
+      console.error(`Config not found: ${CONFIG_PATH}`);
+      console.error(
+        "Create it with your database connections. See README for format."
+      );
+    } else if (e instanceof z.ZodError) {
+      console.error(`Invalid config (${CONFIG_PATH}):`);
+      for (const issue of e.issues) {
+        console.error(`  ${issue.path.join(".")}: ${issue.message}`);
+      }
+    } else {
+      console.error(`Failed to read config: ${CONFIG_PATH}`, e);
+    }
+    return {
+      connections: [],
+      httpTokens: [],
+      httpSessionIdleTimeoutMs: 1_800_000,
+      audit: null,
+      exports: null,
+      imports: null,
+      prompts: [],
+      unavailable: new Map(),
+    };
+  }
+}
+
+/** Connections visible within `scope` (null = every configured connection). */
+export async function loadConfig(scope: LabelScope = null): Promise<DbConnection[]> {
+  const { connections } = await loadFullConfig();
+  return scope ? connections.filter((c) => scope.includes(c.label)) : connections;
+}
+
+export async function getConnection(
+  label: string,
+  scope: LabelScope = null
+): Promise<DbConnection> {
+  const connections = await loadConfig(scope);
+  const conn = connections.find((c) => c.label === label);
+  if (!conn) {
+    const reason = (await loadFullConfig()).unavailable.get(label);
+    if (reason && (!scope || scope.includes(label))) {
+      throw new Error(`Database "${label}" is unavailable: ${reason}`);
+    }
+    const available = connections.map((c) => c.label).join(", ") || "(none)";
+    throw new Error(`Database "${label}" not found. Available: ${available}`);
+  }
+  return conn;
+}
@@ -0,0 +1,150 @@
+import mysql from "mysql2/promise";
+import type { Connection as CoreConnection } from "mysql2";
+import { createHash } from "crypto";
+import { tokenizeSql, isWord, isPunct, type StatementInfo } from "./sql.js";
+
+// ─── Row Streaming & Cursors ─────────────────────────────────────
+
+export type QueryParam = string | number | boolean | null;
+
+export interface StreamedResult {
+  columns: string[];
+  fields: mysql.FieldPacket[];
+  rows: Record<string, unknown>[];
+  /** OK packet for statements without a result set (INSERT, UPDATE, ...). */
+  header?: mysql.ResultSetHeader;
+  /** More rows were available; unless kept, the connection was destroyed to stop them. */
+  hasMore: boolean;
+  /** Rows in the whole result, known only when it was read to the end. */
+  total?: number;
+}
+
+/**
+ * Executes a statement and streams its rows, skipping the first `offset` rows
+ * and keeping at most `max`. Once a row past the page arrives the connection
+ * is destroyed, so the server stops sending the rest instead of mysql2
+ * buffering the whole result — callers must not reuse the connection then.
+ * With `keepConnection` (pinned session connections) the rest is read and
+ * discarded instead. Only the first result set is collected.
+ */
+export function streamRows(
+  connection: mysql.PoolConnection,
+  sql: string,
+  params: QueryParam[] | undefined,
+  offset: number,
+  max: number,
+  keepConnection = false
+): Promise<StreamedResult> {
+  // The promise typings describe `.connection` as a promise connection, but
+  // it is the callback-style core connection that exposes row events.
+  const core = (connection as unknown as { connection: CoreConnection }).connection;
+
+  return new Promise((resolveRows, reject) => {
+    const columns: string[] = [];
+    const fieldList: mysql.FieldPacket[] = [];
+    const rows: Record<string, unknown>[] = [];
+    let header: mysql.ResultSetHeader | undefined;
+    let resultIndex = -1;
+    let seen = 0;
+    let more = false;
+    let settled = false;
+
+    const cmd = core.execute(sql, params ?? []);
+    cmd.on("fields", (fields: mysql.FieldPacket[] | undefined, index = 0) => {
+      if (!fields || resultIndex !== -1) return;
+      resultIndex = index;
+      fieldList.push(...fields);
+      columns.push(...fields.map((f) => f.name));
+    });
+    cmd.on("result", (row: Record<string, unknown>, index = 0) => {
+      if (settled) return;
+      if (index !== resultIndex) {
+        header ??= row as unknown as mysql.ResultSetHeader;
+        return;
+      }
+      if (seen++ < offset) return;
+      if (rows.length < max) {
+        rows.push(row);
+        return;
+      }
+      if (keepConnection) {
+        more = true;
+        return;
+      }
+      settled = true;
+      connection.destroy();
+      resolveRows({ columns, fields: fieldList, rows, hasMore: true });
+    });
+    cmd.on("error", (e: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(e);
+    });
+    cmd.on("end", () => {
+      if (settled) return;
+      settled = true;
+      resolveRows({ columns, fields: fieldList, rows, header, hasMore: more, total: seen });
+    });
+  });
+}
+
+interface CursorState {
+  label: string;
+  /** Fingerprint of the query + params the cursor belongs to. */
+  hash: string;
+  offset: number;
+}
+
+export function queryFingerprint(sql: string, params?: QueryParam[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify([sql, params ?? []]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(
+    JSON.stringify({ l: state.label, h: state.hash, o: state.offset })
+  ).toString("base64url");
+}
+
+/**
+ * Why a capped result can't be continued with a cursor, or null. A cursor
+ * re-runs the statement and skips the rows already returned, so it must be
+ * a pure read (re-running a CALL would repeat its writes), and a SELECT
+ * needs an outermost ORDER BY for consecutive pages to line up.
+ */
+export function cursorRejection(statement: StatementInfo, sql: string): string | null {
+  if (!statement.readOnly) {
+    return `${statement.kind} results can't be paged because the statement would run again; narrow it instead.`;
+  }
+  if (statement.kind !== "SELECT") return null;
+  const tokens = tokenizeSql(sql);
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (isPunct(tokens[i], "(")) depth++;
+    else if (isPunct(tokens[i], ")")) depth--;
+    else if (depth === 0 && isWord(tokens[i], "ORDER") && isWord(tokens[i + 1], "BY")) {
+      return null;
+    }
+  }
+  return "add an ORDER BY on a unique key to page through this result; without one the row order can change between pages.";
+}
+
+/** Returns null for anything that is not a cursor produced by encodeCursor. */
+export function decodeCursor(cursor: string): CursorState | null {
+  try {
+    const raw = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (
+      typeof raw?.l !== "string" ||
+      typeof raw.h !== "string" ||
+      !Number.isInteger(raw.o) ||
+      raw.o < 0
+    ) {
+      return null;
+    }
+    return { label: raw.l, hash: raw.h, offset: raw.o };
+  } catch {
+    return null;
+  }
+}
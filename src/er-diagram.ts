@@ -0,0 +1,198 @@
+import type { TableSchema } from "./introspection.js";
+
+// ─── ER Diagrams ─────────────────────────────────────────────────
+
+export type DiagramFormat = "mermaid" | "plantuml" | "dot";
+
+interface Relationship {
+  name: string;
+  parent: string;
+  child: string;
+  /** A unique index covers the FK columns: one-to-one instead of one-to-many. */
+  childUnique: boolean;
+  /** All FK columns are NOT NULL: every child row has a parent. */
+  required: boolean;
+}
+
+/** FK edges between tables of the snapshot; references to other schemas are dropped. */
+function relationships(schemas: TableSchema[], dbName: string): Relationship[] {
+  const present = new Set(schemas.map((t) => t.name));
+  const result: Relationship[] = [];
+  for (const table of schemas) {
+    for (const fk of table.foreignKeys) {
+      if (fk.refSchema !== dbName || !present.has(fk.refTable)) continue;
+      result.push({
+        name: fk.name,
+        parent: fk.refTable,
+        child: table.name,
+        childUnique: table.indexes.some(
+          (idx) => idx.unique && idx.columns.every((c) => fk.columns.includes(c))
+        ),
+        required: fk.columns.every(
+          (c) => table.columns.find((col) => col.name === c)?.nullable === false
+        ),
+      });
+    }
+  }
+  return result;
+}
+
+/** Names of the tables within `hops` foreign-key steps of `root`, in either direction. */
+export function tablesWithinHops(
+  schemas: TableSchema[],
+  dbName: string,
+  root: string,
+  hops: number
+): Set<string> {
+  const neighbours = new Map<string, Set<string>>();
+  for (const rel of relationships(schemas, dbName)) {
+    for (const [a, b] of [
+      [rel.parent, rel.child],
+      [rel.child, rel.parent],
+    ]) {
+      const set = neighbours.get(a) ?? new Set<string>();
+      set.add(b);
+      neighbours.set(a, set);
+    }
+  }
+  const seen = new Set([root]);
+  let frontier = [root];
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const n of neighbours.get(table) ?? []) {
+        if (!seen.has(n)) {
+          seen.add(n);
+          next.push(n);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return seen;
+}
+
+function keyMarkers(table: TableSchema, column: string): string[] {
+  const markers: string[] = [];
+  const primary = table.indexes.find((idx) => idx.name === "PRIMARY");
+  if (primary?.columns.includes(column)) markers.push("PK");
+  if (table.foreignKeys.some((fk) => fk.columns.includes(column))) markers.push("FK");
+  if (
+    !markers.includes("PK") &&
+    table.indexes.some(
+      (idx) =>
+        idx.unique &&
+        idx.name !== "PRIMARY" &&
+        idx.columns.length === 1 &&
+        idx.columns[0] === column
+    )
+  ) {
+    markers.push("UK");
+  }
+  return markers;
+}
+
+/** Mermaid and PlantUML only accept word characters in names and attribute types. */
+function diagramName(name: string): string {
+  return name.replace(/[^\w-]/g, "_");
+}
+
+function diagramType(type: string): string {
+  return type
+    .replace(/^(enum|set)\(.*\)/is, "$1")
+    .replace(/,/g, "-")
+    .replace(/\s+/g, "_")
+    .replace(/[^\w()-]/g, "");
+}
+
+/** Crow's-foot edge shared by Mermaid and PlantUML, e.g. `users ||--o{ orders`. */
+function crowsFoot(rel: Relationship): string {
+  const parentSide = rel.required ? "||" : "|o";
+  const childSide = rel.childUnique ? "o|" : "o{";
+  return `${diagramName(rel.parent)} ${parentSide}--${childSide} ${diagramName(rel.child)}`;
+}
+
+function renderMermaid(schemas: TableSchema[], rels: Relationship[]): string {
+  const lines = ["erDiagram"];
+  for (const rel of rels) lines.push(`    ${crowsFoot(rel)} : "${rel.name}"`);
+  for (const table of schemas) {
+    lines.push(`    ${diagramName(table.name)} {`);
+    for (const col of table.columns) {
+      const markers = keyMarkers(table, col.name);
+      const suffix = markers.length ? ` ${markers.join(", ")}` : "";
+      lines.push(`        ${diagramType(col.type)} ${diagramName(col.name)}${suffix}`);
+    }
+    lines.push("    }");
+  }
+  return lines.join("\n");
+}
+
+function renderPlantUml(schemas: TableSchema[], rels: Relationship[]): string {
+  const lines = ["@startuml", "hide circle", "skinparam linetype ortho", ""];
+  for (const table of schemas) {
+    lines.push(`entity ${diagramName(table.name)} {`);
+    const rendered = table.columns.map((col) => {
+      const markers = keyMarkers(table, col.name);
+      const stereotypes = markers.map((m) => ` <<${m}>>`).join("");
+      const mandatory = col.nullable ? "" : "* ";
+      return {
+        pk: markers.includes("PK"),
+        text: `  ${mandatory}${col.name} : ${col.type}${stereotypes}`,
+      };
+    });
+    lines.push(...rendered.filter((c) => c.pk).map((c) => c.text));
+    if (rendered.some((c) => c.pk)) lines.push("  --");
+    lines.push(...rendered.filter((c) => !c.pk).map((c) => c.text));
+    lines.push("}", "");
+  }
+  for (const rel of rels) lines.push(`${crowsFoot(rel)} : ${rel.name}`);
+  lines.push("@enduml");
+  return lines.join("\n");
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function renderDot(schemas: TableSchema[], rels: Relationship[]): string {
+  const escapeRecord = (text: string) => text.replace(/[{}|<>\\"]/g, (c) => `\\${c}`);
+  const lines = ["digraph er {", "  rankdir=LR;", "  node [shape=record];"];
+  for (const table of schemas) {
+    const fields = table.columns.map((col) => {
+      const markers = keyMarkers(table, col.name);
+      const suffix = markers.length ? ` ${markers.join(",")}` : "";
+      return escapeRecord(`${col.name} : ${col.type}${suffix}`) + "\\l";
+    });
+    const label = `{${escapeRecord(table.name)}|${fields.join("")}}`;
+    lines.push(`  ${dotString(table.name)} [label="${label}"];`);
+  }
+  for (const rel of rels) {
+    const tail = rel.childUnique ? "teeodot" : "crowodot";
+    const head = rel.required ? "teetee" : "teeodot";
+    const attrs = `label=${dotString(rel.name)}, dir=both, arrowtail=${tail}, arrowhead=${head}`;
+    lines.push(`  ${dotString(rel.child)} -> ${dotString(rel.parent)} [${attrs}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Renders an entity-relationship diagram of the given tables. Cardinality
+ * comes from the FK columns: a covering unique index makes the child side
+ * "zero or one", NOT NULL columns make the parent side "exactly one".
+ */
+export function renderErDiagram(
+  schemas: TableSchema[],
+  dbName: string,
+  format: DiagramFormat
+): string {
+  const rels = relationships(schemas, dbName);
+  switch (format) {
+    case "plantuml":
+      return renderPlantUml(schemas, rels);
+    case "dot":
+      return renderDot(schemas, rels);
+    default:
+      return renderMermaid(schemas, rels);
+  }
+}
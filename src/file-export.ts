@@ -0,0 +1,232 @@
+import mysql from "mysql2/promise";
+import type { Connection as CoreConnection } from "mysql2";
+import { realpath, rename, rm } from "fs/promises";
+import { createWriteStream, existsSync } from "fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "path";
+import { once } from "events";
+import type { DbConnection } from "./config.js";
+import type { QueryParam } from "./cursors.js";
+import { csvCell } from "./format.js";
+import { quoteIdent } from "./helpers.js";
+import { type ParquetKind, type ParquetColumn, createParquetWriter } from "./parquet.js";
+import { applyPolicyToRows, policyPlan } from "./policy.js";
+import { queryError } from "./pool.js";
+
+// ─── File Exports ────────────────────────────────────────────────
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "sql", "parquet"] as const;
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Rows per Parquet row group. */
+const PARQUET_ROW_GROUP_ROWS = 10_000;
+/** Rows per INSERT statement, and per write for the text formats. */
+const EXPORT_BATCH_ROWS = 500;
+
+/** Resolves `path` against `dir`, rejecting paths that leave it. */
+export function resolveInsideDir(dir: string, path: string): string {
+  const target = resolve(dir, path);
+  const rel = relative(dir, target);
+  if (!rel || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`Path "${path}" is outside the allowed directory ${dir}.`);
+  }
+  return target;
+}
+
+/** Rejects `target` when a symlink on its existing part leads outside `dir`. */
+export async function assertRealPathInside(dir: string, target: string): Promise<void> {
+  const root = await realpath(dir);
+  let existing = target;
+  while (!existsSync(existing)) existing = dirname(existing);
+  const real = await realpath(existing);
+  if (real !== root && !real.startsWith(root + sep)) {
+    throw new Error(`Path "${target}" resolves outside the allowed directory ${dir}.`);
+  }
+}
+
+/** Parquet kind for a result column; masked columns are always text. */
+export function parquetKindOf(field: mysql.FieldPacket, masked: boolean): ParquetKind {
+  if (masked) return "utf8";
+  const T = mysql.Types;
+  const type = field.columnType ?? field.type;
+  const unsigned =
+    typeof field.flags === "number" ? (field.flags & 32) !== 0 : field.flags.includes("UNSIGNED");
+  switch (type) {
+    case T.TINY:
+    case T.SHORT:
+    case T.INT24:
+    case T.LONG:
+    case T.YEAR:
+      return "int64";
+    case T.LONGLONG:
+      return unsigned ? "utf8" : "int64"; // above INT64's range
+    case T.FLOAT:
+    case T.DOUBLE:
+      return "double";
+    case T.DATETIME:
+    case T.TIMESTAMP:
+      return "timestamp";
+    case T.DATE:
+    case T.NEWDATE:
+      return "date";
+    case T.BIT:
+    case T.GEOMETRY:
+      return "binary";
+  }
+  return field.characterSet === 63 ? "binary" : "utf8";
+}
+
+/** SQL literal for an exported value; JSON columns arrive parsed. */
+function sqlLiteral(v: unknown): string {
+  if (v !== null && typeof v === "object" && !(v instanceof Date) && !Buffer.isBuffer(v)) {
+    return mysql.escape(JSON.stringify(v));
+  }
+  return mysql.escape(v);
+}
+
+export interface ExportEncoder {
+  /** Rows to buffer before calling `rows`. */
+  batchSize: number;
+  head(): Buffer;
+  rows(rows: Record<string, unknown>[]): Buffer;
+  tail(): Buffer;
+}
+
+/** Encodes result rows as one of the export formats. */
+export function exportEncoder(
+  format: ExportFormat,
+  columns: ParquetColumn[],
+  table = "export"
+): ExportEncoder {
+  const names = columns.map((c) => c.name);
+  const empty = Buffer.alloc(0);
+  switch (format) {
+    case "csv":
+      return {
+        batchSize: EXPORT_BATCH_ROWS,
+        head: () => Buffer.from(`${names.map(csvCell).join(",")}\r\n`),
+        rows: (rows) =>
+          Buffer.from(
+            rows.map((r) => `${names.map((c) => csvCell(r[c])).join(",")}\r\n`).join("")
+          ),
+        tail: () => empty,
+      };
+    case "ndjson":
+      return {
+        batchSize: EXPORT_BATCH_ROWS,
+        head: () => empty,
+        rows: (rows) => Buffer.from(rows.map((r) => `${JSON.stringify(r)}\n`).join("")),
+        tail: () => empty,
+      };
+    case "sql": {
+      const prefix = `INSERT INTO ${quoteIdent(table)} (${names.map(quoteIdent).join(", ")}) VALUES\n`;
+      return {
+        batchSize: EXPORT_BATCH_ROWS,
+        head: () => empty,
+        rows: (rows) =>
+          Buffer.from(
+            `${prefix}${rows.map((r) => `(${names.map((c) => sqlLiteral(r[c])).join(", ")})`).join(",\n")};\n`
+          ),
+        tail: () => empty,
+      };
+    }
+    case "parquet": {
+      const writer = createParquetWriter(columns);
+      return {
+        batchSize: PARQUET_ROW_GROUP_ROWS,
+        head: writer.header,
+        rows: writer.rowGroup,
+        tail: writer.footer,
+      };
+    }
+  }
+}
+
+/**
+ * Streams the rows of a read statement into `file` without holding the
+ * result in memory, applying the connection's masks. The file is written
+ * under a temporary name and only renamed into place once complete. If the
+ * export fails before the result was read to the end, the connection is
+ * destroyed so the server stops sending rows; callers must not reuse it then.
+ */
+export async function exportRows(
+  conn: DbConnection,
+  connection: mysql.PoolConnection,
+  query: string,
+  params: QueryParam[] | undefined,
+  format: ExportFormat,
+  file: string,
+  options: { table?: string; maxBytes: number }
+): Promise<{ rows: number; bytes: number }> {
+  const core = (connection as unknown as { connection: CoreConnection }).connection;
+  const stream = core.execute(query, params ?? []).stream();
+  let fields: mysql.FieldPacket[] | undefined;
+  stream.on("fields", (f: mysql.FieldPacket[] | undefined) => (fields ??= f));
+
+  const partial = `${file}.partial`;
+  const out = createWriteStream(partial);
+  let bytes = 0;
+  let count = 0;
+  let encoder: ExportEncoder | undefined;
+  let batch: Record<string, unknown>[] = [];
+
+  const write = async (chunk: Buffer) => {
+    bytes += chunk.length;
+    if (bytes > options.maxBytes) {
+      throw queryError(
+        `Export exceeds exports.maxMb (${options.maxBytes / 1024 / 1024} MB); narrow the query.`,
+        "EXPORT_TOO_LARGE"
+      );
+    }
+    if (!out.write(chunk)) await once(out, "drain");
+  };
+  const start = async (): Promise<ExportEncoder> => {
+    if (!fields) throw new Error("The statement returned no result set to export.");
+    const plan = conn.policy ? policyPlan(conn.policy, fields, query) : null;
+    const columns = fields
+      .filter((f) => !plan || plan.some((p) => p.name === f.name))
+      .map((f) => {
+        const isMasked = !!plan?.find((p) => p.name === f.name)?.rule;
+        return { name: f.name, kind: parquetKindOf(f, isMasked) };
+      });
+    const tables = new Set(fields.map((f) => f.orgTable).filter(Boolean));
+    const table = options.table ?? (tables.size === 1 ? [...tables][0] : undefined);
+    if (format === "sql" && !table) {
+      throw new Error("The result spans several tables; pass table for the INSERT statements.");
+    }
+    const encoder = exportEncoder(format, columns, table);
+    await write(encoder.head());
+    return encoder;
+  };
+  const flush = async (encoder: ExportEncoder) => {
+    if (batch.length === 0) return;
+    const rows = conn.policy
+      ? applyPolicyToRows(conn.policy, fields ?? [], batch, query).rows
+      : batch;
+    batch = [];
+    await write(encoder.rows(rows));
+  };
+
+  try {
+    for await (const row of stream) {
+      encoder ??= await start();
+      batch.push(row as Record<string, unknown>);
+      count++;
+      if (batch.length >= encoder.batchSize) await flush(encoder);
+    }
+    encoder ??= await start();
+    await flush(encoder);
+    await write(encoder.tail());
+    await new Promise<void>((done, fail) => out.end((e?: Error | null) => (e ? fail(e) : done())));
+    await rename(partial, file);
+    return { rows: count, bytes };
+  } catch (e) {
+    // Destroying only the stream would leave mysql2 reading the rest of the
+    // result off the socket
+    if (!stream.readableEnded) connection.destroy();
+    stream.destroy();
+    out.destroy();
+    await rm(partial, { force: true });
+    throw e;
+  }
+}
@@ -0,0 +1,407 @@
+import type mysql from "mysql2/promise";
+import type { QueryParam } from "./cursors.js";
+import { quoteIdent } from "./helpers.js";
+import type { ColumnInfo } from "./introspection.js";
+import type { ServerInfo } from "./server-flavor.js";
+
+// ─── File Imports ────────────────────────────────────────────────
+
+export const IMPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/** Validation and batch errors reported before an import gives up. */
+export const MAX_IMPORT_ERRORS = 50;
+
+/** One data record and the file line it starts on. */
+export interface ImportRecord {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Parses RFC 4180 CSV with a header row. Unquoted empty fields and `\N`
+ * read as NULL; `""` is an empty string. Quoted fields may span lines.
+ */
+export function parseCsvRecords(text: string): { header: string[]; records: ImportRecord[] } {
+  const rows: { line: number; fields: (string | null)[] }[] = [];
+  let fields: (string | null)[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const endField = () => {
+    fields.push(!quoted && (field === "" || field === "\\N") ? null : field);
+    field = "";
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    // Skip blank lines
+    if (fields.length > 1 || fields[0] !== null) rows.push({ line: rowLine, fields });
+    fields = [];
+  };
+
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0; // BOM
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+      quoted = true;
+    } else if (ch === ",") {
+      endField();
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) throw new Error(`Line ${rowLine}: unterminated quoted field.`);
+  if (field !== "" || quoted || fields.length > 0) endRow();
+
+  const [head, ...data] = rows;
+  if (!head) return { header: [], records: [] };
+  const header = head.fields.map((f) => f ?? "");
+  const records = data.map(({ line: at, fields: values }) => {
+    if (values.length !== header.length) {
+      throw new Error(`Line ${at}: expected ${header.length} fields, found ${values.length}.`);
+    }
+    return { line: at, values: Object.fromEntries(header.map((h, i) => [h, values[i]])) };
+  });
+  return { header, records };
+}
+
+/** Parses one JSON object per line; the header is the union of their keys. */
+export function parseNdjsonRecords(text: string): { header: string[]; records: ImportRecord[] } {
+  const header = new Set<string>();
+  const records: ImportRecord[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.trim() === "") return;
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (e) {
+      throw new Error(`Line ${i + 1}: invalid JSON (${e instanceof Error ? e.message : e}).`);
+    }
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Line ${i + 1}: expected a JSON object.`);
+    }
+    for (const key of Object.keys(value)) header.add(key);
+    records.push({ line: i + 1, values: value as Record<string, unknown> });
+  });
+  return { header: [...header], records };
+}
+
+/** `decimal(10,2) unsigned` → base "decimal", args ["10", "2"], unsigned. */
+function parseColumnType(type: string): { base: string; args: string[]; unsigned: boolean } {
+  const match = /^(\w+)(?:\((.*)\))?/.exec(type.trim().toLowerCase());
+  const args = match?.[2]
+    ? (match[2].match(/'(?:[^']|'')*'|[^,]+/g) ?? []).map((a) =>
+        a.startsWith("'") ? a.slice(1, -1).replace(/''/g, "'") : a.trim()
+      )
+    : [];
+  return { base: match?.[1] ?? "", args, unsigned: /\bunsigned\b/i.test(type) };
+}
+
+const INTEGER_BITS: Record<string, number> = {
+  tinyint: 8,
+  smallint: 16,
+  mediumint: 24,
+  int: 32,
+  integer: 32,
+  bigint: 64,
+};
+
+const TEXT_BYTES: Record<string, number> = {
+  tinytext: 255,
+  text: 65_535,
+  mediumtext: 16_777_215,
+  longtext: 4_294_967_295,
+};
+
+function validDate(y: number, m: number, d: number): boolean {
+  if (y === 0 && m === 0 && d === 0) return false;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+/**
+ * Checks a file value against a column's type and converts it to a query
+ * parameter. Returns an error message instead when MySQL would reject or
+ * silently alter the value.
+ */
+export function importValue(
+  column: ColumnInfo,
+  raw: unknown
+): { value: QueryParam } | { error: string } {
+  if (raw === null || raw === undefined) {
+    if (column.nullable || /auto_increment/i.test(column.extra)) return { value: null };
+    return { error: "NULL is not allowed (column is NOT NULL)" };
+  }
+  const { base, args, unsigned } = parseColumnType(column.type);
+  if (typeof raw === "object" && base !== "json") {
+    return { error: `a JSON ${Array.isArray(raw) ? "array" : "object"} can't go into ${column.type}` };
+  }
+  if (typeof raw === "boolean") raw = base === "json" ? raw : raw ? 1 : 0;
+  const text = typeof raw === "string" ? raw : typeof raw === "object" ? "" : String(raw);
+  const invalid = { error: `${JSON.stringify(raw)} is not a valid ${column.type}` };
+
+  if (base in INTEGER_BITS) {
+    if (!/^[+-]?\d+$/.test(text.trim())) return invalid;
+    const n = BigInt(text.trim());
+    const bits = BigInt(INTEGER_BITS[base]);
+    const [min, max] = unsigned
+      ? [0n, (1n << bits) - 1n]
+      : [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n];
+    if (n < min || n > max) return { error: `${text} is out of range for ${column.type}` };
+    return { value: text.trim() };
+  }
+  switch (base) {
+    case "decimal":
+    case "numeric": {
+      const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+      if (!match || (match[1] === "" && !match[2])) return invalid;
+      const [precision, scale] = [Number(args[0] ?? 10), Number(args[1] ?? 0)];
+      if (unsigned && text.trim().startsWith("-")) return invalid;
+      if (match[1].replace(/^0+/, "").length > precision - scale) {
+        return { error: `${text} is out of range for ${column.type}` };
+      }
+      return { value: text.trim() };
+    }
+    case "float":
+    case "double":
+    case "real": {
+      const n = Number(text);
+      if (text.trim() === "" || !Number.isFinite(n) || (unsigned && n < 0)) return invalid;
+      return { value: n };
+    }
+    case "bit":
+      return /^\d+$/.test(text) ? { value: Number(text) } : invalid;
+    case "year": {
+      const n = Number(text);
+      return /^\d{1,4}$/.test(text) && (n === 0 || (n >= 1901 && n <= 2155))
+        ? { value: n }
+        : invalid;
+    }
+    case "date": {
+      const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+      return m && validDate(+m[1], +m[2], +m[3]) ? { value: text } : invalid;
+    }
+    case "datetime":
+    case "timestamp": {
+      const m = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(\.\d{1,6})?)?$/.exec(text);
+      if (!m || !validDate(+m[1], +m[2], +m[3]) || +m[4] > 23 || +m[5] > 59 || +(m[6] ?? 0) > 59) {
+        return invalid;
+      }
+      return { value: text.replace("T", " ") };
+    }
+    case "time":
+      return /^-?\d{1,3}:\d{2}(:\d{2}(\.\d{1,6})?)?$/.test(text) ? { value: text } : invalid;
+    case "char":
+    case "varchar": {
+      const max = Number(args[0] ?? 1);
+      const length = [...text].length;
+      return length > max
+        ? { error: `${length} characters exceed ${column.type}` }
+        : { value: text };
+    }
+    case "binary":
+    case "varbinary": {
+      const bytes = Buffer.byteLength(text);
+      return bytes > Number(args[0] ?? 1)
+        ? { error: `${bytes} bytes exceed ${column.type}` }
+        : { value: text };
+    }
+    case "tinytext":
+    case "text":
+    case "mediumtext":
+    case "longtext": {
+      const bytes = Buffer.byteLength(text);
+      return bytes > TEXT_BYTES[base] ? { error: `${bytes} bytes exceed ${base}` } : { value: text };
+    }
+    case "enum":
+      return args.some((a) => a.toLowerCase() === text.toLowerCase()) ? { value: text } : invalid;
+    case "set": {
+      const items = text === "" ? [] : text.split(",");
+      const ok = items.every((item) => args.some((a) => a.toLowerCase() === item.toLowerCase()));
+      return ok ? { value: text } : invalid;
+    }
+    case "json": {
+      if (typeof raw !== "string") return { value: JSON.stringify(raw) };
+      try {
+        JSON.parse(raw);
+        return { value: raw };
+      } catch {
+        return invalid;
+      }
+    }
+  }
+  return { value: text };
+}
+
+/**
+ * Pairs file fields with table columns, by `mapping` first and otherwise by
+ * case-insensitive name. Throws on unknown, duplicate or generated columns.
+ */
+export function mapImportColumns(
+  header: string[],
+  columns: ColumnInfo[],
+  mapping: Record<string, string> = {}
+): { field: string; column: ColumnInfo }[] {
+  const byName = new Map(columns.map((c) => [c.name.toLowerCase(), c]));
+  const pairs: { field: string; column: ColumnInfo }[] = [];
+  const used = new Set<string>();
+  for (const field of header) {
+    const name = mapping[field] ?? field;
+    const column = byName.get(name.toLowerCase());
+    if (!column) throw new Error(`File column "${field}" has no matching table column "${name}".`);
+    if (column.generation || /\bgenerated\b/i.test(column.extra)) {
+      throw new Error(`Column "${column.name}" is generated and can't be imported.`);
+    }
+    if (used.has(column.name)) {
+      throw new Error(`Several file columns map to table column "${column.name}".`);
+    }
+    used.add(column.name);
+    pairs.push({ field, column });
+  }
+  return pairs;
+}
+
+/** A validated record: the columns it has values for, and those values. */
+export interface ImportRow {
+  line: number;
+  columns: string[];
+  values: QueryParam[];
+}
+
+export interface ImportStatement {
+  batch: number;
+  rows: ImportRow[];
+  sql: string;
+  params: QueryParam[];
+}
+
+/**
+ * Splits rows into batches of `batchSize` and each batch into one INSERT
+ * per set of columns present. Columns a row lacks (keys missing from an
+ * NDJSON object) get their default, or stay unchanged on upsert.
+ */
+export function importStatements(
+  table: string,
+  rows: ImportRow[],
+  batchSize: number,
+  upsertKeys: string[] | null,
+  server?: ServerInfo
+): ImportStatement[] {
+  const statements: ImportStatement[] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const groups = new Map<string, ImportRow[]>();
+    for (const row of rows.slice(start, start + batchSize)) {
+      const key = JSON.stringify(row.columns);
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    for (const group of groups.values()) {
+      statements.push({
+        batch: start / batchSize + 1,
+        rows: group,
+        sql: importInsertSql(table, group[0].columns, group.length, upsertKeys, server),
+        params: group.flatMap((r) => r.values),
+      });
+    }
+  }
+  return statements;
+}
+
+/**
+ * Multi-row INSERT for `rows` rows of `columns`. Upserts update every
+ * non-key column, using the row alias on MySQL 8.0.19+ where `VALUES()`
+ * is deprecated.
+ */
+export function importInsertSql(
+  table: string,
+  columns: string[],
+  rows: number,
+  upsertKeys: string[] | null,
+  server?: ServerInfo
+): string {
+  const tuple = `(${columns.map(() => "?").join(", ")})`;
+  let sql = `INSERT INTO ${quoteIdent(table)} (${columns.map(quoteIdent).join(", ")}) VALUES ${Array(rows).fill(tuple).join(", ")}`;
+  // With no columns there is nothing to update
+  if (!upsertKeys || columns.length === 0) return sql;
+
+  const alias =
+    server &&
+    (server.flavor === "mysql" || server.flavor === "percona") &&
+    (server.major > 8 || (server.major === 8 && (server.minor > 0 || server.patch >= 19)));
+  const updates = columns.filter((c) => !upsertKeys.includes(c));
+  // Nothing but key columns: keep the existing row
+  const targets = updates.length > 0 ? updates : columns.slice(0, 1);
+  const assign = (c: string) =>
+    updates.length === 0
+      ? `${quoteIdent(c)} = ${quoteIdent(c)}`
+      : alias
+        ? `${quoteIdent(c)} = \`new\`.${quoteIdent(c)}`
+        : `${quoteIdent(c)} = VALUES(${quoteIdent(c)})`;
+  if (alias) sql += " AS `new`";
+  return `${sql} ON DUPLICATE KEY UPDATE ${targets.map(assign).join(", ")}`;
+}
+
+/**
+ * Runs import statements inside the caller's transaction and reports the
+ * first failing batch. With `continueOnError`, each statement runs under a
+ * savepoint so a failure is undone and later batches are still tried (to
+ * report every bad batch at once); the caller rolls back either way. A
+ * deadlock or lock wait timeout may have rolled back the whole transaction
+ * already, which loses the savepoint, so the loop stops there too: anything
+ * run after it would autocommit.
+ */
+export async function runImportBatches(
+  connection: Pick<mysql.PoolConnection, "query">,
+  statements: ImportStatement[],
+  continueOnError: boolean
+): Promise<{ affected: number; errors: string[] }> {
+  const errors: string[] = [];
+  let affected = 0;
+  for (const statement of statements) {
+    if (continueOnError) await connection.query("SAVEPOINT import_batch");
+    try {
+      const [header] = await connection.query<mysql.ResultSetHeader>(
+        statement.sql,
+        statement.params
+      );
+      affected += header.affectedRows;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      // MySQL names the failing row within the statement
+      const row = /at row (\d+)/.exec(msg);
+      const at = row ? statement.rows[Number(row[1]) - 1]?.line : undefined;
+      const first = statement.rows[0].line;
+      const last = statement.rows[statement.rows.length - 1].line;
+      errors.push(
+        `Batch ${statement.batch} (lines ${first}–${last})${at ? `, line ${at}` : ""}: ${msg}`
+      );
+      if (!continueOnError || errors.length >= MAX_IMPORT_ERRORS) break;
+      const undone = await connection.query("ROLLBACK TO SAVEPOINT import_batch").then(
+        () => true,
+        () => false
+      );
+      if (!undone) break;
+    }
+  }
+  return { affected, errors };
+}
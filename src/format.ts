@@ -0,0 +1,98 @@
+import type { ResultFormat } from "./config.js";
+
+// ─── Result Formatting ───────────────────────────────────────────
+
+/**
+ * Page details reported alongside every format. `rowCount` counts the rows in
+ * this page; `truncated` + `cursor` mean more rows are available.
+ */
+export interface ResultMeta {
+  rowCount: number;
+  offset?: number;
+  truncated?: boolean;
+  /**
+   * Rows in the whole result, on paged results read to the end. A page cut
+   * short never fetches the rest, so its total is unknown and left out.
+   */
+  totalRows?: number;
+  limit?: number;
+  cursor?: string;
+  /** Why a truncated page has no cursor. */
+  cursorUnavailable?: string;
+  /** Set when the page was served from the result cache. */
+  cached?: boolean;
+  cacheAgeMs?: number;
+}
+
+/** Renders a single value for text formats (CSV, Markdown). */
+export function cellText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (v instanceof Date) return isNaN(v.getTime()) ? String(v) : v.toISOString();
+  if (Buffer.isBuffer(v)) return `0x${v.toString("hex")}`;
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+export function csvCell(v: unknown): string {
+  const text = cellText(v);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(v: unknown): string {
+  if (v === null || v === undefined) return "NULL";
+  return cellText(v).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Formats query rows as one or more text blocks. JSON formats embed the
+ * metadata; CSV and NDJSON carry it in a second block so the data block stays
+ * machine-readable; Markdown appends a footer line.
+ */
+export function formatQueryResult(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  meta: ResultMeta,
+  format: ResultFormat
+): string[] {
+  switch (format) {
+    case "json":
+      return [JSON.stringify({ columns, rows, ...meta }, null, 2)];
+    case "compact":
+      return [
+        JSON.stringify({
+          columns,
+          rows: rows.map((r) => columns.map((c) => r[c])),
+          ...meta,
+        }),
+      ];
+    case "csv": {
+      const lines = [columns.map(csvCell).join(",")];
+      for (const r of rows) lines.push(columns.map((c) => csvCell(r[c])).join(","));
+      return [lines.join("\r\n"), JSON.stringify(meta)];
+    }
+    case "ndjson":
+      return [rows.map((r) => JSON.stringify(r)).join("\n"), JSON.stringify(meta)];
+    case "markdown": {
+      const lines = [
+        `| ${columns.map(markdownCell).join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map((r) => `| ${columns.map((c) => markdownCell(r[c])).join(" | ")} |`),
+      ];
+      const first = (meta.offset ?? 0) + 1;
+      const last = (meta.offset ?? 0) + rows.length;
+      const of = meta.totalRows === undefined ? "" : ` of ${meta.totalRows}`;
+      const more = meta.cursor
+        ? `more available with cursor \`${meta.cursor}\``
+        : meta.cursorUnavailable;
+      const footer = meta.truncated
+        ? `_Showing rows ${first}–${last}${of} (truncated at limit ${meta.limit}; ${more})._`
+        : meta.offset
+          ? `_Showing rows ${first}–${last}${of}._`
+          : `_${meta.rowCount} row(s)._`;
+      const cached = meta.cached
+        ? ` _(cached ${Math.round((meta.cacheAgeMs ?? 0) / 1000)}s ago)_`
+        : "";
+      return [`${lines.join("\n")}\n\n${footer}${cached}`];
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { DbConnection } from "./config.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/** Case-insensitive glob (`*`, `?`) → anchored RegExp. */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Case-insensitive glob (`*`, `?`) match for patterns from tool calls. Unlike
+ * a backtracking RegExp it takes at most text × pattern steps, however many
+ * `*` the pattern has.
+ */
+export function globMatches(pattern: string, text: string): boolean {
+  const p = pattern.toLowerCase();
+  const t = text.toLowerCase();
+  let i = 0;
+  let j = 0;
+  let star = -1; // last `*` seen, and where in the text it started matching
+  let resume = 0;
+  while (j < t.length) {
+    if (i < p.length && (p[i] === "?" || p[i] === t[j])) {
+      i++;
+      j++;
+    } else if (p[i] === "*") {
+      star = i++;
+      resume = j;
+    } else if (star !== -1) {
+      // Let the last `*` swallow one more character and retry from there
+      i = star + 1;
+      j = ++resume;
+    } else {
+      return false;
+    }
+  }
+  while (p[i] === "*") i++;
+  return i === p.length;
+}
+
+/** Backtick-quotes a MySQL identifier. */
+export function quoteIdent(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+/** Extract database name from DbConnection (handles URL parsing safely). */
+export function extractDbName(conn: DbConnection): string | undefined {
+  if (conn.database) return conn.database;
+  if (!conn.url) return undefined;
+  try {
+    const parsed = new URL(conn.url);
+    const path = parsed.pathname;
+    return path && path.length > 1 ? path.substring(1) : undefined;
+  } catch {
+    // Fallback for non-standard URLs
+    return conn.url.split("/").pop()?.split("?")[0] || undefined;
+  }
+}
@@ -0,0 +1,185 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import { HTTP_HOST } from "./cli.js";
+import { type HttpToken, type LabelScope, loadFullConfig } from "./config.js";
+import { createServer } from "./server.js";
+
+// ─── HTTP Transport ──────────────────────────────────────────────
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Token that opened the session; later requests must present the same one. */
+  token: string;
+  /** The token's labels when the session opened. */
+  scope: LabelScope;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const httpSessions = new Map<string, HttpSession>();
+
+function tokenDigest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/** Constant-time bearer token lookup against the (hot-reloaded) config's tokens. */
+function authenticate(req: IncomingMessage, httpTokens: HttpToken[]): HttpToken | null {
+  const match = (req.headers.authorization ?? "").match(/^Bearer\s+(\S+)$/i);
+  if (!match) return null;
+  const presented = tokenDigest(match[1]);
+  return (
+    httpTokens.find((t) => timingSafeEqual(tokenDigest(t.token), presented)) ?? null
+  );
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (status === 401) headers["WWW-Authenticate"] = 'Bearer realm="mcp-mysql"';
+  res.writeHead(status, headers).end(JSON.stringify({ error: message }));
+}
+
+/** Closes the session once `idleMs` pass without another request for it. */
+function touchSession(id: string, session: HttpSession, idleMs: number): void {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    console.error(`HTTP session ${id} idle — closed`);
+    closeSession(id);
+  }, idleMs);
+  session.idleTimer.unref();
+}
+
+function openSession(id: string, session: HttpSession, idleMs: number): void {
+  httpSessions.set(id, session);
+  touchSession(id, session, idleMs);
+}
+
+/**
+ * The session `token` opened under `id`, with its idle timer restarted.
+ * A session whose token has since been given other labels is closed, so
+ * the client starts a new one with the current scope.
+ */
+function findSession(
+  id: string | null | undefined,
+  token: HttpToken,
+  idleMs: number
+): HttpSession | null {
+  const session = id ? httpSessions.get(id) : undefined;
+  if (!id || !session || session.token !== token.token) return null;
+  if (JSON.stringify(session.scope) !== JSON.stringify(token.labels ?? null)) {
+    console.error(`HTTP session ${id} closed — its token's labels changed`);
+    closeSession(id);
+    return null;
+  }
+  touchSession(id, session, idleMs);
+  return session;
+}
+
+function closeSession(id: string): void {
+  const session = httpSessions.get(id);
+  if (!session) return;
+  clearTimeout(session.idleTimer);
+  httpSessions.delete(id);
+  session.server.close().catch(() => {});
+}
+
+/** Closes every open HTTP session; used on shutdown. */
+export function closeAllHttpSessions(): void {
+  for (const id of [...httpSessions.keys()]) closeSession(id);
+}
+
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const { httpTokens, httpSessionIdleTimeoutMs: idleMs } = await loadFullConfig();
+  const token = authenticate(req, httpTokens);
+  if (!token) {
+    sendJsonError(res, 401, "Missing or invalid bearer token");
+    return;
+  }
+  const scope = token.labels ?? null;
+
+  // Streamable HTTP (current spec)
+  if (url.pathname === "/mcp") {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = findSession(sessionId, token, idleMs);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+    if (req.method !== "POST") {
+      sendJsonError(res, 400, "Missing mcp-session-id header");
+      return;
+    }
+
+    // No session yet — the transport only accepts an initialize request here
+    const server = createServer(scope, token.token);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        openSession(id, { server, transport, token: token.token, scope }, idleMs);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    return;
+  }
+
+  // Legacy HTTP+SSE transport for older clients
+  if (url.pathname === "/sse" && req.method === "GET") {
+    const server = createServer(scope, token.token);
+    const transport = new SSEServerTransport("/messages", res);
+    openSession(transport.sessionId, { server, transport, token: token.token, scope }, idleMs);
+    res.on("close", () => closeSession(transport.sessionId));
+    await server.connect(transport);
+    return;
+  }
+
+  if (url.pathname === "/messages" && req.method === "POST") {
+    const session = findSession(url.searchParams.get("sessionId"), token, idleMs);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonError(res, 404, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+    return;
+  }
+
+  sendJsonError(res, 404, "Not found");
+}
+
+export async function startHttpServer(port: number): Promise<Server> {
+  const { httpTokens } = await loadFullConfig();
+  if (httpTokens.length === 0) {
+    console.error(
+      "Warning: no http.tokens configured — every HTTP request will be rejected"
+    );
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handleHttpRequest(req, res).catch((e) => {
+      console.error("HTTP request error:", e);
+      if (!res.headersSent) sendJsonError(res, 500, "Internal server error");
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolveListen, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, HTTP_HOST, () => resolveListen());
+  });
+  return httpServer;
+}
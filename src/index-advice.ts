@@ -0,0 +1,330 @@
+import mysql from "mysql2/promise";
+import type { DbConnection } from "./config.js";
+import type { QueryParam } from "./cursors.js";
+import { quoteIdent } from "./helpers.js";
+import type { IndexInfo } from "./introspection.js";
+import { withPool } from "./pool.js";
+import { describeServer, explainSyntax } from "./server-flavor.js";
+import { type SqlToken, tokenizeSql, isWord, isPunct } from "./sql.js";
+
+// ─── Index Advice ────────────────────────────────────────────────
+
+/** Tables reading fewer rows per scan than this are not worth an index. */
+const ADVICE_MIN_ROWS = 1000;
+/** An index keeping less than this share of the rows it reads is poorly selective. */
+const ADVICE_MIN_FILTERED = 20;
+
+export interface TableAccess {
+  /** Table name or alias as shown in the plan. */
+  table: string;
+  accessType: string;
+  key: string | null;
+  rowsExamined: number;
+  /** Percentage of examined rows kept by the remaining conditions. */
+  filtered: number;
+  condition: string;
+}
+
+export interface PlanSummary {
+  tables: TableAccess[];
+  filesort: boolean;
+  temporary: boolean;
+}
+
+/**
+ * Table accesses and sort/temporary-table flags of an EXPLAIN FORMAT=JSON
+ * plan. MariaDB reports `rows` where MySQL has `rows_examined_per_scan`.
+ */
+export function summarizePlan(plan: unknown): PlanSummary {
+  const summary: PlanSummary = { tables: [], filesort: false, temporary: false };
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (node === null || typeof node !== "object") return;
+    const obj = node as Record<string, unknown>;
+    if (obj.using_filesort === true) summary.filesort = true;
+    if (obj.using_temporary_table === true) summary.temporary = true;
+    for (const [key, value] of Object.entries(obj)) {
+      const t = value as Record<string, unknown> | null;
+      if (key === "table" && typeof t?.table_name === "string") {
+        summary.tables.push({
+          table: t.table_name,
+          accessType: String(t.access_type ?? ""),
+          key: typeof t.key === "string" ? t.key : null,
+          rowsExamined: Number(t.rows_examined_per_scan ?? t.rows ?? 0),
+          filtered: Number(t.filtered ?? 100),
+          condition: typeof t.attached_condition === "string" ? t.attached_condition : "",
+        });
+      }
+      visit(value);
+    }
+  };
+  visit(plan);
+  return summary;
+}
+
+/**
+ * Columns of `table` compared in a plan condition such as
+ * "(`shop`.`o`.`status` = 'new')", split into equality and range use.
+ */
+export function conditionColumns(
+  condition: string,
+  table: string
+): { equality: string[]; range: string[] } {
+  const equality: string[] = [];
+  const range: string[] = [];
+  const re =
+    /(?:`[^`]+`\.)?`([^`]+)`\.`([^`]+)`\s*(<=>|>=|<=|=|>|<|between\b|like\b|in\s*\()/gi;
+  for (const m of condition.matchAll(re)) {
+    if (m[1] !== table) continue;
+    const op = m[3].toLowerCase();
+    const list = op === "=" || op === "<=>" || op.startsWith("in") ? equality : range;
+    if (!list.includes(m[2])) list.push(m[2]);
+  }
+  return { equality, range: range.filter((c) => !equality.includes(c)) };
+}
+
+const CLAUSE_END = ["LIMIT", "FOR", "LOCK", "UNION", "HAVING", "WINDOW", "ORDER", "INTO"];
+const NOT_ALIAS = [
+  "WHERE", "JOIN", "INNER", "LEFT", "RIGHT", "CROSS", "NATURAL", "STRAIGHT_JOIN", "ON",
+  "USING", "GROUP", "ORDER", "LIMIT", "HAVING", "WINDOW", "UNION", "FOR", "LOCK",
+  "FORCE", "USE", "IGNORE", "PARTITION",
+];
+
+/** Alias (or bare table name) → table name for the FROM/JOIN sources of a query. */
+export function tableAliases(tokens: SqlToken[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const isName = (t: SqlToken | undefined) => t?.type === "ident" || t?.type === "word";
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isWord(tokens[i], "FROM", "JOIN")) continue;
+    let j = i + 1;
+    for (;;) {
+      if (!isName(tokens[j])) break;
+      let table = tokens[j].value;
+      j++;
+      while (isPunct(tokens[j], ".") && isName(tokens[j + 1])) {
+        table = tokens[j + 1].value;
+        j += 2;
+      }
+      if (isWord(tokens[j], "AS")) j++;
+      const alias =
+        isName(tokens[j]) && !isWord(tokens[j], ...NOT_ALIAS) ? tokens[j++].value : table;
+      aliases.set(alias, table);
+      if (!isPunct(tokens[j], ",")) break;
+      j++;
+    }
+  }
+  return aliases;
+}
+
+/** Columns of the outermost ORDER BY or GROUP BY, with their qualifier if any. */
+export function clauseColumns(
+  tokens: SqlToken[],
+  clause: "ORDER" | "GROUP"
+): { qualifier: string | null; column: string }[] {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < tokens.length; i++) {
+    if (isPunct(tokens[i], "(")) depth++;
+    else if (isPunct(tokens[i], ")")) depth--;
+    else if (depth === 0 && isWord(tokens[i], clause) && isWord(tokens[i + 1], "BY")) {
+      start = i + 2;
+    }
+  }
+  if (start === -1) return [];
+
+  const columns: { qualifier: string | null; column: string }[] = [];
+  let item: SqlToken[] = [];
+  const flush = () => {
+    const names = item.filter((t) => !isPunct(t, "."));
+    const plain =
+      item.every((t) => t.type === "ident" || t.type === "word" || isPunct(t, ".")) &&
+      names.length > 0;
+    if (plain) {
+      const column = names[names.length - 1].value;
+      const qualifier = names.length > 1 ? names[names.length - 2].value : null;
+      columns.push({ qualifier, column });
+    }
+    item = [];
+  };
+  for (let i = start; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (isPunct(t, ")") || isPunct(t, ";") || isWord(t, ...CLAUSE_END)) break;
+    if (isPunct(t, ",")) flush();
+    else if (!isWord(t, "ASC", "DESC", "WITH", "ROLLUP")) item.push(t);
+  }
+  flush();
+  return columns;
+}
+
+export interface IndexAdvice {
+  table: string;
+  problem: string;
+  reasoning: string[];
+  /** Proposed DDL; absent when no new index would help. */
+  statement?: string;
+}
+
+function indexName(table: string, columns: string[]): string {
+  return `idx_${table}_${columns.join("_")}`.slice(0, 64);
+}
+
+/**
+ * Turns an EXPLAIN FORMAT=JSON plan into index proposals. `indexes` holds
+ * the existing indexes per table name; tables are resolved through the
+ * query's aliases. Proposals put equality columns first, then one range
+ * column or, failing that, the ORDER BY columns.
+ */
+export function adviseIndexes(
+  plan: unknown,
+  query: string,
+  indexes: Map<string, IndexInfo[]>
+): IndexAdvice[] {
+  const summary = summarizePlan(plan);
+  const tokens = tokenizeSql(query);
+  const aliases = tableAliases(tokens);
+  const orderBy = clauseColumns(tokens, "ORDER");
+  const groupBy = clauseColumns(tokens, "GROUP");
+  const single = summary.tables.length === 1;
+  const advice: IndexAdvice[] = [];
+
+  for (const access of summary.tables) {
+    if (access.table.startsWith("<")) continue; // derived tables, subqueries, unions
+    const table = aliases.get(access.table) ?? access.table;
+    const big = access.rowsExamined >= ADVICE_MIN_ROWS;
+    let problem: string;
+    if (access.accessType === "ALL" && big) {
+      problem = `full table scan (~${access.rowsExamined} rows per scan)`;
+    } else if (access.accessType === "index" && big) {
+      problem =
+        `full index scan of ${access.key ?? "an index"} ` +
+        `(~${access.rowsExamined} rows per scan)`;
+    } else if (access.key && big && access.filtered < ADVICE_MIN_FILTERED) {
+      problem =
+        `poor selectivity: index ${access.key} reads ~${access.rowsExamined} rows per scan ` +
+        `and only ${access.filtered}% match the remaining conditions`;
+    } else {
+      continue;
+    }
+
+    const { equality, range } = conditionColumns(access.condition, access.table);
+    const mine = (c: { qualifier: string | null }) =>
+      c.qualifier === access.table || (c.qualifier === null && single);
+    const sortColumns = orderBy.filter(mine).map((c) => c.column);
+    const columns = [...equality];
+    if (range.length > 0) columns.push(range[0]);
+    else for (const c of sortColumns) if (!columns.includes(c)) columns.push(c);
+
+    const reasoning: string[] = [];
+    if (access.condition) reasoning.push(`Condition: ${access.condition}`);
+    if (equality.length) reasoning.push(`Equality filters: ${equality.join(", ")}`);
+    if (range.length) reasoning.push(`Range filters: ${range.join(", ")}`);
+    if (range.length === 0 && sortColumns.length) {
+      reasoning.push(`ORDER BY ${sortColumns.join(", ")} can be served by the same index`);
+    }
+    if (columns.length === 0) {
+      reasoning.push(
+        "No filter or sort columns for this table appear in the plan, so an index " +
+          "cannot help; add a selective WHERE condition or a LIMIT"
+      );
+      advice.push({ table, problem, reasoning });
+      continue;
+    }
+
+    const existing = indexes.get(table) ?? [];
+    const startsWith = (list: string[], head: string[]) =>
+      head.every((c, i) => list[i] === c);
+    const covering = existing.find((idx) => startsWith(idx.columns, columns));
+    if (covering) {
+      reasoning.push(
+        `Existing index ${covering.name} (${covering.columns.join(", ")}) already starts with ` +
+          `these columns but was not chosen; check for functions or type conversions on ` +
+          `the columns, or refresh statistics with ANALYZE TABLE`
+      );
+      advice.push({ table, problem, reasoning });
+      continue;
+    }
+    const prefix = existing.find(
+      (idx) => idx.columns.length < columns.length && startsWith(columns, idx.columns)
+    );
+    if (prefix) {
+      reasoning.push(
+        `Extends existing index ${prefix.name} (${prefix.columns.join(", ")}), which becomes ` +
+          `redundant once this one exists`
+      );
+    }
+    const name = quoteIdent(indexName(table, columns));
+    const cols = columns.map(quoteIdent).join(", ");
+    advice.push({
+      table,
+      problem,
+      reasoning,
+      statement: `CREATE INDEX ${name} ON ${quoteIdent(table)} (${cols});`,
+    });
+  }
+
+  if (summary.filesort) {
+    const cols = orderBy.map((c) => c.column).join(", ");
+    advice.push({
+      table: "",
+      problem: "sorts with filesort",
+      reasoning: [
+        cols
+          ? `ORDER BY ${cols} is not served by an index; an index with the filter ` +
+            `columns followed by ${cols} avoids the sort`
+          : "The sort is not served by an index",
+      ],
+    });
+  }
+  if (summary.temporary) {
+    const cols = groupBy.map((c) => c.column).join(", ");
+    advice.push({
+      table: "",
+      problem: "uses a temporary table",
+      reasoning: [
+        cols
+          ? `GROUP BY ${cols} is resolved in a temporary table; an index on ` +
+            `(${cols}) lets MySQL group in index order`
+          : "GROUP BY, DISTINCT or UNION is resolved in a temporary table",
+      ],
+    });
+  }
+  return advice;
+}
+
+/** Output of EXPLAIN FORMAT=JSON for `query`; callers check explainRejection first. */
+export async function explainJson(
+  conn: DbConnection,
+  query: string,
+  params: QueryParam[] | undefined,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const [rows] = await withPool(
+    conn,
+    async (connection, server) => {
+      const { json } = explainSyntax(server);
+      if (!json) {
+        throw new Error(
+          `${describeServer(server)} has no MySQL-compatible EXPLAIN FORMAT=JSON.`
+        );
+      }
+      if (conn.readOnly) {
+        await connection.query("SET SESSION TRANSACTION READ ONLY");
+      }
+      try {
+        const explainQuery = `${json} ${query}`;
+        return params
+          ? await connection.execute<mysql.RowDataPacket[]>(explainQuery, params)
+          : await connection.execute<mysql.RowDataPacket[]>(explainQuery);
+      } finally {
+        if (conn.readOnly) {
+          await connection.query("SET SESSION TRANSACTION READ WRITE").catch(() => {});
+        }
+      }
+    },
+    signal
+  );
+  return JSON.parse(String(Object.values(rows[0])[0]));
+}
@@ -0,0 +1,328 @@
+import mysql from "mysql2/promise";
+import type { DbConnection } from "./config.js";
+import type { QueryParam } from "./cursors.js";
+import { extractDbName } from "./helpers.js";
+import { isTableDenied, columnRule, findPolicyViolation } from "./policy.js";
+import { withPool } from "./pool.js";
+import { explainSyntax, hasGenerationExpression } from "./server-flavor.js";
+import { isSingleStatement, classifyStatement, statementNotAllowed } from "./sql.js";
+
+// ─── Introspection ───────────────────────────────────────────────
+
+/** Base tables with row estimates, engine and size; policy-denied tables are omitted. */
+export async function listTablesText(conn: DbConnection, signal?: AbortSignal): Promise<string> {
+  const dbName = extractDbName(conn);
+
+  const result = await withPool(
+    conn,
+    (connection) =>
+      connection.execute(
+        `SELECT TABLE_NAME AS table_name,
+                TABLE_ROWS AS estimated_rows,
+                ENGINE AS engine,
+                ROUND(DATA_LENGTH / 1024 / 1024, 2) AS data_size_mb
+         FROM INFORMATION_SCHEMA.TABLES
+         WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'
+         ORDER BY TABLE_NAME`,
+        [dbName]
+      ),
+    signal
+  );
+
+  const policy = conn.policy;
+  const rows = (result as [mysql.RowDataPacket[], mysql.FieldPacket[]])[0].filter(
+    (r) => !policy || !isTableDenied(policy, dbName, r.table_name)
+  );
+
+  if (rows.length === 0) {
+    return `No tables found in database "${dbName}".`;
+  }
+
+  const lines = rows.map(
+    (r) =>
+      `- ${r.table_name} (~${r.estimated_rows ?? 0} rows, ${r.engine}, ${r.data_size_mb}MB)`
+  );
+  return `Tables in "${dbName}" (${rows.length}):\n${lines.join("\n")}`;
+}
+
+/** Names of the visible base tables, for resource listing and completion. */
+export async function tableNames(conn: DbConnection, signal?: AbortSignal): Promise<string[]> {
+  const dbName = extractDbName(conn);
+  const [rows] = await withPool(
+    conn,
+    (connection) =>
+      connection.execute<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME AS table_name
+         FROM INFORMATION_SCHEMA.TABLES
+         WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'
+         ORDER BY TABLE_NAME`,
+        [dbName]
+      ),
+    signal
+  );
+  return rows
+    .map((r) => String(r.table_name))
+    .filter((t) => !conn.policy || !isTableDenied(conn.policy, dbName, t));
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  key: string;
+  extra: string;
+  /** Expression of a generated column, "" otherwise. */
+  generation: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  type: string;
+}
+
+export interface ForeignKeyInfo {
+  name: string;
+  columns: string[];
+  refSchema: string;
+  refTable: string;
+  refColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface TableSchema {
+  name: string;
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyInfo[];
+}
+
+/**
+ * Columns, indexes and foreign keys of `tables` from INFORMATION_SCHEMA, in
+ * the given order (tables without columns are skipped). Policy-denied
+ * columns are left out.
+ */
+export async function loadTableSchemas(
+  conn: DbConnection,
+  tables: string[],
+  signal?: AbortSignal
+): Promise<TableSchema[]> {
+  if (tables.length === 0) return [];
+  const dbName = extractDbName(conn);
+  const policy = conn.policy;
+  const inList = tables.map(() => "?").join(", ");
+
+  const [cols, fks, idxs] = await withPool(
+    conn,
+    async (connection, server) => {
+      const generation = hasGenerationExpression(server)
+        ? "GENERATION_EXPRESSION"
+        : "'' AS GENERATION_EXPRESSION";
+      const [c] = await connection.execute<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME, COLUMN_NAME, COLUMN_TYPE, IS_NULLABLE, COLUMN_DEFAULT,
+                COLUMN_KEY, EXTRA, ${generation}
+         FROM INFORMATION_SCHEMA.COLUMNS
+         WHERE TABLE_SCHEMA = ? AND TABLE_NAME IN (${inList})
+         ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+        [dbName, ...tables]
+      );
+
+      const [f] = await connection.execute<mysql.RowDataPacket[]>(
+        `SELECT k.TABLE_NAME, k.CONSTRAINT_NAME, k.COLUMN_NAME, k.REFERENCED_TABLE_SCHEMA,
+                k.REFERENCED_TABLE_NAME, k.REFERENCED_COLUMN_NAME,
+                r.UPDATE_RULE, r.DELETE_RULE
+         FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE k
+         JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS r
+           ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+          AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+          AND r.TABLE_NAME = k.TABLE_NAME
+         WHERE k.TABLE_SCHEMA = ? AND k.TABLE_NAME IN (${inList})
+           AND k.REFERENCED_TABLE_NAME IS NOT NULL
+         ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+        [dbName, ...tables]
+      );
+
+      const [i] = await connection.execute<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME, INDEX_NAME,
+                GROUP_CONCAT(COLUMN_NAME ORDER BY SEQ_IN_INDEX) AS columns,
+                NON_UNIQUE, INDEX_TYPE
+         FROM INFORMATION_SCHEMA.STATISTICS
+         WHERE TABLE_SCHEMA = ? AND TABLE_NAME IN (${inList})
+         GROUP BY TABLE_NAME, INDEX_NAME, NON_UNIQUE, INDEX_TYPE
+         ORDER BY TABLE_NAME, INDEX_NAME`,
+        [dbName, ...tables]
+      );
+
+      return [c, f, i];
+    },
+    signal
+  );
+
+  const byName = new Map<string, TableSchema>();
+  const schemaOf = (name: string) => {
+    let t = byName.get(name);
+    if (!t) {
+      t = { name, columns: [], indexes: [], foreignKeys: [] };
+      byName.set(name, t);
+    }
+    return t;
+  };
+
+  for (const c of cols) {
+    if (policy && columnRule(policy, c.TABLE_NAME, c.COLUMN_NAME) === "deny") continue;
+    schemaOf(c.TABLE_NAME).columns.push({
+      name: c.COLUMN_NAME,
+      type: c.COLUMN_TYPE,
+      nullable: c.IS_NULLABLE === "YES",
+      default: c.COLUMN_DEFAULT,
+      key: c.COLUMN_KEY,
+      extra: c.EXTRA ?? "",
+      generation: c.GENERATION_EXPRESSION ?? "",
+    });
+  }
+  for (const i of idxs) {
+    schemaOf(i.TABLE_NAME).indexes.push({
+      name: i.INDEX_NAME,
+      columns: String(i.columns).split(","),
+      unique: Number(i.NON_UNIQUE) === 0,
+      type: i.INDEX_TYPE,
+    });
+  }
+  for (const f of fks) {
+    const foreignKeys = schemaOf(f.TABLE_NAME).foreignKeys;
+    let fk = foreignKeys.find((k) => k.name === f.CONSTRAINT_NAME);
+    if (!fk) {
+      fk = {
+        name: f.CONSTRAINT_NAME,
+        columns: [],
+        refSchema: f.REFERENCED_TABLE_SCHEMA,
+        refTable: f.REFERENCED_TABLE_NAME,
+        refColumns: [],
+        onUpdate: f.UPDATE_RULE,
+        onDelete: f.DELETE_RULE,
+      };
+      foreignKeys.push(fk);
+    }
+    fk.columns.push(f.COLUMN_NAME);
+    fk.refColumns.push(f.REFERENCED_COLUMN_NAME);
+  }
+
+  return tables.flatMap((name) => {
+    const t = byName.get(name);
+    return t && t.columns.length > 0 ? [t] : [];
+  });
+}
+
+/** Columns, foreign keys and indexes of one table; throws if the policy denies it. */
+export async function describeTableText(
+  conn: DbConnection,
+  table: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const dbName = extractDbName(conn);
+  const policy = conn.policy;
+
+  if (policy && isTableDenied(policy, dbName, table)) {
+    throw new Error(`Access to table "${table}" is denied by policy.`);
+  }
+
+  const [schema] = await loadTableSchemas(conn, [table], signal);
+  if (!schema) {
+    return `Table "${dbName}"."${table}" not found or has no columns.`;
+  }
+
+  const fkMap = new Map<string, string>();
+  for (const fk of schema.foreignKeys) {
+    fk.columns.forEach((column, i) =>
+      fkMap.set(column, `-> ${fk.refSchema}.${fk.refTable}(${fk.refColumns[i]})`)
+    );
+  }
+
+  const colLines = schema.columns.map((col) => {
+    const parts = [`  ${col.name}: ${col.type}`];
+    if (col.key === "PRI") parts.push("[PK]");
+    if (col.key === "UNI") parts.push("[UNIQUE]");
+    if (!col.nullable) parts.push("NOT NULL");
+    if (col.default !== null) parts.push(`DEFAULT ${col.default}`);
+    if (col.extra) parts.push(col.extra);
+    if (fkMap.has(col.name)) parts.push(`[FK ${fkMap.get(col.name)}]`);
+    const rule = policy ? columnRule(policy, table, col.name) : null;
+    if (rule && rule !== "deny") parts.push(`[MASKED ${rule.strategy}]`);
+    return parts.join(" ");
+  });
+
+  let text = `Table "${dbName}"."${table}" (${schema.columns.length} columns):\n${colLines.join("\n")}`;
+
+  if (schema.indexes.length > 0) {
+    const idxLines = schema.indexes.map((idx) => {
+      const unique = idx.unique ? "UNIQUE " : "";
+      return `  ${idx.name}: ${unique}${idx.type} (${idx.columns.join(",")})`;
+    });
+    text += `\n\nIndexes (${schema.indexes.length}):\n${idxLines.join("\n")}`;
+  }
+
+  return text;
+}
+
+/** Why `query` may not be explained on `conn`, or null if it may. */
+export function explainRejection(conn: DbConnection, query: string): string | null {
+  if (!isSingleStatement(query)) return "Multi-statement queries are not allowed.";
+
+  // Block DDL in read-only mode (EXPLAIN ANALYZE on DDL would execute it)
+  const statement = classifyStatement(query);
+  if (conn.readOnly && statement.bypassesReadOnly) {
+    return `DDL/admin statements cannot be explained in read-only mode (detected: ${statement.kind}).`;
+  }
+
+  // The explained statement runs under EXPLAIN ANALYZE, so it must be allowed too
+  const notAllowed = statementNotAllowed(conn, statement.kind);
+  if (notAllowed) return notAllowed;
+
+  return conn.policy ? findPolicyViolation(conn.policy, query, extractDbName(conn)) : null;
+}
+
+/**
+ * Execution plan of `query` in the richest syntax the server supports (see
+ * explainSyntax). The analyzing forms actually execute the query, so it runs
+ * in a transaction that always rolls back. Callers check explainRejection first.
+ */
+export async function explainPlanText(
+  conn: DbConnection,
+  query: string,
+  params: QueryParam[] | undefined,
+  signal?: AbortSignal
+): Promise<string> {
+  const result = await withPool(conn, async (connection, server) => {
+    if (conn.readOnly) {
+      await connection.query("SET SESSION TRANSACTION READ ONLY");
+    }
+    await connection.beginTransaction();
+    try {
+      const syntax = explainSyntax(server);
+      const explainQuery = `${syntax.analyze ?? syntax.json ?? "EXPLAIN"} ${query}`;
+      const [rows] = params
+        ? await connection.execute<mysql.RowDataPacket[]>(explainQuery, params)
+        : await connection.execute<mysql.RowDataPacket[]>(explainQuery);
+      return rows;
+    } finally {
+      // Always rollback — an analyzing EXPLAIN may have modified data
+      await connection.rollback().catch(() => {});
+      if (conn.readOnly) {
+        await connection
+          .query("SET SESSION TRANSACTION READ WRITE")
+          .catch(() => {});
+      }
+    }
+  }, signal);
+
+  const values = result.length === 1 ? Object.values(result[0]) : [];
+  if (values.length === 1 && /^\s*\{/.test(String(values[0]))) {
+    // EXPLAIN FORMAT=JSON / MariaDB ANALYZE FORMAT=JSON result
+    return JSON.stringify(JSON.parse(String(values[0])), null, 2);
+  }
+  // EXPLAIN ANALYZE result or regular EXPLAIN
+  return result.map((r) => Object.values(r).join("\t")).join("\n");
+}
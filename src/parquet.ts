@@ -0,0 +1,262 @@
+import { cellText } from "./format.js";
+
+// ─── Parquet ─────────────────────────────────────────────────────
+
+/** Column types the Parquet writer emits; every column is OPTIONAL (nullable). */
+export type ParquetKind = "int64" | "double" | "timestamp" | "date" | "utf8" | "binary";
+
+export interface ParquetColumn {
+  name: string;
+  kind: ParquetKind;
+}
+
+type ThriftValue =
+  | { t: "i32"; v: number }
+  | { t: "i64"; v: number | bigint }
+  | { t: "binary"; v: string }
+  | { t: "list"; elem: "i32" | "binary" | "struct"; v: ThriftValue[] }
+  | { t: "struct"; v: [id: number, value: ThriftValue][] };
+
+/** Thrift compact-protocol type ids. */
+const THRIFT_TYPES = { i32: 5, i64: 6, binary: 8, list: 9, struct: 12 } as const;
+
+const i32 = (v: number): ThriftValue => ({ t: "i32", v });
+const i64 = (v: number | bigint): ThriftValue => ({ t: "i64", v });
+const struct = (...v: [number, ThriftValue][]): ThriftValue => ({ t: "struct", v });
+
+function varint(out: number[], n: bigint): void {
+  for (; n >= 0x80n; n >>= 7n) out.push(Number(n & 0x7fn) | 0x80);
+  out.push(Number(n));
+}
+
+function zigzag(n: bigint): bigint {
+  return n >= 0n ? n << 1n : ((-n) << 1n) - 1n;
+}
+
+/** Serialises Parquet metadata structs with the Thrift compact protocol. */
+function writeThrift(out: number[], value: ThriftValue): void {
+  switch (value.t) {
+    case "i32":
+    case "i64":
+      varint(out, zigzag(BigInt(value.v)));
+      break;
+    case "binary": {
+      const bytes = Buffer.from(value.v);
+      varint(out, BigInt(bytes.length));
+      for (const b of bytes) out.push(b);
+      break;
+    }
+    case "list": {
+      const size = value.v.length;
+      const elem = THRIFT_TYPES[value.elem];
+      out.push(size < 15 ? (size << 4) | elem : 0xf0 | elem);
+      if (size >= 15) varint(out, BigInt(size));
+      for (const item of value.v) writeThrift(out, item);
+      break;
+    }
+    case "struct": {
+      let last = 0;
+      for (const [id, field] of value.v) {
+        const type = THRIFT_TYPES[field.t];
+        if (id > last && id - last <= 15) out.push(((id - last) << 4) | type);
+        else {
+          out.push(type);
+          varint(out, zigzag(BigInt(id)));
+        }
+        writeThrift(out, field);
+        last = id;
+      }
+      out.push(0); // stop field
+      break;
+    }
+  }
+}
+
+function thriftBytes(value: ThriftValue): Buffer {
+  const out: number[] = [];
+  writeThrift(out, value);
+  return Buffer.from(out);
+}
+
+/** Physical type and converted (logical) type ids per column kind. */
+const PARQUET_TYPES: Record<ParquetKind, { physical: number; converted?: number }> = {
+  int64: { physical: 2 },
+  double: { physical: 5 },
+  timestamp: { physical: 2, converted: 9 }, // TIMESTAMP_MILLIS
+  date: { physical: 1, converted: 6 }, // DATE: days since the epoch
+  utf8: { physical: 6, converted: 0 },
+  binary: { physical: 6 },
+};
+
+const PARQUET_MAGIC = Buffer.from("PAR1");
+
+/** A result value as its Parquet kind, or null where it has no faithful encoding. */
+function parquetValue(kind: ParquetKind, v: unknown): number | bigint | Buffer | null {
+  if (v === null || v === undefined) return null;
+  switch (kind) {
+    case "int64":
+      if (typeof v === "bigint") return v;
+      if (typeof v === "number" && Number.isInteger(v)) return BigInt(v);
+      return typeof v === "string" && /^-?\d+$/.test(v) ? BigInt(v) : null;
+    case "double":
+      return typeof v === "number" ? v : Number.isNaN(Number(v)) ? null : Number(v);
+    case "timestamp":
+      return v instanceof Date && !isNaN(v.getTime()) ? BigInt(v.getTime()) : null;
+    case "date":
+      // DATE values arrive as local midnight
+      return v instanceof Date && !isNaN(v.getTime())
+        ? Date.UTC(v.getFullYear(), v.getMonth(), v.getDate()) / 86_400_000
+        : null;
+    case "utf8":
+      return Buffer.from(cellText(v));
+    case "binary":
+      return Buffer.isBuffer(v) ? v : Buffer.from(cellText(v));
+  }
+}
+
+/** PLAIN encoding of the non-null values of one column chunk. */
+function plainValues(kind: ParquetKind, values: (number | bigint | Buffer)[]): Buffer {
+  const physical = PARQUET_TYPES[kind].physical;
+  if (physical === 6) {
+    return Buffer.concat(
+      values.flatMap((v) => {
+        const len = Buffer.alloc(4);
+        len.writeUInt32LE((v as Buffer).length);
+        return [len, v as Buffer];
+      })
+    );
+  }
+  const width = physical === 1 ? 4 : 8;
+  const buf = Buffer.alloc(values.length * width);
+  values.forEach((v, i) => {
+    if (physical === 1) buf.writeInt32LE(v as number, i * width);
+    else if (physical === 2) buf.writeBigInt64LE(v as bigint, i * width);
+    else buf.writeDoubleLE(v as number, i * width);
+  });
+  return buf;
+}
+
+/** Definition levels (1 = present) as one bit-packed run, length-prefixed. */
+function definitionLevels(present: boolean[]): Buffer {
+  const groups = Math.ceil(present.length / 8);
+  const out: number[] = [];
+  varint(out, BigInt((groups << 1) | 1));
+  for (let g = 0; g < groups; g++) {
+    let byte = 0;
+    for (let bit = 0; bit < 8; bit++) if (present[g * 8 + bit]) byte |= 1 << bit;
+    out.push(byte);
+  }
+  const len = Buffer.alloc(4);
+  len.writeUInt32LE(out.length);
+  return Buffer.concat([len, Buffer.from(out)]);
+}
+
+/**
+ * Minimal Parquet writer: uncompressed, PLAIN-encoded, one data page per
+ * column chunk. `rowGroup` returns the bytes to append for each batch of
+ * rows; `footer` the file metadata that closes the file.
+ *
+ * It writes only this subset of the format, which any reader accepts:
+ * - format version 1 with a flat schema of OPTIONAL columns (no nesting or
+ *   repeated fields), nulls carried by bit-packed definition levels
+ * - v1 data pages without dictionaries, statistics, page indexes or bloom
+ *   filters
+ * - INT64, DOUBLE, INT32 with the DATE converted type (days since the epoch),
+ *   INT64 with TIMESTAMP_MILLIS (sub-millisecond digits are dropped) and
+ *   BYTE_ARRAY with or without UTF8
+ *
+ * There is no DECIMAL type: exact numbers (DECIMAL, unsigned BIGINT) are
+ * written as UTF8 text so no digit is lost. Values a column's kind can't
+ * hold, such as MySQL's zero dates, are written as null.
+ */
+export function createParquetWriter(columns: ParquetColumn[]): {
+  header(): Buffer;
+  rowGroup(rows: Record<string, unknown>[]): Buffer;
+  footer(): Buffer;
+} {
+  let offset = PARQUET_MAGIC.length;
+  let numRows = 0;
+  const rowGroups: ThriftValue[] = [];
+
+  return {
+    header: () => PARQUET_MAGIC,
+    rowGroup(rows) {
+      const chunks: Buffer[] = [];
+      const metas: ThriftValue[] = [];
+      for (const { name, kind } of columns) {
+        const values = rows.map((r) => parquetValue(kind, r[name]));
+        const present = values.filter((v) => v !== null);
+        const body = Buffer.concat([
+          definitionLevels(values.map((v) => v !== null)),
+          plainValues(kind, present),
+        ]);
+        const header = thriftBytes(
+          struct(
+            [1, i32(0)], // DATA_PAGE
+            [2, i32(body.length)],
+            [3, i32(body.length)],
+            [5, struct([1, i32(rows.length)], [2, i32(0)], [3, i32(3)], [4, i32(3)])]
+          )
+        );
+        const size = header.length + body.length;
+        metas.push(
+          struct(
+            [2, i64(offset)],
+            [
+              3,
+              struct(
+                [1, i32(PARQUET_TYPES[kind].physical)],
+                [2, { t: "list", elem: "i32", v: [i32(0), i32(3)] }], // PLAIN, RLE
+                [3, { t: "list", elem: "binary", v: [{ t: "binary", v: name }] }],
+                [4, i32(0)], // UNCOMPRESSED
+                [5, i64(rows.length)],
+                [6, i64(size)],
+                [7, i64(size)],
+                [9, i64(offset)]
+              ),
+            ]
+          )
+        );
+        chunks.push(header, body);
+        offset += size;
+      }
+      const bytes = Buffer.concat(chunks);
+      rowGroups.push(
+        struct(
+          [1, { t: "list", elem: "struct", v: metas }],
+          [2, i64(bytes.length)],
+          [3, i64(rows.length)]
+        )
+      );
+      numRows += rows.length;
+      return bytes;
+    },
+    footer() {
+      const schema: ThriftValue[] = [
+        struct([4, { t: "binary", v: "schema" }], [5, i32(columns.length)]),
+        ...columns.map(({ name, kind }) => {
+          const { physical, converted } = PARQUET_TYPES[kind];
+          const fields: [number, ThriftValue][] = [
+            [1, i32(physical)],
+            [3, i32(1)], // OPTIONAL
+            [4, { t: "binary", v: name }],
+          ];
+          if (converted !== undefined) fields.push([6, i32(converted)]);
+          return struct(...fields);
+        }),
+      ];
+      const meta = thriftBytes(
+        struct(
+          [1, i32(1)],
+          [2, { t: "list", elem: "struct", v: schema }],
+          [3, i64(numRows)],
+          [4, { t: "list", elem: "struct", v: rowGroups }],
+          [6, { t: "binary", v: "mcp-mysql" }]
+        )
+      );
+      const len = Buffer.alloc(4);
+      len.writeUInt32LE(meta.length);
+      return Buffer.concat([meta, len, PARQUET_MAGIC]);
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import mysql from "mysql2/promise";
+import { createHash } from "crypto";
+import type { MaskRule, AccessPolicy } from "./config.js";
+import { cellText } from "./format.js";
+import { globToRegExp } from "./helpers.js";
+import { type SqlToken, tokenizeSql, isWord, isPunct, classifyStatement } from "./sql.js";
+
+// ─── Access Policy ───────────────────────────────────────────────
+
+const REDACTED = "[REDACTED]";
+
+/** Splits "schema.table" / "table.column" patterns; a missing qualifier is null. */
+function splitQualified(pattern: string): [string | null, string] {
+  const dot = pattern.lastIndexOf(".");
+  return dot === -1 ? [null, pattern] : [pattern.slice(0, dot), pattern.slice(dot + 1)];
+}
+
+/** `table` patterns match in any schema; `schema.table` only in that schema. */
+export function isTableDenied(
+  policy: AccessPolicy,
+  schema: string | null | undefined,
+  table: string
+): boolean {
+  return policy.deniedTables.some((pattern) => {
+    const [s, t] = splitQualified(pattern);
+    if (!globToRegExp(t).test(table)) return false;
+    return s === null || (!!schema && globToRegExp(s).test(schema));
+  });
+}
+
+/** A null `table` (origin unknown) matches table-qualified patterns for any table. */
+function columnPatternMatches(pattern: string, table: string | null, column: string): boolean {
+  const [t, c] = splitQualified(pattern);
+  return (
+    globToRegExp(c).test(column) && (t === null || table === null || globToRegExp(t).test(table))
+  );
+}
+
+/** "deny", the first matching mask rule, or null when the column is unrestricted. */
+export function columnRule(
+  policy: AccessPolicy,
+  table: string | null,
+  column: string
+): "deny" | MaskRule | null {
+  if (policy.deniedColumns.some((p) => columnPatternMatches(p, table, column))) {
+    return "deny";
+  }
+  return policy.masks.find((m) => columnPatternMatches(m.column, table, column)) ?? null;
+}
+
+/** Identifier chains such as `a`, `a.b`, `` `s`.`t`.c `` in token order. */
+function identifierChains(tokens: SqlToken[]): string[][] {
+  const chains: string[][] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const t = tokens[i];
+    if (t.type !== "word" && t.type !== "ident") {
+      i++;
+      continue;
+    }
+    const chain = [t.value];
+    i++;
+    while (
+      isPunct(tokens[i], ".") &&
+      (tokens[i + 1]?.type === "word" || tokens[i + 1]?.type === "ident")
+    ) {
+      chain.push(tokens[i + 1].value);
+      i += 2;
+    }
+    chains.push(chain);
+  }
+  return chains;
+}
+
+/**
+ * True if a column pattern ("table.column" or "column") is referenced:
+ * the column name appears as an identifier and, for qualified patterns, the
+ * table name appears somewhere in the statement too (aliases make exact
+ * attribution impossible, so this errs on the side of matching).
+ */
+function columnReferenced(pattern: string, chains: string[][]): boolean {
+  const [t, c] = splitQualified(pattern);
+  const columnRe = globToRegExp(c);
+  if (!chains.some((chain) => columnRe.test(chain[chain.length - 1]))) return false;
+  if (t === null) return true;
+  const tableRe = globToRegExp(t);
+  return chains.some((chain) => chain.some((part) => tableRe.test(part)));
+}
+
+/**
+ * Checks a statement against the policy before it runs. Every identifier is
+ * treated as a potential table reference, so a denied table name used as a
+ * column or alias is rejected as well. PREPARE/EXECUTE are refused outright:
+ * the prepared SQL may come from a user variable the check can't see.
+ * Returns an error message or null.
+ */
+export function findPolicyViolation(
+  policy: AccessPolicy,
+  sql: string,
+  defaultSchema?: string
+): string | null {
+  const { kind } = classifyStatement(sql);
+  if (kind === "PREPARE" || kind === "EXECUTE") {
+    return `${kind} is not allowed on connections with an access policy: the prepared SQL can't be checked against it.`;
+  }
+  const chains = identifierChains(tokenizeSql(sql));
+  for (const chain of chains) {
+    // `a` alone is a table; `a.b` / `a.b.c` is schema.table or table.column
+    const [a, b] = chain;
+    const denied =
+      isTableDenied(policy, defaultSchema, a) ||
+      (b !== undefined && isTableDenied(policy, a, b));
+    if (denied) {
+      return `Access to table "${chain.slice(0, Math.min(chain.length, 2)).join(".")}" is denied by policy.`;
+    }
+  }
+  const column = policy.deniedColumns.find((p) => columnReferenced(p, chains));
+  return column ? `Access to column "${column}" is denied by policy.` : null;
+}
+
+/** True if the statement mentions a masked column (see columnReferenced). */
+export function referencesMaskedColumn(policy: AccessPolicy, sql: string): boolean {
+  if (policy.masks.length === 0) return false;
+  const chains = identifierChains(tokenizeSql(sql));
+  return policy.masks.some((m) => columnReferenced(m.column, chains));
+}
+
+function partialMask(text: string, keepStart: number, keepEnd: number): string {
+  if (text.length <= keepStart + keepEnd) return "***";
+  return `${text.slice(0, keepStart)}***${keepEnd ? text.slice(-keepEnd) : ""}`;
+}
+
+/** Applies a mask rule to a single value; NULL stays NULL. */
+export function maskValue(value: unknown, rule: MaskRule): unknown {
+  if (value === null || value === undefined) return value;
+  const text = cellText(value);
+  switch (rule.strategy) {
+    case "redact":
+      return REDACTED;
+    case "hash":
+      return createHash("sha256").update(text).digest("hex").slice(0, 16);
+    case "partial": {
+      const at = text.lastIndexOf("@");
+      if (at > 0) {
+        return `${partialMask(text.slice(0, at), rule.keepStart, rule.keepEnd)}${text.slice(at)}`;
+      }
+      return partialMask(text, rule.keepStart, rule.keepEnd);
+    }
+  }
+}
+
+/**
+ * True if result columns may not report their real origin: UNION-style
+ * results carry the first branch's metadata, and derived tables and CTEs
+ * report their own alias as the table.
+ */
+function hasIndirectColumns(sql: string): boolean {
+  const tokens = tokenizeSql(sql);
+  return tokens.some(
+    (t, i) =>
+      isWord(t, "WITH", "UNION", "INTERSECT", "EXCEPT") ||
+      (isPunct(t, "(") &&
+        isWord(tokens[i + 1], "SELECT", "WITH", "VALUES", "TABLE") &&
+        (isWord(tokens[i - 1], "FROM", "JOIN") || isPunct(tokens[i - 1], ",")))
+  );
+}
+
+/**
+ * Drops denied columns and masks values using each field's originating
+ * table/column. This fails closed where the origin can't be trusted:
+ *
+ * - Expressions, derived tables, CTEs and UNIONs. Their fields are matched
+ *   on column name alone, so `users.email` also covers an `email` column
+ *   read through `(SELECT email FROM users) t`.
+ * - Fields matching no rule, when `sql` mentions a masked column. These are
+ *   redacted, so that e.g. `UPPER(email)` doesn't bypass the mask.
+ *
+ * Views report the view as their origin table, so rules must name views
+ * explicitly.
+ */
+export function applyPolicyToRows(
+  policy: AccessPolicy,
+  fields: Pick<mysql.FieldPacket, "name" | "db" | "orgTable" | "orgName">[],
+  rows: Record<string, unknown>[],
+  sql: string
+): { columns: string[]; rows: Record<string, unknown>[] } {
+  const plan = policyPlan(policy, fields, sql);
+  return {
+    columns: plan.map((p) => p.name),
+    rows: rows.map((row) => {
+      const out: Record<string, unknown> = {};
+      for (const { name, rule } of plan) {
+        out[name] = rule ? maskValue(row[name], rule) : row[name];
+      }
+      return out;
+    }),
+  };
+}
+
+/** Visible fields with their mask rule (null when unmasked); see applyPolicyToRows. */
+export function policyPlan(
+  policy: AccessPolicy,
+  fields: Pick<mysql.FieldPacket, "name" | "db" | "orgTable" | "orgName">[],
+  sql: string
+): { name: string; rule: MaskRule | null }[] {
+  const redactRule: MaskRule = { column: "*", strategy: "redact", keepStart: 0, keepEnd: 0 };
+  const redactUnresolved = referencesMaskedColumn(policy, sql);
+  const indirect = hasIndirectColumns(sql);
+  const plan: { name: string; rule: MaskRule | null }[] = [];
+  for (const f of fields) {
+    let rule: "deny" | MaskRule | null;
+    if (!indirect && f.orgName && f.orgTable && f.db) {
+      rule = columnRule(policy, f.orgTable, f.orgName);
+    } else {
+      rule =
+        (f.orgName ? columnRule(policy, null, f.orgName) : null) ??
+        columnRule(policy, null, f.name) ??
+        (redactUnresolved ? redactRule : null);
+    }
+    if (rule !== "deny") plan.push({ name: f.name, rule });
+  }
+  return plan;
+}
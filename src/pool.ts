@@ -0,0 +1,324 @@
+import mysql from "mysql2/promise";
+import { type DbConnection, onConfigLoad } from "./config.js";
+import {
+  type ServerInfo,
+  sessionTimeoutStatement,
+  detectServer,
+} from "./server-flavor.js";
+import { type SshTunnel, createSshTunnel } from "./ssh.js";
+
+// ─── Connection Pool Management ──────────────────────────────────
+
+interface PoolEntry {
+  pool: mysql.Pool;
+  hash: string;
+  tunnel?: SshTunnel;
+  /** Detected on the pool's first connection; see prepareSession. */
+  server?: Promise<ServerInfo>;
+  /** `server` once resolved, for callers that must not connect. */
+  serverInfo?: ServerInfo;
+}
+
+const pools = new Map<string, PoolEntry>();
+
+export function connHash(c: DbConnection): string {
+  return JSON.stringify({
+    h: c.host,
+    p: c.port,
+    u: c.user,
+    pw: c.password,
+    d: c.database,
+    url: c.url,
+    ssl: c.ssl,
+    ssh: c.ssh,
+    ps: c.poolSize,
+    ct: c.connectTimeoutMs,
+    qt: c.queryTimeoutMs,
+  });
+}
+
+/** Ends the pool first so its connections close before the tunnel goes away. */
+async function closePoolEntry(entry: PoolEntry): Promise<void> {
+  try {
+    await entry.pool.end();
+  } finally {
+    entry.tunnel?.close();
+  }
+}
+
+/** Options shared by the pool and one-off connections (e.g. for KILL QUERY). */
+function connectionOptions(
+  conn: DbConnection,
+  tunnel?: SshTunnel
+): mysql.ConnectionOptions {
+  const cfg: mysql.ConnectionOptions = {
+    connectTimeout: conn.connectTimeoutMs,
+    enableKeepAlive: true,
+  };
+
+  if (conn.url) {
+    cfg.uri = conn.url;
+  } else {
+    cfg.host = conn.host;
+    cfg.port = conn.port;
+    cfg.user = conn.user;
+    cfg.password = conn.password;
+    cfg.database = conn.database;
+  }
+
+  if (conn.ssl) {
+    cfg.ssl = conn.ssl === true ? {} : conn.ssl;
+  }
+
+  if (tunnel) {
+    cfg.stream = () => tunnel.connect();
+  }
+
+  return cfg;
+}
+
+export function getOrCreatePool(conn: DbConnection): PoolEntry {
+  const hash = connHash(conn);
+  const existing = pools.get(conn.label);
+  if (existing && existing.hash === hash) return existing;
+
+  // Config changed — close old pool
+  if (existing) {
+    closePoolEntry(existing).catch((e) =>
+      console.error(`Pool close error (${conn.label}):`, e)
+    );
+  }
+
+  const tunnel = conn.ssh ? createSshTunnel(conn.label, conn) : undefined;
+  const pool = mysql.createPool({
+    ...connectionOptions(conn, tunnel),
+    waitForConnections: true,
+    connectionLimit: conn.poolSize,
+    idleTimeout: 60_000,
+  });
+  const entry: PoolEntry = { pool, hash, tunnel };
+  pools.set(conn.label, entry);
+  return entry;
+}
+
+export async function drainAllPools(): Promise<void> {
+  const tasks = [...pools.values()].map((e) => closePoolEntry(e).catch(() => {}));
+  pools.clear();
+  await Promise.all(tasks);
+}
+
+// ─── Session Setup ───────────────────────────────────────────────
+
+/** Physical connections whose session settings have been applied. */
+const preparedSessions = new WeakSet<object>();
+
+/**
+ * Detects the server once per pool and applies per-session settings (the
+ * server-side timeout) before a connection's first statement.
+ */
+export async function prepareSession(
+  conn: DbConnection,
+  entry: PoolEntry,
+  connection: mysql.PoolConnection
+): Promise<ServerInfo> {
+  if (!entry.server) {
+    const detection = detectServer(connection);
+    entry.server = detection;
+    detection.then(
+      (info) => (entry.serverInfo = info),
+      () => {
+        // Retry on the next connection
+        if (entry.server === detection) entry.server = undefined;
+      }
+    );
+  }
+  const info = await entry.server;
+  const session = connection.connection as object;
+  if (!preparedSessions.has(session)) {
+    const statement = sessionTimeoutStatement(info, conn.queryTimeoutMs);
+    if (statement) await connection.query(statement).catch(() => {});
+    preparedSessions.add(session);
+  }
+  return info;
+}
+
+/** Detected flavor and version without connecting, if a pool has connected before. */
+export function knownServerInfo(conn: DbConnection): ServerInfo | undefined {
+  const entry = pools.get(conn.label);
+  return entry?.hash === connHash(conn) ? entry.serverInfo : undefined;
+}
+
+// ─── Query Limits & Cancellation ─────────────────────────────────
+
+interface QuerySlots {
+  active: number;
+  /** Queued acquirers; a released slot is handed straight to the first one. */
+  waiting: (() => void)[];
+}
+
+const querySlots = new Map<string, QuerySlots>();
+
+export function queryError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+function cancelledError(): Error {
+  return queryError("Query cancelled by client", "QUERY_CANCELLED");
+}
+
+/** Waits for a slot under maxConcurrentQueries; resolves to its release function. */
+export async function acquireQuerySlot(
+  conn: DbConnection,
+  signal?: AbortSignal
+): Promise<() => void> {
+  const limit = conn.maxConcurrentQueries;
+  if (!limit) return () => {};
+
+  let slots = querySlots.get(conn.label);
+  if (!slots) {
+    slots = { active: 0, waiting: [] };
+    querySlots.set(conn.label, slots);
+  }
+  const queue = slots;
+
+  if (queue.active < limit) {
+    queue.active++;
+  } else {
+    await new Promise<void>((resolveSlot, reject) => {
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolveSlot();
+      };
+      const onAbort = () => {
+        queue.waiting.splice(queue.waiting.indexOf(grant), 1);
+        reject(cancelledError());
+      };
+      queue.waiting.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const next = queue.waiting.shift();
+    if (next) next();
+    else queue.active--;
+  };
+}
+
+// Slots follow reloads: a raised limit admits queued calls at once, and a
+// removed limit or connection lets its queue through and forgets the label
+onConfigLoad((config) => {
+  for (const [label, slots] of querySlots) {
+    const limit = config.connections.find((c) => c.label === label)?.maxConcurrentQueries;
+    if (!limit) querySlots.delete(label);
+    while (slots.waiting.length > 0 && (!limit || slots.active < limit)) {
+      slots.active++;
+      slots.waiting.shift()?.();
+    }
+  }
+});
+
+/** Issues KILL QUERY over a separate connection, since the pool may be saturated. */
+async function killQuery(conn: DbConnection, threadId: number): Promise<void> {
+  const killer = await mysql.createConnection(
+    connectionOptions(conn, pools.get(conn.label)?.tunnel)
+  );
+  try {
+    await killer.query(`KILL QUERY ${Number(threadId)}`);
+  } finally {
+    await killer.end().catch(() => killer.destroy());
+  }
+}
+
+/**
+ * Runs `fn` on a pooled connection within the connection's concurrency limit,
+ * passing it the detected server flavor and version. If it outlives
+ * `timeoutMs` (queryTimeoutMs unless given; 0 = no limit) or `signal`
+ * aborts, the running statement is killed server-side and the connection
+ * discarded instead of returned.
+ */
+export async function withPool<T>(
+  conn: DbConnection,
+  fn: (connection: mysql.PoolConnection, server: ServerInfo) => Promise<T>,
+  signal?: AbortSignal,
+  timeoutMs = conn.queryTimeoutMs
+): Promise<T> {
+  if (signal?.aborted) throw cancelledError();
+  const releaseSlot = await acquireQuerySlot(conn, signal);
+  try {
+    const entry = getOrCreatePool(conn);
+    const connection = await entry.pool.getConnection();
+    const run = async () => {
+      const server = await prepareSession(conn, entry, connection);
+      if (timeoutMs === conn.queryTimeoutMs) return fn(connection, server);
+      // The server-side limit set by prepareSession would cut the work short
+      const override = sessionTimeoutStatement(server, timeoutMs);
+      if (override) await connection.query(override);
+      try {
+        return await fn(connection, server);
+      } finally {
+        const restore = sessionTimeoutStatement(server, conn.queryTimeoutMs);
+        if (override && restore) await connection.query(restore).catch(() => {});
+      }
+    };
+    return await interruptible(
+      conn,
+      connection,
+      run,
+      signal,
+      // An interrupted connection may still be unwinding the killed statement
+      (interrupted) => (interrupted ? connection.destroy() : connection.release()),
+      timeoutMs
+    );
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Runs `run` on `connection`, killing its statement server-side and
+ * rejecting once `timeoutMs` passes (0 = never) or `signal` aborts.
+ * `settle` is told afterwards whether that happened.
+ */
+export async function interruptible<T>(
+  conn: DbConnection,
+  connection: mysql.PoolConnection,
+  run: () => Promise<T>,
+  signal: AbortSignal | undefined,
+  settle: (interrupted: boolean) => void,
+  timeoutMs = conn.queryTimeoutMs
+): Promise<T> {
+  let interrupted = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const interruption = new Promise<never>((_, reject) => {
+    const interrupt = (error: Error) => {
+      if (interrupted) return;
+      interrupted = true;
+      killQuery(conn, connection.threadId).catch((e) =>
+        console.error(`KILL QUERY failed (${conn.label}):`, e.message)
+      );
+      reject(error);
+    };
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () => interrupt(queryError(`Query timed out after ${timeoutMs}ms`, "QUERY_TIMEOUT")),
+        timeoutMs
+      );
+    }
+    onAbort = () => interrupt(cancelledError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([run(), interruption]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+    settle(interrupted);
+  }
+}
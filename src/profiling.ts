@@ -0,0 +1,262 @@
+import mysql from "mysql2/promise";
+import type { DbConnection } from "./config.js";
+import { cellText } from "./format.js";
+import { quoteIdent, extractDbName } from "./helpers.js";
+import type { TableSchema } from "./introspection.js";
+import { withPool } from "./pool.js";
+
+// ─── Table Profiling ─────────────────────────────────────────────
+
+/** Large tables are sampled as this many random primary-key windows. */
+const SAMPLE_RANGES = 10;
+
+/** TEXT/BLOB/JSON values are cut to this many characters when profiling. */
+const PROFILE_VALUE_CHARS = 256;
+export const LONG_TYPE_RE = /text|blob|json/i;
+
+/** Alias under which the full length of a truncated long column is fetched. */
+export function lengthAlias(column: string): string {
+  return `${column}#length`;
+}
+
+export interface ColumnProfile {
+  count: number;
+  nulls: number;
+  /** Distinct non-null values among the profiled rows. */
+  distinct: number;
+  min?: unknown;
+  max?: unknown;
+  /** Most frequent non-null values with their counts, most frequent first. */
+  top: [unknown, number][];
+  /** Character lengths of string values. */
+  lengths?: { min: number; p50: number; p90: number; max: number; avg: number };
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  const x = cellText(a);
+  const y = cellText(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Statistics of one column over the profiled rows. `lengths` overrides the
+ * string lengths when values were truncated before profiling.
+ */
+export function profileColumn(
+  values: unknown[],
+  topN: number,
+  lengths?: (number | null)[]
+): ColumnProfile {
+  const present = values.filter((v) => v !== null && v !== undefined);
+  const counts = new Map<string, { value: unknown; count: number }>();
+  let min: unknown;
+  let max: unknown;
+  for (const v of present) {
+    const key = cellText(v);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value: v, count: 1 });
+    if (min === undefined || compareValues(v, min) < 0) min = v;
+    if (max === undefined || compareValues(v, max) > 0) max = v;
+  }
+
+  const profile: ColumnProfile = {
+    count: values.length,
+    nulls: values.length - present.length,
+    distinct: counts.size,
+    min,
+    max,
+    top: [...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, topN)
+      .map((e) => [e.value, e.count]),
+  };
+
+  const strings = present.filter((v): v is string => typeof v === "string");
+  const sorted = (
+    lengths
+      ? lengths.filter((n): n is number => n !== null && n !== undefined).map(Number)
+      : strings.map((v) => [...v].length)
+  ).sort((a, b) => a - b);
+  if (sorted.length > 0) {
+    profile.lengths = {
+      min: sorted[0],
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      max: sorted[sorted.length - 1],
+      avg: sorted.reduce((sum, n) => sum + n, 0) / sorted.length,
+    };
+  }
+  return profile;
+}
+
+function profileValue(v: unknown): string {
+  const text = cellText(v);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "0%" : `${((part / whole) * 100).toFixed(1)}%`;
+}
+
+/**
+ * One line per column. `cardinality` is the index-statistics estimate for
+ * the whole table, preferred over the sample's distinct count when known.
+ */
+export function formatColumnProfile(
+  name: string,
+  type: string,
+  profile: ColumnProfile,
+  cardinality?: number
+): string {
+  const parts = [`nulls ${percent(profile.nulls, profile.count)}`];
+  parts.push(
+    cardinality !== undefined
+      ? `distinct ~${cardinality} (index)`
+      : `distinct ${profile.distinct} (sample)`
+  );
+  if (profile.min !== undefined) {
+    parts.push(`min ${profileValue(profile.min)}`, `max ${profileValue(profile.max)}`);
+  }
+  const present = profile.count - profile.nulls;
+  // Top values of a (nearly) unique column carry no information
+  if (profile.top.length > 0 && profile.distinct < present) {
+    const top = profile.top.map(
+      ([v, n]) => `${profileValue(v)} (${percent(n, present)})`
+    );
+    parts.push(`top: ${top.join(", ")}`);
+  }
+  if (profile.lengths) {
+    const l = profile.lengths;
+    parts.push(
+      `length min ${l.min} / p50 ${l.p50} / p90 ${l.p90} / max ${l.max} ` +
+        `(avg ${l.avg.toFixed(1)})`
+    );
+  }
+  return `- ${name} ${type}: ${parts.join("; ")}`;
+}
+
+interface TableSample {
+  rows: mysql.RowDataPacket[];
+  /** INFORMATION_SCHEMA.TABLES estimate; may be far off for InnoDB. */
+  estimatedRows: number;
+  method: string;
+  cardinality: Map<string, number>;
+}
+
+/**
+ * Reads at most `budget` rows. Tables estimated above the budget with an
+ * integer primary key are read as random primary-key windows (index range
+ * scans); others are read up to the budget in storage order. Never uses
+ * ORDER BY RAND(), which would scan and sort the whole table. Long values
+ * are truncated, with their full length under lengthAlias().
+ */
+export async function sampleTable(
+  conn: DbConnection,
+  schema: TableSchema,
+  budget: number,
+  signal?: AbortSignal
+): Promise<TableSample> {
+  const dbName = extractDbName(conn);
+  const table = quoteIdent(schema.name);
+  const selectList = schema.columns.flatMap((c) => {
+    const col = quoteIdent(c.name);
+    if (!LONG_TYPE_RE.test(c.type)) return [col];
+    return [
+      `LEFT(${col}, ${PROFILE_VALUE_CHARS}) AS ${col}`,
+      `CHAR_LENGTH(${col}) AS ${quoteIdent(lengthAlias(c.name))}`,
+    ];
+  });
+  const select = `SELECT ${selectList.join(", ")} FROM ${table}`;
+  const primary = schema.indexes.find((idx) => idx.name === "PRIMARY");
+  const pkColumn =
+    primary?.columns.length === 1
+      ? schema.columns.find((c) => c.name === primary.columns[0] && /int\b/i.test(c.type))
+      : undefined;
+
+  return withPool(
+    conn,
+    async (connection) => {
+      if (conn.readOnly) {
+        await connection.query("SET SESSION TRANSACTION READ ONLY");
+      }
+      try {
+        const [[stats]] = await connection.execute<mysql.RowDataPacket[]>(
+          `SELECT TABLE_ROWS FROM INFORMATION_SCHEMA.TABLES
+           WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+          [dbName, schema.name]
+        );
+        const estimatedRows = Number(stats?.TABLE_ROWS ?? 0);
+
+        const [indexStats] = await connection.execute<mysql.RowDataPacket[]>(
+          `SELECT COLUMN_NAME, MAX(CARDINALITY) AS cardinality
+           FROM INFORMATION_SCHEMA.STATISTICS
+           WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND SEQ_IN_INDEX = 1
+             AND CARDINALITY IS NOT NULL
+           GROUP BY COLUMN_NAME`,
+          [dbName, schema.name]
+        );
+        const cardinality = new Map(
+          indexStats.map((r) => [String(r.COLUMN_NAME), Number(r.cardinality)])
+        );
+
+        if (!pkColumn || estimatedRows <= budget) {
+          const [rows] = await connection.query<mysql.RowDataPacket[]>(
+            `${select} LIMIT ${budget}`
+          );
+          const method =
+            rows.length < budget ? "all rows" : `first ${rows.length} rows in storage order`;
+          return { rows, estimatedRows, method, cardinality };
+        }
+
+        const pk = quoteIdent(pkColumn.name);
+        const [[range]] = await connection.query<mysql.RowDataPacket[]>(
+          `SELECT MIN(${pk}) AS lo, MAX(${pk}) AS hi FROM ${table}`
+        );
+        const lo = Number(range.lo);
+        const hi = Number(range.hi);
+        const perRange = Math.ceil(budget / SAMPLE_RANGES);
+        const seen = new Set<string>();
+        const rows: mysql.RowDataPacket[] = [];
+        for (let i = 0; i < SAMPLE_RANGES; i++) {
+          const start = Math.floor(lo + Math.random() * (hi - lo + 1));
+          const [chunk] = await connection.query<mysql.RowDataPacket[]>(
+            `${select} WHERE ${pk} >= ? ORDER BY ${pk} LIMIT ${perRange}`,
+            [start]
+          );
+          for (const row of chunk) {
+            const key = String(row[pkColumn.name]);
+            if (!seen.has(key)) {
+              seen.add(key);
+              rows.push(row);
+            }
+          }
+        }
+        const method = `${rows.length} rows from ${SAMPLE_RANGES} random primary-key ranges`;
+        return { rows, estimatedRows, method, cardinality };
+      } finally {
+        if (conn.readOnly) {
+          await connection.query("SET SESSION TRANSACTION READ WRITE").catch(() => {});
+        }
+      }
+    },
+    signal
+  );
+}
+
+/** Random subset of `n` items (partial Fisher–Yates). */
+export function pickRandom<T>(items: T[], n: number): T[] {
+  const copy = [...items];
+  const count = Math.min(n, copy.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (copy.length - i));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy.slice(0, count);
+}
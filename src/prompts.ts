@@ -0,0 +1,105 @@
+import {
+  McpServer,
+  type RegisteredPrompt,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { DbConnection, CustomPrompt } from "./config.js";
+import { tableNames, describeTableText } from "./introspection.js";
+import { tokenizeSql } from "./sql.js";
+
+// ─── Prompts ─────────────────────────────────────────────────────
+
+const BUILTIN_PROMPTS = ["optimize_query", "explain_table", "write_report_query"];
+
+/** Table definitions pre-loaded into a prompt are capped at this many tables. */
+const MAX_PROMPT_TABLES = 10;
+
+/** Replaces `{{name}}` placeholders; unknown or missing arguments become "". */
+export function renderPromptTemplate(
+  template: string,
+  args: Record<string, string | undefined>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => args[name] ?? "");
+}
+
+export function promptResult(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+/** Context for a prompt; failures are reported inline rather than failing the prompt. */
+export async function promptContext(load: () => Promise<string>): Promise<string> {
+  try {
+    return await load();
+  } catch (e) {
+    return `(unavailable: ${e instanceof Error ? e.message : String(e)})`;
+  }
+}
+
+/** Visible tables whose names appear as identifiers in `sql`. */
+export async function referencedTables(
+  conn: DbConnection,
+  sql: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const identifiers = new Set(
+    tokenizeSql(sql)
+      .filter((t) => t.type === "word" || t.type === "ident")
+      .map((t) => t.value.toLowerCase())
+  );
+  const names = await tableNames(conn, signal);
+  return names.filter((name) => identifiers.has(name.toLowerCase()));
+}
+
+export async function tableDefinitions(
+  conn: DbConnection,
+  tables: string[],
+  signal?: AbortSignal
+): Promise<string> {
+  if (tables.length === 0) return "(no tables found)";
+  const shown = tables.slice(0, MAX_PROMPT_TABLES);
+  const blocks = [];
+  for (const table of shown) {
+    blocks.push(await promptContext(() => describeTableText(conn, table, signal)));
+  }
+  if (tables.length > shown.length) {
+    blocks.push(`(${tables.length - shown.length} more tables omitted)`);
+  }
+  return blocks.join("\n\n");
+}
+
+/** Prompts from the config file currently registered on each server. */
+const customPromptRegistry = new WeakMap<McpServer, RegisteredPrompt[]>();
+
+/** (Re-)registers config-defined prompts; clients are notified of the change. */
+export function syncCustomPrompts(server: McpServer, prompts: CustomPrompt[]): void {
+  for (const registered of customPromptRegistry.get(server) ?? []) registered.remove();
+  const registered: RegisteredPrompt[] = [];
+  for (const prompt of prompts) {
+    if (BUILTIN_PROMPTS.includes(prompt.name)) {
+      console.error(
+        `Warning: custom prompt "${prompt.name}" shadows a built-in prompt — skipped`
+      );
+      continue;
+    }
+    const argsSchema = Object.fromEntries(
+      prompt.arguments.map((arg) => {
+        const schema = arg.required ? z.string() : z.string().optional();
+        return [arg.name, arg.description ? schema.describe(arg.description) : schema];
+      })
+    );
+    try {
+      registered.push(
+        server.registerPrompt(
+          prompt.name,
+          { description: prompt.description, argsSchema },
+          (args: Record<string, string | undefined>) =>
+            promptResult(renderPromptTemplate(prompt.template, args))
+        )
+      );
+    } catch (e) {
+      console.error(`Warning: custom prompt "${prompt.name}" not registered:`, e);
+    }
+  }
+  customPromptRegistry.set(server, registered);
+}
@@ -0,0 +1,97 @@
+import type { DbConnection } from "./config.js";
+import type { QueryParam, StreamedResult } from "./cursors.js";
+import { connHash } from "./pool.js";
+import { tokenizeSql } from "./sql.js";
+
+// ─── Result Cache ────────────────────────────────────────────────
+
+interface CachedResult {
+  result: StreamedResult;
+  bytes: number;
+  storedAt: number;
+}
+
+interface LabelCache {
+  /** connHash the entries were fetched with; a different hash invalidates them. */
+  hash: string;
+  bytes: number;
+  /** Insertion order doubles as LRU order (hits are re-inserted). */
+  entries: Map<string, CachedResult>;
+}
+
+const resultCaches = new Map<string, LabelCache>();
+
+/** SQL with comments and whitespace differences removed, for cache keys. */
+export function normalizeSql(sql: string): string {
+  return tokenizeSql(sql)
+    .map((t) => sql.slice(t.start, t.end))
+    .join(" ");
+}
+
+export function resultCacheKey(
+  sql: string,
+  params: QueryParam[] | undefined,
+  offset: number,
+  pageSize: number
+): string {
+  return JSON.stringify([normalizeSql(sql), params ?? [], offset, pageSize]);
+}
+
+function labelCache(conn: DbConnection): LabelCache {
+  const hash = connHash(conn);
+  let cache = resultCaches.get(conn.label);
+  if (!cache || cache.hash !== hash) {
+    cache = { hash, bytes: 0, entries: new Map() };
+    resultCaches.set(conn.label, cache);
+  }
+  return cache;
+}
+
+function evictCached(cache: LabelCache, key: string): void {
+  const entry = cache.entries.get(key);
+  if (!entry) return;
+  cache.bytes -= entry.bytes;
+  cache.entries.delete(key);
+}
+
+export function getCachedResult(conn: DbConnection, key: string): CachedResult | null {
+  if (!conn.cache) return null;
+  const cache = labelCache(conn);
+  const entry = cache.entries.get(key);
+  if (!entry) return null;
+  if (Date.now() - entry.storedAt > conn.cache.ttlSeconds * 1000) {
+    evictCached(cache, key);
+    return null;
+  }
+  cache.entries.delete(key);
+  cache.entries.set(key, entry);
+  return entry;
+}
+
+/** Stores a result, evicting least recently used entries to stay within maxMb. */
+export function storeCachedResult(
+  conn: DbConnection,
+  key: string,
+  result: StreamedResult
+): void {
+  if (!conn.cache) return;
+  const budget = conn.cache.maxMb * 1024 * 1024;
+  const bytes = key.length + Buffer.byteLength(JSON.stringify(result.rows));
+  const cache = labelCache(conn);
+  evictCached(cache, key);
+  if (bytes > budget) return;
+  for (const oldest of cache.entries.keys()) {
+    if (cache.bytes + bytes <= budget) break;
+    evictCached(cache, oldest);
+  }
+  cache.entries.set(key, { result, bytes, storedAt: Date.now() });
+  cache.bytes += bytes;
+}
+
+/** Drops caches of removed connections and of those whose connHash changed. */
+export function pruneResultCaches(connections: DbConnection[]): void {
+  for (const [label, cache] of resultCaches) {
+    const conn = connections.find((c) => c.label === label);
+    if (!conn || !conn.cache || connHash(conn) !== cache.hash) resultCaches.delete(label);
+  }
+}
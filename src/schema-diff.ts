@@ -0,0 +1,241 @@
+import { quoteIdent } from "./helpers.js";
+import type {
+  ColumnInfo,
+  IndexInfo,
+  ForeignKeyInfo,
+  TableSchema,
+} from "./introspection.js";
+
+// ─── Schema Diff ─────────────────────────────────────────────────
+
+export interface SchemaDiff {
+  /** Human-readable lines; changed definitions read "target → source". */
+  summary: string[];
+  /** Statements that bring the target in line with the source. */
+  statements: string[];
+}
+
+const CURRENT_TIMESTAMP_RE = /^(CURRENT_TIMESTAMP|NOW)(\(\d*\))?$/i;
+
+function defaultLiteral(col: ColumnInfo): string {
+  const d = col.default ?? "NULL";
+  if (d.toUpperCase() === "NULL" || CURRENT_TIMESTAMP_RE.test(d)) return d;
+  if (/^'.*'$/s.test(d)) return d; // MariaDB reports literals already quoted
+  if (/DEFAULT_GENERATED/i.test(col.extra)) return `(${d})`; // MySQL 8 expression default
+  if (/^-?\d+(\.\d+)?$/.test(d) && /int|dec|numeric|float|double|real|bit/i.test(col.type)) {
+    return d;
+  }
+  return `'${d.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`;
+}
+
+export function columnDefinition(col: ColumnInfo): string {
+  const parts = [quoteIdent(col.name), col.type];
+  if (col.generation) {
+    parts.push(`GENERATED ALWAYS AS (${col.generation})`);
+    parts.push(/STORED|PERSISTENT/i.test(col.extra) ? "STORED" : "VIRTUAL");
+    if (!col.nullable) parts.push("NOT NULL");
+    return parts.join(" ");
+  }
+  parts.push(col.nullable ? "NULL" : "NOT NULL");
+  if (col.default !== null) parts.push(`DEFAULT ${defaultLiteral(col)}`);
+  const extra = col.extra.replace(/DEFAULT_GENERATED/i, "").trim();
+  if (extra) parts.push(extra);
+  return parts.join(" ");
+}
+
+export function indexDefinition(idx: IndexInfo): string {
+  const cols = idx.columns.map(quoteIdent).join(", ");
+  if (idx.name === "PRIMARY") return `PRIMARY KEY (${cols})`;
+  const kind =
+    idx.type === "FULLTEXT" || idx.type === "SPATIAL"
+      ? `${idx.type} INDEX`
+      : idx.unique
+        ? "UNIQUE INDEX"
+        : "INDEX";
+  return `${kind} ${quoteIdent(idx.name)} (${cols})`;
+}
+
+/** References into the table's own schema are left unqualified so schemas compare equal. */
+export function foreignKeyDefinition(fk: ForeignKeyInfo, ownSchema: string): string {
+  const ref =
+    fk.refSchema === ownSchema
+      ? quoteIdent(fk.refTable)
+      : `${quoteIdent(fk.refSchema)}.${quoteIdent(fk.refTable)}`;
+  return (
+    `CONSTRAINT ${quoteIdent(fk.name)} FOREIGN KEY (${fk.columns.map(quoteIdent).join(", ")}) ` +
+    `REFERENCES ${ref} (${fk.refColumns.map(quoteIdent).join(", ")}) ` +
+    `ON DELETE ${fk.onDelete} ON UPDATE ${fk.onUpdate}`
+  );
+}
+
+function alterTable(table: string, ops: string[]): string {
+  return `ALTER TABLE ${quoteIdent(table)}\n  ${ops.join(",\n  ")};`;
+}
+
+/** Keyed definitions: name → rendered definition, in source order. */
+function definitions<T extends { name: string }>(
+  items: T[],
+  render: (item: T) => string
+): Map<string, string> {
+  return new Map(items.map((item) => [item.name, render(item)]));
+}
+
+/** True for a table, or a column of it, that an access policy hides on either side. */
+export type HiddenObject = (table: string, column?: string) => boolean;
+
+/**
+ * Compares two schema snapshots. Statements are ordered so they can run as
+ * a script: foreign keys are dropped first and added last (new tables are
+ * created without them), so referenced tables and indexes exist in time.
+ * Objects `hidden` reports are left out of both sides, so a table or column
+ * the caller may not see is never created, altered or dropped.
+ */
+export function diffSchemas(
+  source: TableSchema[],
+  target: TableSchema[],
+  sourceDb = "",
+  targetDb = "",
+  hidden?: HiddenObject
+): SchemaDiff {
+  const summary: string[] = [];
+  const skipped = new Set<string>();
+  if (hidden) {
+    const visible = (schemas: TableSchema[]) =>
+      schemas.flatMap((t) => {
+        if (hidden(t.name)) {
+          skipped.add(t.name);
+          return [];
+        }
+        const columns = t.columns.filter((c) => {
+          if (!hidden(t.name, c.name)) return true;
+          skipped.add(`${t.name}.${c.name}`);
+          return false;
+        });
+        return [{ ...t, columns }];
+      });
+    source = visible(source);
+    target = visible(target);
+  }
+  const fkDrops: string[] = [];
+  const alters: string[] = [];
+  const creates: string[] = [];
+  const fkAdds: string[] = [];
+  const tableDrops: string[] = [];
+
+  const targetByName = new Map(target.map((t) => [t.name, t]));
+  const sourceNames = new Set(source.map((t) => t.name));
+  const onlySource = source.filter((t) => !targetByName.has(t.name));
+  const onlyTarget = target.filter((t) => !sourceNames.has(t.name));
+
+  for (const t of onlySource) {
+    const body = [...t.columns.map(columnDefinition), ...t.indexes.map(indexDefinition)];
+    creates.push(`CREATE TABLE ${quoteIdent(t.name)} (\n  ${body.join(",\n  ")}\n);`);
+    if (t.foreignKeys.length) {
+      fkAdds.push(
+        alterTable(
+          t.name,
+          t.foreignKeys.map((fk) => `ADD ${foreignKeyDefinition(fk, sourceDb)}`)
+        )
+      );
+    }
+  }
+  for (const t of onlyTarget) tableDrops.push(`DROP TABLE ${quoteIdent(t.name)};`);
+
+  const changed: string[] = [];
+  for (const src of source) {
+    const tgt = targetByName.get(src.name);
+    if (!tgt) continue;
+    const lines: string[] = [];
+    const ops: string[] = [];
+    const fkDropOps: string[] = [];
+    const fkAddOps: string[] = [];
+
+    // Columns
+    const srcCols = definitions(src.columns, columnDefinition);
+    const tgtCols = definitions(tgt.columns, columnDefinition);
+    for (const name of tgtCols.keys()) {
+      if (srcCols.has(name)) continue;
+      lines.push(`- column ${name}`);
+      ops.push(`DROP COLUMN ${quoteIdent(name)}`);
+    }
+    src.columns.forEach((col, i) => {
+      const def = srcCols.get(col.name)!;
+      const existing = tgtCols.get(col.name);
+      if (existing === undefined) {
+        const position = i === 0 ? "FIRST" : `AFTER ${quoteIdent(src.columns[i - 1].name)}`;
+        lines.push(`+ column ${def}`);
+        ops.push(`ADD COLUMN ${def} ${position}`);
+      } else if (existing !== def) {
+        lines.push(`~ column ${col.name}: ${existing} → ${def}`);
+        ops.push(`MODIFY COLUMN ${def}`);
+      }
+    });
+
+    // Indexes
+    const srcIdx = definitions(src.indexes, indexDefinition);
+    const tgtIdx = definitions(tgt.indexes, indexDefinition);
+    const dropIndex = (name: string) =>
+      name === "PRIMARY" ? "DROP PRIMARY KEY" : `DROP INDEX ${quoteIdent(name)}`;
+    for (const [name, def] of tgtIdx) {
+      const wanted = srcIdx.get(name);
+      if (wanted === undefined) {
+        lines.push(`- index ${name}`);
+        ops.unshift(dropIndex(name));
+      } else if (wanted !== def) {
+        lines.push(`~ index ${name}: ${def} → ${wanted}`);
+        ops.unshift(dropIndex(name));
+        ops.push(`ADD ${wanted}`);
+      }
+    }
+    for (const [name, def] of srcIdx) {
+      if (tgtIdx.has(name)) continue;
+      lines.push(`+ index ${def}`);
+      ops.push(`ADD ${def}`);
+    }
+
+    // Foreign keys
+    const srcFks = definitions(src.foreignKeys, (fk) => foreignKeyDefinition(fk, sourceDb));
+    const tgtFks = definitions(tgt.foreignKeys, (fk) => foreignKeyDefinition(fk, targetDb));
+    for (const [name, def] of tgtFks) {
+      const wanted = srcFks.get(name);
+      if (wanted === def) continue;
+      lines.push(wanted === undefined ? `- foreign key ${name}` : `~ foreign key ${name}: ${def} → ${wanted}`);
+      fkDropOps.push(`DROP FOREIGN KEY ${quoteIdent(name)}`);
+      if (wanted !== undefined) fkAddOps.push(`ADD ${wanted}`);
+    }
+    for (const [name, def] of srcFks) {
+      if (tgtFks.has(name)) continue;
+      lines.push(`+ foreign key ${def}`);
+      fkAddOps.push(`ADD ${def}`);
+    }
+
+    if (lines.length === 0) continue;
+    changed.push(`  ${src.name}`, ...lines.map((l) => `    ${l}`));
+    if (fkDropOps.length) fkDrops.push(alterTable(src.name, fkDropOps));
+    if (ops.length) alters.push(alterTable(src.name, ops));
+    if (fkAddOps.length) fkAdds.push(alterTable(src.name, fkAddOps));
+  }
+
+  if (onlySource.length) {
+    summary.push(
+      `Tables only in source (${onlySource.length}): ${onlySource.map((t) => t.name).join(", ")}`
+    );
+  }
+  if (onlyTarget.length) {
+    summary.push(
+      `Tables only in target (${onlyTarget.length}): ${onlyTarget.map((t) => t.name).join(", ")}`
+    );
+  }
+  if (changed.length) {
+    const count = changed.filter((l) => !l.startsWith("    ")).length;
+    summary.push(`Changed tables (${count}):`, ...changed);
+  }
+  if (summary.length === 0) {
+    summary.push(`No differences (${source.length} tables compared).`);
+  }
+  if (skipped.size) {
+    summary.push(`Not compared, hidden by an access policy: ${[...skipped].join(", ")}`);
+  }
+
+  return { summary, statements: [...fkDrops, ...alters, ...creates, ...fkAdds, ...tableDrops] };
+}
@@ -0,0 +1,140 @@
+import mysql from "mysql2/promise";
+import type { DbConnection } from "./config.js";
+import { globMatches, extractDbName } from "./helpers.js";
+import { isTableDenied, columnRule } from "./policy.js";
+import { withPool } from "./pool.js";
+
+// ─── Schema Search ───────────────────────────────────────────────
+
+export type SearchMode = "substring" | "glob" | "regex";
+
+/** Longest regex `schemaMatcher` accepts. */
+export const MAX_REGEX_LENGTH = 100;
+
+/**
+ * Why a regex could backtrack for too long on a long name or comment, or
+ * null: nested quantifiers (`(a+)+`), quantified alternations (`(a|a)*`) and
+ * backreferences are refused.
+ */
+function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) return `longer than ${MAX_REGEX_LENGTH} characters`;
+  // One entry per open group: whether it holds a quantifier or an alternation
+  const groups: boolean[] = [false];
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      const next = pattern[++i] ?? "";
+      if (/[1-9]/.test(next) || next === "k") return "backreferences are not supported";
+    } else if (ch === "[") {
+      // Skip the character class; quantifier characters are literal inside it
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) if (pattern[i] === "\\") i++;
+    } else if (ch === "(") {
+      groups.push(false);
+      if (pattern[i + 1] === "?") i += pattern[i + 2] === "<" ? 2 : 1; // (?: (?= (?<name> ...
+    } else if (ch === ")" && groups.length > 1) {
+      const inner = groups.pop() === true;
+      const quantified = /^[*+?{]/.test(pattern.slice(i + 1));
+      if (quantified && inner) return "nested quantifiers are not supported";
+      groups[groups.length - 1] ||= inner || quantified;
+    } else if ("*+?{|".includes(ch)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+/** Case-insensitive name matcher; an invalid or unsafe regex throws. */
+export function schemaMatcher(
+  pattern: string,
+  mode: SearchMode
+): (text: string) => boolean {
+  if (mode === "substring") {
+    const needle = pattern.toLowerCase();
+    return (text) => text.toLowerCase().includes(needle);
+  }
+  if (mode === "glob") return (text) => globMatches(pattern, text);
+  const unsafe = unsafeRegexReason(pattern);
+  if (unsafe) {
+    throw new Error(`Regex "${pattern}" was refused: ${unsafe}. Use a substring or glob match.`);
+  }
+  const re = new RegExp(pattern, "i");
+  return (text) => re.test(text);
+}
+
+export interface SchemaColumnRow {
+  table: string;
+  column: string;
+  type: string;
+  comment: string;
+}
+
+export interface SchemaMatch {
+  table: string;
+  /** The table name itself matched. */
+  tableMatched: boolean;
+  columns: { name: string; type: string; comment: string; commentMatched: boolean }[];
+}
+
+/** Groups matching tables and columns; rows must be ordered by table. */
+export function matchSchemaRows(
+  rows: SchemaColumnRow[],
+  matches: (text: string) => boolean
+): SchemaMatch[] {
+  const result: SchemaMatch[] = [];
+  let current: SchemaMatch | undefined;
+  const flush = () => {
+    if (current && (current.tableMatched || current.columns.length)) result.push(current);
+  };
+  for (const row of rows) {
+    if (current?.table !== row.table) {
+      flush();
+      current = { table: row.table, tableMatched: matches(row.table), columns: [] };
+    }
+    const nameMatched = matches(row.column);
+    const commentMatched = row.comment !== "" && matches(row.comment);
+    if (nameMatched || commentMatched) {
+      current.columns.push({
+        name: row.column,
+        type: row.type,
+        comment: row.comment,
+        commentMatched: commentMatched && !nameMatched,
+      });
+    }
+  }
+  flush();
+  return result;
+}
+
+/** Every column of the connection's schema, minus policy-denied tables and columns. */
+export async function schemaColumnRows(
+  conn: DbConnection,
+  signal?: AbortSignal
+): Promise<SchemaColumnRow[]> {
+  const dbName = extractDbName(conn);
+  const [rows] = await withPool(
+    conn,
+    (connection) =>
+      connection.execute<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME, COLUMN_NAME, COLUMN_TYPE, COLUMN_COMMENT
+         FROM INFORMATION_SCHEMA.COLUMNS
+         WHERE TABLE_SCHEMA = ?
+         ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+        [dbName]
+      ),
+    signal
+  );
+  const policy = conn.policy;
+  return rows
+    .filter(
+      (r) =>
+        !policy ||
+        (!isTableDenied(policy, dbName, r.TABLE_NAME) &&
+          columnRule(policy, r.TABLE_NAME, r.COLUMN_NAME) !== "deny")
+    )
+    .map((r) => ({
+      table: r.TABLE_NAME,
+      column: r.COLUMN_NAME,
+      type: r.COLUMN_TYPE,
+      comment: r.COLUMN_COMMENT ?? "",
+    }));
+}
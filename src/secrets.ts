@@ -0,0 +1,237 @@
+import { z } from "zod";
+import { readFile } from "fs/promises";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { resolve } from "path";
+import { LABEL_FILTER, expandHome } from "./cli.js";
+
+// ─── Environment Variable Substitution ───────────────────────────
+
+const SECRET_REF = /\$\{([^}]+)\}/g;
+
+/** Value of a `VAR` or `VAR:-default` reference. */
+function envReference(expr: string, env: NodeJS.ProcessEnv): string {
+  const [name, ...rest] = expr.split(":-");
+  const fallback = rest.join(":-");
+  return env[name.trim()] ?? fallback ?? "";
+}
+
+/**
+ * Replaces `${VAR}` patterns in string values with process.env values.
+ * Supports `${VAR:-default}` syntax for defaults when env var is unset.
+ */
+export function resolveEnvVars(obj: unknown, env: NodeJS.ProcessEnv = process.env): unknown {
+  if (typeof obj === "string") {
+    return obj.replace(SECRET_REF, (_, expr: string) => envReference(expr, env));
+  }
+  if (Array.isArray(obj)) return obj.map((v) => resolveEnvVars(v, env));
+  if (obj !== null && typeof obj === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(obj)) {
+      out[k] = resolveEnvVars(v, env);
+    }
+    return out;
+  }
+  return obj;
+}
+
+/**
+ * Parses a .env file: `KEY=value` lines, optionally prefixed with `export`.
+ * Double-quoted values understand `\n`, `\t`, `\"` and `\\`; single-quoted
+ * values are literal; unquoted values end at ` #`.
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) return;
+    const match = /^(?:export\s+)?([A-Za-z_][\w.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) throw new Error(`line ${i + 1}: expected KEY=value`);
+    const [, key, rest] = match;
+    const quote = rest[0];
+    if (quote === '"' || quote === "'") {
+      const close = quote === '"' ? /^"((?:[^"\\]|\\.)*)"/.exec(rest) : /^'([^']*)'/.exec(rest);
+      if (!close) throw new Error(`line ${i + 1}: unterminated ${quote} quote`);
+      env[key] =
+        quote === '"'
+          ? close[1].replace(/\\(.)/g, (_, c: string) =>
+              c === "n" ? "\n" : c === "r" ? "\r" : c === "t" ? "\t" : c
+            )
+          : close[1];
+    } else {
+      env[key] = rest.replace(/\s+#.*$/, "").trim();
+    }
+  });
+  return env;
+}
+
+// ─── Secret Sources ──────────────────────────────────────────────
+
+export const SecretsConfigSchema = z.object({
+  commandTimeoutMs: z.coerce.number().int().positive().default(10_000),
+  cacheTtlSeconds: z.coerce.number().nonnegative().default(300),
+});
+
+interface SecretContext {
+  /** process.env over the config's envFile. */
+  env: NodeJS.ProcessEnv;
+  /** Relative `file:` paths are resolved against this (the config file's directory). */
+  baseDir: string;
+  commandTimeoutMs: number;
+  cacheTtlMs: number;
+  /** Resolved envFile path, watched like the config files. */
+  envFile: string | null;
+}
+
+type SecretSource = (arg: string, ctx: SecretContext) => Promise<string>;
+
+const execAsync = promisify(exec);
+
+/** `cmd:` results by command line, shared across config reloads. */
+const commandSecrets = new Map<string, { value: Promise<string>; expires: number }>();
+
+function commandFailure(e: unknown, timeoutMs: number): Error {
+  const err = e as { killed?: boolean; code?: unknown; stderr?: string; message?: string };
+  if (err.killed) return new Error(`timed out after ${timeoutMs} ms`);
+  const detail = err.stderr?.trim().split("\n")[0]?.slice(0, 200);
+  if (typeof err.code === "number") {
+    return new Error(`exited with code ${err.code}${detail ? `: ${detail}` : ""}`);
+  }
+  return new Error(err.message ?? String(e));
+}
+
+/** Secret reference prefixes: `${file:...}`, `${cmd:...}`. One trailing newline is dropped. */
+const SECRET_SOURCES = new Map<string, SecretSource>([
+  [
+    "file",
+    async (path, ctx) => {
+      const text = await readFile(resolve(ctx.baseDir, expandHome(path.trim())), "utf-8");
+      return text.replace(/\r?\n$/, "");
+    },
+  ],
+  [
+    "cmd",
+    (command, ctx) => {
+      const cached = commandSecrets.get(command);
+      if (cached && cached.expires > Date.now()) return cached.value;
+      const value = execAsync(command, {
+        timeout: ctx.commandTimeoutMs,
+        env: ctx.env,
+        windowsHide: true,
+      }).then(
+        ({ stdout }) => stdout.replace(/\r?\n$/, ""),
+        (e: unknown) => {
+          // Failures are retried on the next reload
+          if (commandSecrets.get(command)?.value === value) commandSecrets.delete(command);
+          throw commandFailure(e, ctx.commandTimeoutMs);
+        }
+      );
+      commandSecrets.set(command, { value, expires: Date.now() + ctx.cacheTtlMs });
+      return value;
+    },
+  ],
+]);
+
+/**
+ * resolveEnvVars plus secret sources: `${file:/run/secrets/db_pass}` reads
+ * a file and `${cmd:pass show db/prod}` runs a command. Rejects with the
+ * failing reference (never its value).
+ */
+export async function resolveSecrets(obj: unknown, ctx: SecretContext): Promise<unknown> {
+  if (typeof obj === "string") {
+    const refs = [...obj.matchAll(SECRET_REF)];
+    if (refs.length === 0) return obj;
+    const values = await Promise.all(
+      refs.map(async ([ref, expr]) => {
+        const source = /^([a-z]+):(?!-)([\s\S]*)$/.exec(expr);
+        if (!source) return envReference(expr, ctx.env);
+        const resolver = SECRET_SOURCES.get(source[1]);
+        if (!resolver) throw new Error(`${ref}: unknown secret source "${source[1]}"`);
+        try {
+          return await resolver(source[2], ctx);
+        } catch (e) {
+          throw new Error(`${ref}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      })
+    );
+    let i = 0;
+    return obj.replace(SECRET_REF, () => values[i++]);
+  }
+  if (Array.isArray(obj)) return Promise.all(obj.map((v) => resolveSecrets(v, ctx)));
+  if (obj !== null && typeof obj === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(obj)) {
+      out[k] = await resolveSecrets(v, ctx);
+    }
+    return out;
+  }
+  return obj;
+}
+
+/** Secret context for a raw config: `secrets` options and its envFile, if any. */
+export async function secretContext(json: Record<string, unknown>, baseDir: string): Promise<SecretContext> {
+  const options = SecretsConfigSchema.parse(resolveEnvVars(json.secrets ?? {}));
+  let fileEnv: Record<string, string> = {};
+  const envFile =
+    typeof json.envFile === "string"
+      ? resolve(baseDir, expandHome(resolveEnvVars(json.envFile) as string))
+      : null;
+  if (envFile) {
+    try {
+      fileEnv = parseEnvFile(await readFile(envFile, "utf-8"));
+    } catch (e) {
+      console.error(`Warning: envFile ${envFile} not loaded: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  return {
+    env: { ...fileEnv, ...process.env },
+    baseDir,
+    commandTimeoutMs: options.commandTimeoutMs,
+    cacheTtlMs: options.cacheTtlSeconds * 1000,
+    envFile,
+  };
+}
+
+/**
+ * Resolves secrets connection by connection: a connection whose references
+ * fail is dropped and its error kept under its label, so the others still
+ * load. Disabled and --label-filtered connections get env vars only, so
+ * their commands never run.
+ */
+export async function resolveConfigSecrets(
+  json: Record<string, unknown>,
+  ctx: SecretContext
+): Promise<{ config: Record<string, unknown>; failures: Map<string, string> }> {
+  const { connections, ...rest } = json;
+  const config = (await resolveSecrets(rest, ctx)) as Record<string, unknown>;
+  const failures = new Map<string, string>();
+
+  const resolveEntry = async (entry: unknown, key?: string): Promise<unknown> => {
+    const fields = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof fields.label === "string" ? fields.label : (key ?? "");
+    if (fields.enabled === false || (LABEL_FILTER && label !== LABEL_FILTER)) {
+      return resolveEnvVars(entry, ctx.env);
+    }
+    try {
+      return await resolveSecrets(entry, ctx);
+    } catch (e) {
+      failures.set(label, e instanceof Error ? e.message : String(e));
+      return undefined;
+    }
+  };
+
+  if (Array.isArray(connections)) {
+    const entries = await Promise.all(connections.map((c) => resolveEntry(c)));
+    config.connections = entries.filter((c) => c !== undefined);
+  } else if (connections !== null && typeof connections === "object") {
+    const entries: Record<string, unknown> = {};
+    for (const [key, c] of Object.entries(connections)) {
+      const resolved = await resolveEntry(c, key);
+      if (resolved !== undefined) entries[key] = resolved;
+    }
+    config.connections = entries;
+  } else {
+    config.connections = connections;
+  }
+  return { config, failures };
+}
@@ -0,0 +1,122 @@
+import mysql from "mysql2/promise";
+
+// ─── Server Flavor ───────────────────────────────────────────────
+
+export type ServerFlavor = "mysql" | "mariadb" | "percona" | "tidb";
+
+export interface ServerInfo {
+  flavor: ServerFlavor;
+  /** Product version, e.g. "10.11.6" for MariaDB or "7.5.0" for TiDB. */
+  version: string;
+  major: number;
+  minor: number;
+  patch: number;
+  /** VERSION() as reported by the server. */
+  raw: string;
+}
+
+const FLAVOR_NAMES: Record<ServerFlavor, string> = {
+  mysql: "MySQL",
+  mariadb: "MariaDB",
+  percona: "Percona Server",
+  tidb: "TiDB",
+};
+
+/** Flavor and version from `VERSION()` and `@@version_comment`. */
+export function parseServerVersion(version: string, comment = ""): ServerInfo {
+  // MariaDB before 11 prefixes the handshake version with a fake "5.5.5-"
+  const text = version.replace(/^5\.5\.5-/, "");
+  let flavor: ServerFlavor = "mysql";
+  let product = text;
+  const tidb = /TiDB-v?(\d+\.\d+\.\d+)/i.exec(text);
+  if (tidb) {
+    flavor = "tidb";
+    product = tidb[1];
+  } else if (/mariadb/i.test(text) || /mariadb/i.test(comment)) {
+    flavor = "mariadb";
+  } else if (/percona/i.test(text) || /percona/i.test(comment)) {
+    flavor = "percona";
+  }
+  const match = /(\d+)\.(\d+)\.(\d+)/.exec(product);
+  const [, major = "0", minor = "0", patch = "0"] = match ?? [];
+  return {
+    flavor,
+    version: `${major}.${minor}.${patch}`,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    raw: version,
+  };
+}
+
+export function describeServer(info: ServerInfo): string {
+  return `${FLAVOR_NAMES[info.flavor]} ${info.version}`;
+}
+
+function versionAtLeast(info: ServerInfo, major: number, minor = 0, patch = 0): boolean {
+  if (info.major !== major) return info.major > major;
+  if (info.minor !== minor) return info.minor > minor;
+  return info.patch >= patch;
+}
+
+/**
+ * Session statement capping server-side execution time, or null if the
+ * server has no such limit. withPool enforces queryTimeoutMs either way.
+ */
+export function sessionTimeoutStatement(
+  info: ServerInfo,
+  timeoutMs: number
+): string | null {
+  switch (info.flavor) {
+    case "mariadb":
+      // Seconds, and unlike max_execution_time it applies to every statement
+      return versionAtLeast(info, 10, 1)
+        ? `SET SESSION max_statement_time = ${timeoutMs / 1000}`
+        : null;
+    case "tidb":
+      return `SET SESSION max_execution_time = ${timeoutMs}`;
+    default:
+      return versionAtLeast(info, 5, 7, 8)
+        ? `SET SESSION max_execution_time = ${timeoutMs}`
+        : null;
+  }
+}
+
+export interface ExplainSyntax {
+  /** Prefix that executes the query and reports actual costs, if supported. */
+  analyze: string | null;
+  /** Prefix producing a MySQL-style JSON plan, if supported. */
+  json: string | null;
+}
+
+export function explainSyntax(info: ServerInfo): ExplainSyntax {
+  switch (info.flavor) {
+    case "mariadb":
+      return versionAtLeast(info, 10, 1)
+        ? { analyze: "ANALYZE FORMAT=JSON", json: "EXPLAIN FORMAT=JSON" }
+        : { analyze: null, json: null };
+    case "tidb":
+      // TiDB's JSON plan format is not MySQL's
+      return { analyze: "EXPLAIN ANALYZE", json: null };
+    default:
+      return {
+        analyze: versionAtLeast(info, 8, 0, 18) ? "EXPLAIN ANALYZE" : null,
+        json: versionAtLeast(info, 5, 6, 5) ? "EXPLAIN FORMAT=JSON" : null,
+      };
+  }
+}
+
+/** INFORMATION_SCHEMA.COLUMNS has GENERATION_EXPRESSION (MySQL 5.7+, MariaDB 10.2+). */
+export function hasGenerationExpression(info: ServerInfo): boolean {
+  if (info.flavor === "tidb") return true;
+  return info.flavor === "mariadb"
+    ? versionAtLeast(info, 10, 2)
+    : versionAtLeast(info, 5, 7);
+}
+
+export async function detectServer(connection: mysql.PoolConnection): Promise<ServerInfo> {
+  const [[row]] = await connection.query<mysql.RowDataPacket[]>(
+    "SELECT VERSION() AS version, @@version_comment AS comment"
+  );
+  return parseServerVersion(String(row.version), String(row.comment ?? ""));
+}
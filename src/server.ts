@@ -0,0 +1,1783 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import mysql from "mysql2/promise";
+import { mkdir, readFile, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname } from "path";
+import { createHash } from "crypto";
+import { noteAudit, searchAuditLog, withAudit, audited } from "./audit.js";
+import { CONFIG_PATH, LABEL_FILTER } from "./cli.js";
+import {
+  RESULT_FORMATS,
+  type MaskRule,
+  type DbConnection,
+  type LabelScope,
+  configCache,
+  onConfigLoad,
+  loadFullConfig,
+  loadConfig,
+  getConnection,
+} from "./config.js";
+import {
+  streamRows,
+  queryFingerprint,
+  encodeCursor,
+  cursorRejection,
+  decodeCursor,
+} from "./cursors.js";
+import { tablesWithinHops, renderErDiagram } from "./er-diagram.js";
+import {
+  EXPORT_FORMATS,
+  resolveInsideDir,
+  assertRealPathInside,
+  exportRows,
+} from "./file-export.js";
+import {
+  IMPORT_FORMATS,
+  type ImportFormat,
+  MAX_IMPORT_ERRORS,
+  parseCsvRecords,
+  parseNdjsonRecords,
+  importValue,
+  mapImportColumns,
+  type ImportRow,
+  importStatements,
+  runImportBatches,
+} from "./file-import.js";
+import { type ResultMeta, formatQueryResult } from "./format.js";
+import { globMatches, extractDbName } from "./helpers.js";
+import { tableAliases, adviseIndexes, explainJson } from "./index-advice.js";
+import {
+  listTablesText,
+  tableNames,
+  loadTableSchemas,
+  describeTableText,
+  explainRejection,
+  explainPlanText,
+} from "./introspection.js";
+import { isTableDenied, columnRule, maskValue, applyPolicyToRows } from "./policy.js";
+import { knownServerInfo, queryError, withPool } from "./pool.js";
+import {
+  LONG_TYPE_RE,
+  lengthAlias,
+  profileColumn,
+  formatColumnProfile,
+  sampleTable,
+  pickRandom,
+} from "./profiling.js";
+import {
+  promptResult,
+  promptContext,
+  referencedTables,
+  tableDefinitions,
+  syncCustomPrompts,
+} from "./prompts.js";
+import {
+  resultCacheKey,
+  getCachedResult,
+  storeCachedResult,
+  pruneResultCaches,
+} from "./result-cache.js";
+import { diffSchemas } from "./schema-diff.js";
+import { schemaMatcher, matchSchemaRows, schemaColumnRows } from "./schema-search.js";
+import { describeServer } from "./server-flavor.js";
+import {
+  dbSessions,
+  sessionRejection,
+  discardDbSession,
+  beginDbSession,
+  findDbSession,
+  withDbSession,
+  sessionQuery,
+} from "./sessions.js";
+import { tokenizeSql, classifyStatement, statementNotAllowed } from "./sql.js";
+import {
+  MAX_TRANSACTION_STEPS,
+  transactionRejection,
+  type TransactionProgress,
+  runTransaction,
+  formatStepOutcomes,
+} from "./transactions.js";
+import {
+  CONFIRMATION_TTL_MS,
+  requiresConfirmation,
+  issueConfirmation,
+  consumeConfirmation,
+  writeTarget,
+  nonTransactionalTables,
+  previewWrite,
+  statementRejection,
+  affectedRowsGuardrail,
+} from "./writes.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function errorResult(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  const code = (e as { code?: unknown } | null)?.code;
+  noteAudit({ error: typeof code === "string" ? code : "ERROR" });
+  return {
+    content: [{ type: "text" as const, text: `Error: ${msg}` }],
+    isError: true,
+  };
+}
+
+// ─── MCP Server ──────────────────────────────────────────────────
+
+/** Connected servers, notified when config reloads add or remove connections. */
+const liveServers = new Set<McpServer>();
+
+function notifyResourceListChanged(): void {
+  for (const server of liveServers) server.sendResourceListChanged();
+}
+
+// Keep result caches, resource lists and config-defined prompts in step with the config
+onConfigLoad((config, previous) => {
+  pruneResultCaches(config.connections);
+  if (!previous) return;
+  const labels = (list: DbConnection[]) => list.map((c) => c.label).join("\n");
+  if (labels(previous.connections) !== labels(config.connections)) notifyResourceListChanged();
+  if (JSON.stringify(previous.prompts) !== JSON.stringify(config.prompts)) {
+    for (const server of liveServers) syncCustomPrompts(server, config.prompts);
+  }
+});
+
+/** Template variables arrive percent-encoded and may repeat; take the first. */
+function uriVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Builds an McpServer with all tools registered. A server can only be
+ * connected to one transport, so HTTP mode creates one per session; `scope`
+ * limits which connection labels that session can see, and `owner` is the
+ * HTTP token its database sessions (mysql_begin) belong to.
+ */
+export function createServer(scope: LabelScope = null, owner: string | null = null): McpServer {
+  const server = new McpServer({
+    name: "mysql",
+    version: "1.0.0",
+  });
+
+  // Tool 1: List databases
+  server.tool(
+    "mysql_list_databases",
+    "List all available MySQL databases",
+    {},
+    audited("mysql_list_databases", async () => {
+      const connections = await loadConfig(scope);
+      const unavailable = [...(await loadFullConfig()).unavailable].filter(
+        ([label]) => !scope || scope.includes(label)
+      );
+      if (connections.length === 0 && unavailable.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No databases available.\nConfig: ${CONFIG_PATH}${LABEL_FILTER ? `\nFilter: --label ${LABEL_FILTER}` : ""}`,
+            },
+          ],
+        };
+      }
+
+      const lines = connections.map((c) => {
+        const addr = c.url
+          ? "(connection string)"
+          : `${c.user}@${c.host}:${c.port}/${c.database}`;
+        const flags: string[] = [];
+        if (c.ssl) flags.push("SSL");
+        if (!c.readOnly) flags.push("RW");
+        const suffix = flags.length ? ` [${flags.join(", ")}]` : "";
+        // Only servers already connected to; listing must not open connections
+        const info = knownServerInfo(c);
+        const server = info ? ` — ${describeServer(info)}` : "";
+        return `- ${c.label}: ${addr}${suffix}${server}`;
+      });
+      for (const [label, reason] of unavailable) {
+        lines.push(`- ${label}: unavailable — ${reason}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Available databases (${connections.length}):\n${lines.join("\n")}`,
+          },
+        ],
+      };
+    })
+  );
+
+  // Tool 2: Execute SQL query
+  server.tool(
+    "mysql_query",
+    "Execute a SQL query against a MySQL database. Read-only by default; write queries allowed only if the connection is configured with readOnly: false. On connections with confirmWrites, a write first returns a dry-run preview and a confirmation token; repeat the call with confirm to commit. Large results are returned in pages: pass the returned cursor to continue.",
+    {
+      database: z.string().describe("Database label from config"),
+      query: z.string().describe("SQL query to execute"),
+      params: z
+        .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+        .optional()
+        .describe("Optional query parameters for ? placeholders"),
+      limit: z
+        .coerce
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Max rows to return per page (capped by the connection's maxRows; rows beyond it are never fetched)"
+        ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Cursor from a previous truncated result to fetch the next page (requires the same query and params). Issued only for reads; a SELECT needs an ORDER BY. Each page re-runs the query and skips earlier rows"
+        ),
+      format: z
+        .enum(RESULT_FORMATS)
+        .optional()
+        .describe(
+          "Result format: json (pretty), compact (column arrays), csv, ndjson, markdown. Defaults to the connection's defaultFormat"
+        ),
+      noCache: z
+        .boolean()
+        .optional()
+        .describe("Bypass the connection's result cache and re-run the query"),
+      confirm: z
+        .string()
+        .optional()
+        .describe(
+          "Confirmation token from a dry run; required to commit writes on connections with confirmWrites"
+        ),
+      session: z
+        .string()
+        .optional()
+        .describe(
+          "Session id from mysql_begin: run inside its open transaction, which persists until mysql_commit or mysql_rollback"
+        ),
+    },
+    audited("mysql_query", async (args, { signal }) => {
+      const { database, query, params, limit, cursor, format, noCache, confirm, session } =
+        args;
+      try {
+        const conn = await getConnection(database, scope);
+        const statement = classifyStatement(query);
+        const rejected = statementRejection(conn, statement, query);
+        if (rejected) return errorResult(rejected);
+
+        const dbSession = session ? findDbSession(session, scope, owner) : undefined;
+        if (dbSession && dbSession.label !== database) {
+          return errorResult(
+            new Error(`Session ${session} belongs to "${dbSession.label}", not "${database}".`)
+          );
+        }
+        const notInSession = dbSession ? sessionRejection(statement, query) : null;
+        if (notInSession) return errorResult(notInSession);
+
+        const fingerprint = queryFingerprint(query, params);
+
+        // Two-phase writes: a dry run returns a token, the same call with it commits.
+        // Sessions commit nothing here; mysql_commit asks for the token instead.
+        if (!dbSession && requiresConfirmation(conn, statement)) {
+          if (!confirm) {
+            const preview = await previewWrite(conn, statement, query, params, signal);
+            const token = issueConfirmation(database, fingerprint);
+            const minutes = CONFIRMATION_TTL_MS / 60_000;
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Dry run on "${database}" — nothing was committed.\n\n${preview}\n\nTo apply, call mysql_query again with the same query and params and confirm: "${token}" (valid for ${minutes} minutes, single use).`,
+                },
+              ],
+            };
+          }
+          if (!consumeConfirmation(confirm, database, fingerprint)) {
+            return errorResult(
+              queryError(
+                "Invalid or expired confirmation token. Tokens are single-use and only valid for the exact query and params of their dry run; run the statement again without confirm.",
+                "CONFIRMATION_INVALID"
+              )
+            );
+          }
+        }
+
+        const notPageable = cursorRejection(statement, query);
+        let offset = 0;
+        if (cursor) {
+          if (notPageable) return errorResult(new Error(`Invalid cursor: ${notPageable}`));
+          const decoded = decodeCursor(cursor);
+          if (!decoded || decoded.label !== database || decoded.hash !== fingerprint) {
+            return errorResult(
+              new Error(
+                "Invalid cursor: it must come from a previous mysql_query call with the same database, query and params."
+              )
+            );
+          }
+          offset = decoded.offset;
+        }
+        const pageSize = Math.min(limit ?? conn.maxRows, conn.maxRows);
+
+        // Only reads on read-only connections are cached: nothing the server
+        // session does can change between two identical lookups except data
+        const cacheKey =
+          conn.cache && conn.readOnly && statement.readOnly && !dbSession
+            ? resultCacheKey(query, params, offset, pageSize)
+            : null;
+        const hit = cacheKey && !noCache ? getCachedResult(conn, cacheKey) : null;
+
+        const pooled = () => withPool(conn, async (connection) => {
+          if (conn.readOnly) {
+            await connection.query("SET SESSION TRANSACTION READ ONLY");
+          }
+          // Reads run in a READ ONLY transaction on every connection, so one cut
+          // short below can't drop a write (a SELECT calling a function that
+          // writes fails instead). Other statements read their rows to the end
+          // and commit as usual.
+          if (statement.readOnly) await connection.query("START TRANSACTION READ ONLY");
+          else await connection.beginTransaction();
+          let capped = false;
+          try {
+            const streamed = await streamRows(
+              connection,
+              query,
+              params,
+              offset,
+              pageSize,
+              !statement.readOnly
+            );
+            // A capped read destroyed the connection; the server discards its
+            // transaction on disconnect.
+            capped = statement.readOnly && streamed.hasMore;
+            const overLimit = affectedRowsGuardrail(
+              conn,
+              statement,
+              streamed.header?.affectedRows
+            );
+            if (overLimit) throw overLimit;
+            if (!capped) await connection.commit();
+            return streamed;
+          } catch (e) {
+            await connection.rollback().catch(() => {});
+            throw e;
+          } finally {
+            if (conn.readOnly && !capped) {
+              // Reset transaction mode for pool reuse
+              await connection
+                .query("SET SESSION TRANSACTION READ WRITE")
+                .catch(() => {});
+            }
+          }
+        }, signal);
+        const result =
+          hit?.result ??
+          (dbSession
+            ? await sessionQuery(conn, dbSession, statement, query, params, offset, pageSize, signal)
+            : await pooled());
+        if (cacheKey && !hit) storeCachedResult(conn, cacheKey, result);
+
+        noteAudit({
+          rowsReturned: result.rows.length,
+          rowsAffected: result.header?.affectedRows,
+          cached: hit ? true : undefined,
+        });
+
+        if (result.columns.length === 0 || result.rows.length === 0) {
+          const affected = result.header?.affectedRows ?? 0;
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Query executed. ${affected} row(s) affected. No rows returned.${hit ? " (cached)" : ""}${dbSession ? ` Not committed: session ${session} is still open.` : ""}`,
+              },
+            ],
+          };
+        }
+
+        const meta: ResultMeta = { rowCount: result.rows.length };
+        if (offset > 0) meta.offset = offset;
+        if (result.hasMore) meta.truncated = true;
+        if (result.total !== undefined && (result.hasMore || offset > 0)) {
+          meta.totalRows = result.total;
+        }
+        if (result.hasMore) {
+          meta.limit = pageSize;
+          if (notPageable) {
+            meta.cursorUnavailable = notPageable;
+          } else {
+            meta.cursor = encodeCursor({
+              label: database,
+              hash: fingerprint,
+              offset: offset + result.rows.length,
+            });
+          }
+        }
+        if (hit) {
+          meta.cached = true;
+          meta.cacheAgeMs = Date.now() - hit.storedAt;
+        }
+
+        const visible = conn.policy
+          ? applyPolicyToRows(conn.policy, result.fields, result.rows, query)
+          : result;
+
+        const texts = formatQueryResult(
+          visible.columns,
+          visible.rows,
+          meta,
+          format ?? conn.defaultFormat
+        );
+        return {
+          content: texts.map((text) => ({ type: "text" as const, text })),
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 3: List tables
+  server.tool(
+    "mysql_list_tables",
+    "List tables in a MySQL database with row counts and engine info",
+    {
+      database: z.string().describe("Database label from config"),
+    },
+    audited("mysql_list_tables", async ({ database }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const text = await listTablesText(conn, signal);
+        return { content: [{ type: "text", text }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 4: Describe table (with indexes)
+  server.tool(
+    "mysql_describe_table",
+    "Describe columns, types, constraints, and indexes of a MySQL table",
+    {
+      database: z.string().describe("Database label from config"),
+      table: z.string().describe("Table name"),
+    },
+    audited("mysql_describe_table", async ({ database, table }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const text = await describeTableText(conn, table, signal);
+        return { content: [{ type: "text", text }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 5: List schemas (databases)
+  server.tool(
+    "mysql_list_schemas",
+    "List all databases/schemas in a MySQL server",
+    {
+      database: z.string().describe("Database label from config (used for connection)"),
+    },
+    audited("mysql_list_schemas", async ({ database }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const result = await withPool(
+          conn,
+          (connection) =>
+            connection.execute(
+              `SELECT s.SCHEMA_NAME,
+                      (SELECT COUNT(*) FROM INFORMATION_SCHEMA.TABLES t
+                       WHERE t.TABLE_SCHEMA = s.SCHEMA_NAME) AS table_count
+               FROM INFORMATION_SCHEMA.SCHEMATA s
+               ORDER BY s.SCHEMA_NAME`
+            ),
+          signal
+        );
+
+        const rows = (result as [mysql.RowDataPacket[], mysql.FieldPacket[]])[0];
+        const lines = rows.map(
+          (r) => `- ${r.SCHEMA_NAME} (${r.table_count} tables)`
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Schemas (${rows.length}):\n${lines.join("\n")}`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 6: Health check
+  server.tool(
+    "mysql_health_check",
+    "Test database connectivity and return MySQL version and response latency",
+    {
+      database: z.string().describe("Database label from config"),
+    },
+    audited("mysql_health_check", async ({ database }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const start = Date.now();
+        const [[row], server] = await withPool(
+          conn,
+          async (connection, info) => {
+            const [rows] = await connection.execute<mysql.RowDataPacket[]>(
+              "SELECT VERSION() AS version, NOW() AS server_time"
+            );
+            return [rows, info] as const;
+          },
+          signal
+        );
+        const latencyMs = Date.now() - start;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [
+                `Database: ${database}`,
+                `Status: connected`,
+                `Latency: ${latencyMs}ms`,
+                `Server: ${describeServer(server)}`,
+                `Version: ${row.version}`,
+                `Server time: ${row.server_time}`,
+              ].join("\n"),
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 7: Explain query
+  server.tool(
+    "mysql_explain",
+    "Run EXPLAIN on a query and return the execution plan. Uses EXPLAIN ANALYZE on MySQL 8.0.18+ and TiDB, ANALYZE FORMAT=JSON on MariaDB 10.1+, and EXPLAIN FORMAT=JSON on older versions.",
+    {
+      database: z.string().describe("Database label from config"),
+      query: z.string().describe("SQL query to analyze"),
+      params: z
+        .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+        .optional()
+        .describe("Optional query parameters for ? placeholders"),
+    },
+    audited("mysql_explain", async ({ database, query, params }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const rejected = explainRejection(conn, query);
+        if (rejected) {
+          return { content: [{ type: "text", text: `Error: ${rejected}` }], isError: true };
+        }
+
+        const plan = await explainPlanText(conn, query, params, signal);
+        return {
+          content: [{ type: "text", text: plan }],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 8: Schema diff
+  server.tool(
+    "mysql_schema_diff",
+    "Compare the schemas of two databases (tables, columns, indexes, foreign keys) and generate the ALTER TABLE statements that bring the target in line with the source",
+    {
+      source: z.string().describe("Database label of the reference schema, e.g. production"),
+      target: z.string().describe("Database label of the schema to check, e.g. staging"),
+      tables: z
+        .string()
+        .optional()
+        .describe("Only compare tables matching this pattern (* and ? wildcards)"),
+    },
+    audited("mysql_schema_diff", async ({ source, target, tables }, { signal }) => {
+      try {
+        const [sourceConn, targetConn] = await Promise.all([
+          getConnection(source, scope),
+          getConnection(target, scope),
+        ]);
+        const snapshot = async (conn: DbConnection) => {
+          const names = await tableNames(conn, signal);
+          return loadTableSchemas(
+            conn,
+            names.filter((name) => !tables || globMatches(tables, name)),
+            signal
+          );
+        };
+        const [sourceSchema, targetSchema] = await Promise.all([
+          snapshot(sourceConn),
+          snapshot(targetConn),
+        ]);
+
+        const sourceDb = extractDbName(sourceConn) ?? "";
+        const targetDb = extractDbName(targetConn) ?? "";
+        // A table or column hidden on one side would otherwise look missing there
+        const policies = [
+          { policy: sourceConn.policy, db: sourceDb },
+          { policy: targetConn.policy, db: targetDb },
+        ];
+        const hidden = (table: string, column?: string) =>
+          policies.some(({ policy, db }) => {
+            if (!policy) return false;
+            return column === undefined
+              ? isTableDenied(policy, db, table)
+              : columnRule(policy, table, column) === "deny";
+          });
+        const diff = diffSchemas(sourceSchema, targetSchema, sourceDb, targetDb, hidden);
+        const header = `Schema diff: source "${source}" (${sourceDb}) → target "${target}" (${targetDb})${tables ? `, tables matching ${tables}` : ""}`;
+
+        const content = [
+          { type: "text" as const, text: [header, "", ...diff.summary].join("\n") },
+        ];
+        if (diff.statements.length) {
+          content.push({
+            type: "text",
+            text: `-- Run against "${target}" to match "${source}"\n\n${diff.statements.join("\n\n")}`,
+          });
+        }
+        return { content };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 9: ER diagram
+  server.tool(
+    "mysql_er_diagram",
+    "Generate an entity-relationship diagram (Mermaid, PlantUML or Graphviz DOT) from foreign keys, for the whole schema, a table list, or the tables around a starting table",
+    {
+      database: z.string().describe("Database label from config"),
+      format: z
+        .enum(["mermaid", "plantuml", "dot"])
+        .default("mermaid")
+        .describe("Diagram syntax (default: mermaid)"),
+      tables: z
+        .array(z.string())
+        .optional()
+        .describe("Only include these tables (default: all tables)"),
+      root: z
+        .string()
+        .optional()
+        .describe("Start from this table and include its neighbours via foreign keys"),
+      hops: z
+        .number()
+        .int()
+        .min(0)
+        .max(5)
+        .default(1)
+        .describe("Foreign-key steps to follow from root (default: 1)"),
+    },
+    audited("mysql_er_diagram", async (args, { signal }) => {
+      const { database, format, tables, root, hops } = args;
+      try {
+        const conn = await getConnection(database, scope);
+        const dbName = extractDbName(conn) ?? "";
+        const available = await tableNames(conn, signal);
+
+        const requested = [...(tables ?? []), ...(root ? [root] : [])];
+        const missing = requested.filter((t) => !available.includes(t));
+        if (missing.length > 0) {
+          return {
+            content: [
+              { type: "text", text: `Error: Table(s) not found: ${missing.join(", ")}` },
+            ],
+            isError: true,
+          };
+        }
+
+        let schemas = await loadTableSchemas(
+          conn,
+          tables ? available.filter((t) => tables.includes(t)) : available,
+          signal
+        );
+        if (root) {
+          const included = tablesWithinHops(schemas, dbName, root, hops);
+          schemas = schemas.filter((t) => included.has(t.name));
+        }
+        if (schemas.length === 0) {
+          return { content: [{ type: "text", text: "No tables to draw." }] };
+        }
+
+        const diagram = renderErDiagram(schemas, dbName, format);
+        const fenced = `\`\`\`${format}\n${diagram}\n\`\`\``;
+        return { content: [{ type: "text", text: fenced }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 10: Search schema
+  server.tool(
+    "mysql_search_schema",
+    "Find tables and columns by name or column comment across one, several or all configured databases",
+    {
+      pattern: z
+        .string()
+        .min(1)
+        .describe("Text to look for in table names, column names and comments"),
+      match: z
+        .enum(["substring", "glob", "regex"])
+        .default("substring")
+        .describe(
+          "How to match pattern, case-insensitively (default: substring). Regexes are limited to 100 characters, without nested quantifiers or backreferences"
+        ),
+      databases: z
+        .array(z.string())
+        .optional()
+        .describe("Database labels to search (default: all)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .default(200)
+        .describe("Maximum number of matching tables and columns to list (default: 200)"),
+    },
+    audited("mysql_search_schema", async (args, { signal }) => {
+      const { pattern, match, databases, limit } = args;
+      try {
+        const matches = schemaMatcher(pattern, match);
+        const connections = databases
+          ? await Promise.all(databases.map((label) => getConnection(label, scope)))
+          : await loadConfig(scope);
+
+        const results = await Promise.allSettled(
+          connections.map(async (conn) =>
+            matchSchemaRows(await schemaColumnRows(conn, signal), matches)
+          )
+        );
+
+        const sections: string[] = [];
+        const failures: string[] = [];
+        let listed = 0;
+        let total = 0;
+        results.forEach((result, i) => {
+          const label = connections[i].label;
+          if (result.status === "rejected") {
+            const reason = result.reason as Error;
+            failures.push(`- ${label}: ${reason.message ?? String(reason)}`);
+            return;
+          }
+          const lines: string[] = [];
+          for (const t of result.value) {
+            const hits = (t.tableMatched ? 1 : 0) + t.columns.length;
+            total += hits;
+            if (listed >= limit) continue;
+            lines.push(`  ${t.table}${t.tableMatched ? "  [table]" : ""}`);
+            for (const c of t.columns.slice(0, limit - listed)) {
+              const comment = c.commentMatched ? `  -- ${c.comment}` : "";
+              lines.push(`    ${c.name}  ${c.type}${comment}`);
+            }
+            listed += hits;
+          }
+          if (lines.length) sections.push(`${label}\n${lines.join("\n")}`);
+        });
+
+        const header =
+          `Schema search: "${pattern}" (${match}) in ${connections.length} ` +
+          `database(s) — ${total} match(es)${total > limit ? `, showing the first ${limit}` : ""}`;
+        const parts = [header, ...sections];
+        if (failures.length) parts.push(`Failed:\n${failures.join("\n")}`);
+        return { content: [{ type: "text", text: parts.join("\n\n") }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 11: Profile table
+  server.tool(
+    "mysql_profile_table",
+    "Sample rows and profile each column of a table (null ratio, approximate distinct count, min/max, top values, string lengths) within a row budget that is safe on very large tables",
+    {
+      database: z.string().describe("Database label from config"),
+      table: z.string().describe("Table name"),
+      sampleRows: z
+        .number()
+        .int()
+        .min(0)
+        .max(50)
+        .default(5)
+        .describe("Random rows to show (default: 5)"),
+      rowBudget: z
+        .number()
+        .int()
+        .min(100)
+        .max(100000)
+        .default(10000)
+        .describe("Maximum rows read to compute statistics (default: 10000)"),
+      topN: z
+        .number()
+        .int()
+        .min(0)
+        .max(20)
+        .default(5)
+        .describe("Most frequent values to show per column (default: 5)"),
+    },
+    audited("mysql_profile_table", async (args, { signal }) => {
+      const { database, table, sampleRows, rowBudget, topN } = args;
+      try {
+        const conn = await getConnection(database, scope);
+        const dbName = extractDbName(conn);
+        const notAllowed = statementNotAllowed(conn, "SELECT");
+        if (notAllowed) {
+          return {
+            content: [{ type: "text", text: `Error: ${notAllowed}` }],
+            isError: true,
+          };
+        }
+        if (conn.policy && isTableDenied(conn.policy, dbName, table)) {
+          throw new Error(`Access to table "${table}" is denied by policy.`);
+        }
+
+        const [schema] = await loadTableSchemas(conn, [table], signal);
+        if (!schema) {
+          const text = `Table "${dbName}"."${table}" not found or has no columns.`;
+          return { content: [{ type: "text", text }], isError: true };
+        }
+
+        // Denied columns are already absent from the schema; masks apply before profiling
+        const sample = await sampleTable(conn, schema, rowBudget, signal);
+        const columns = schema.columns.map((c) => c.name);
+        const masks = new Map<string, MaskRule>();
+        for (const c of columns) {
+          const rule = conn.policy ? columnRule(conn.policy, table, c) : null;
+          if (rule && rule !== "deny") masks.set(c, rule);
+        }
+        const rows = sample.rows.map((row) => {
+          const out: Record<string, unknown> = {};
+          for (const c of columns) {
+            const rule = masks.get(c);
+            out[c] = rule ? maskValue(row[c], rule) : row[c];
+          }
+          return out;
+        });
+        noteAudit({ rowsReturned: rows.length });
+
+        const lines = schema.columns.map((c) => {
+          const values = rows.map((r) => r[c.name]);
+          const lengths =
+            LONG_TYPE_RE.test(c.type) && !masks.has(c.name)
+              ? sample.rows.map((r) => r[lengthAlias(c.name)] as number | null)
+              : undefined;
+          return formatColumnProfile(
+            c.name,
+            c.type,
+            profileColumn(values, topN, lengths),
+            masks.has(c.name) ? undefined : sample.cardinality.get(c.name)
+          );
+        });
+
+        const parts = [
+          `Table: ${dbName}.${table} ` +
+            `(~${sample.estimatedRows} rows; profiled ${sample.method})`,
+        ];
+        if (sampleRows > 0 && rows.length > 0) {
+          const picked = pickRandom(rows, sampleRows);
+          const [rendered] = formatQueryResult(
+            columns,
+            picked,
+            { rowCount: picked.length },
+            "markdown"
+          );
+          parts.push(`Sample:\n${rendered}`);
+        }
+        parts.push(`Columns (statistics over ${rows.length} rows):\n${lines.join("\n")}`);
+        return { content: [{ type: "text", text: parts.join("\n\n") }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 12: Index advice
+  server.tool(
+    "mysql_index_advice",
+    "Analyze a query's EXPLAIN FORMAT=JSON plan for full scans, filesorts, temporary tables and poorly selective indexes, and propose CREATE INDEX statements with reasoning. Proposals are never applied.",
+    {
+      database: z.string().describe("Database label from config"),
+      query: z.string().describe("SQL query to analyze"),
+      params: z
+        .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+        .optional()
+        .describe("Optional query parameters for ? placeholders"),
+    },
+    audited("mysql_index_advice", async ({ database, query, params }, { signal }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const rejected = explainRejection(conn, query);
+        if (rejected) {
+          return { content: [{ type: "text", text: `Error: ${rejected}` }], isError: true };
+        }
+
+        const plan = await explainJson(conn, query, params, signal);
+        const tables = [...new Set(tableAliases(tokenizeSql(query)).values())];
+        const schemas = await loadTableSchemas(conn, tables, signal);
+        const indexes = new Map(schemas.map((t) => [t.name, t.indexes]));
+        const advice = adviseIndexes(plan, query, indexes);
+
+        if (advice.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No index problems found: no large full scans, filesorts, temporary tables or poorly selective indexes in the plan.",
+              },
+            ],
+          };
+        }
+        const sections = advice.map((a, i) => {
+          const lines = [`${i + 1}. ${a.table ? `${a.table}: ` : ""}${a.problem}`];
+          lines.push(...a.reasoning.map((r) => `   ${r}`));
+          if (a.statement) lines.push(`   Proposal: ${a.statement}`);
+          return lines.join("\n");
+        });
+        const footer =
+          "Proposals are not applied. Create indexes on a non-production copy first and " +
+          "re-check the plan with mysql_explain.";
+        const text = `Index advice:\n\n${sections.join("\n\n")}\n\n${footer}`;
+        return { content: [{ type: "text", text }] };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 13: Search audit log
+  server.tool(
+    "mysql_audit_search",
+    "Search the audit log of tool invocations (newest first), e.g. what ran against a database today",
+    {
+      database: z.string().optional().describe("Only entries for this database label"),
+      tool: z.string().optional().describe("Only entries for this tool, e.g. mysql_query"),
+      since: z
+        .string()
+        .optional()
+        .describe("ISO 8601 date or timestamp; only entries at or after it"),
+      until: z
+        .string()
+        .optional()
+        .describe("ISO 8601 date or timestamp; only entries at or before it"),
+      contains: z.string().optional().describe("Case-insensitive substring of the SQL text"),
+      errorsOnly: z.boolean().optional().describe("Only failed or rejected invocations"),
+      limit: z
+        .coerce
+        .number()
+        .int()
+        .positive()
+        .max(1000)
+        .default(50)
+        .describe("Max entries to return (default 50)"),
+    },
+    audited("mysql_audit_search", async (args) => {
+      try {
+        const { audit } = await loadFullConfig();
+        if (!audit) {
+          return errorResult(
+            new Error(`Audit logging is not enabled. Add an "audit" section to ${CONFIG_PATH}.`)
+          );
+        }
+
+        const parseDate = (value: string | undefined, name: string) => {
+          if (value === undefined) return undefined;
+          const d = new Date(value);
+          if (Number.isNaN(d.getTime())) throw new Error(`Invalid ${name} date: ${value}`);
+          return d;
+        };
+
+        const entries = await searchAuditLog(
+          audit,
+          {
+            label: args.database,
+            tool: args.tool,
+            since: parseDate(args.since, "since"),
+            until: parseDate(args.until, "until"),
+            contains: args.contains,
+            errorsOnly: args.errorsOnly,
+            limit: args.limit,
+          },
+          scope
+        );
+
+        if (entries.length === 0) {
+          return { content: [{ type: "text", text: "No matching audit entries." }] };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Audit entries (${entries.length}, newest first):\n${entries.map((e) => JSON.stringify(e)).join("\n")}`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 14: Run several statements atomically
+  server.tool(
+    "mysql_transaction",
+    "Run an ordered list of statements atomically in one transaction on a read-write connection. Each statement passes the same checks as mysql_query; if any step fails, every step is rolled back. Reports affected rows per step and which step failed. On connections with confirmWrites, the first call is a rolled-back dry run that returns a confirmation token.",
+    {
+      database: z.string().describe("Database label from config"),
+      steps: z
+        .array(
+          z.object({
+            query: z.string().describe("One SQL statement"),
+            params: z
+              .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+              .optional()
+              .describe("Optional parameters for ? placeholders"),
+          })
+        )
+        .min(1)
+        .max(MAX_TRANSACTION_STEPS)
+        .describe("Statements to run in order"),
+      confirm: z
+        .string()
+        .optional()
+        .describe(
+          "Confirmation token from a dry run; required to commit on connections with confirmWrites"
+        ),
+    },
+    audited("mysql_transaction", async ({ database, steps, confirm }, { signal }) => {
+      try {
+        noteAudit({ statements: steps });
+        const conn = await getConnection(database, scope);
+        if (conn.readOnly) {
+          return errorResult(
+            new Error(
+              `mysql_transaction needs a read-write connection; "${database}" is read-only (set readOnly: false to allow writes).`
+            )
+          );
+        }
+        const rejected = transactionRejection(conn, steps);
+        if (rejected) return errorResult(rejected);
+
+        const fingerprint = queryFingerprint(JSON.stringify(steps));
+        const confirming = steps.some((step) =>
+          requiresConfirmation(conn, classifyStatement(step.query))
+        );
+        if (confirming && confirm && !consumeConfirmation(confirm, database, fingerprint)) {
+          return errorResult(
+            queryError(
+              "Invalid or expired confirmation token. Tokens are single-use and only valid for the exact steps of their dry run; run the transaction again without confirm.",
+              "CONFIRMATION_INVALID"
+            )
+          );
+        }
+        const dryRun = confirming && !confirm;
+
+        if (dryRun) {
+          // A rollback can't undo writes to MyISAM and friends, so don't run those
+          const dbName = extractDbName(conn);
+          const tables = new Set<string>();
+          for (const { query } of steps) {
+            for (const table of tableAliases(tokenizeSql(query)).values()) tables.add(table);
+            const target = writeTarget(query);
+            if (target && (!target.schema || target.schema === dbName)) tables.add(target.table);
+          }
+          const unsafe = await withPool(
+            conn,
+            (connection) => nonTransactionalTables(connection, dbName, tables),
+            signal
+          );
+          if (unsafe.length > 0) {
+            const token = issueConfirmation(database, fingerprint);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Dry run on "${database}" not run: ${unsafe.join(", ")} can't roll back changes.\n\nTo apply anyway, call mysql_transaction again with the same steps and confirm: "${token}".`,
+                },
+              ],
+            };
+          }
+        }
+
+        const progress: TransactionProgress = { began: false, outcomes: [] };
+        const { outcomes } = progress;
+        try {
+          await runTransaction(conn, steps, progress, !dryRun, signal);
+        } catch (e) {
+          if (!progress.began) throw e;
+          const failed = outcomes.length;
+          const msg = e instanceof Error ? e.message : String(e);
+          const code = (e as { code?: unknown } | null)?.code;
+          const where =
+            failed < steps.length
+              ? `step ${failed + 1} (${classifyStatement(steps[failed].query).kind})`
+              : "COMMIT";
+          const done =
+            failed > 0
+              ? `\n\nCompleted before the failure (rolled back):\n${formatStepOutcomes(outcomes, dryRun)}`
+              : "";
+          return errorResult(
+            queryError(
+              `Transaction rolled back on "${database}": ${where} failed: ${msg}${done}`,
+              typeof code === "string" ? code : "STEP_FAILED"
+            )
+          );
+        }
+
+        noteAudit({
+          rowsAffected: outcomes.reduce((sum, o) => sum + (o.affectedRows ?? 0), 0),
+        });
+        const report = formatStepOutcomes(outcomes, dryRun);
+        if (dryRun) {
+          const token = issueConfirmation(database, fingerprint);
+          const minutes = CONFIRMATION_TTL_MS / 60_000;
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dry run on "${database}" — all ${steps.length} step(s) ran and were rolled back.\n\n${report}\n\nTo apply, call mysql_transaction again with the same steps and confirm: "${token}" (valid for ${minutes} minutes, single use).`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Transaction committed on "${database}" (${steps.length} step(s)).\n${report}`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 15: Open a session
+  server.tool(
+    "mysql_begin",
+    "Start a session: a transaction pinned to one connection that persists across mysql_query calls (pass the returned session id), with its session variables and temporary tables. Nothing is committed until mysql_commit; mysql_rollback, an idle timeout or shutdown roll it back.",
+    {
+      database: z.string().describe("Database label from config"),
+    },
+    audited("mysql_begin", async ({ database }) => {
+      try {
+        const conn = await getConnection(database, scope);
+        const session = await beginDbSession(conn, owner);
+        const idle = Math.round(conn.sessionIdleTimeoutMs / 1000);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Session ${session.id} started on "${database}" (${describeServer(session.server)}${conn.readOnly ? ", read-only" : ""}).\nPass session: "${session.id}" to mysql_query. Changes stay uncommitted until mysql_commit; the session is rolled back after ${idle}s idle.`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 16: Commit a session
+  server.tool(
+    "mysql_commit",
+    "Commit a session's transaction and close the session. On connections with confirmWrites, the first call summarises the session and returns a confirmation token.",
+    {
+      session: z.string().describe("Session id from mysql_begin"),
+      confirm: z
+        .string()
+        .optional()
+        .describe("Confirmation token; required on connections with confirmWrites"),
+    },
+    audited("mysql_commit", async ({ session: id, confirm }, { signal }) => {
+      try {
+        const session = findDbSession(id, scope, owner);
+        noteAudit({ label: session.label });
+        const conn = await getConnection(session.label, scope);
+        const summary = `${session.statements} statement(s), ${session.affectedRows} row(s) affected`;
+
+        if (conn.confirmWrites && session.writes > 0) {
+          // Running another statement changes the fingerprint and voids the token
+          const fingerprint = queryFingerprint(`session:${id}`, [session.statements]);
+          if (!confirm) {
+            const token = issueConfirmation(session.label, fingerprint);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Session ${id} on "${session.label}" has ${session.writes} write(s) to commit (${summary}).\n\nTo commit, call mysql_commit again with confirm: "${token}" (valid for ${CONFIRMATION_TTL_MS / 60_000} minutes, single use).`,
+                },
+              ],
+            };
+          }
+          if (!consumeConfirmation(confirm, session.label, fingerprint)) {
+            return errorResult(
+              queryError(
+                "Invalid or expired confirmation token. Tokens are single-use and void once the session runs another statement; call mysql_commit again without confirm.",
+                "CONFIRMATION_INVALID"
+              )
+            );
+          }
+        }
+
+        try {
+          await withDbSession(conn, session, (connection) => connection.commit(), signal);
+        } finally {
+          // A failed COMMIT leaves nothing worth keeping open; a busy session
+          // still belongs to the call running on it
+          if (!session.busy && dbSessions.has(id)) discardDbSession(session);
+        }
+        noteAudit({ rowsAffected: session.affectedRows });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Committed session ${id} on "${session.label}" (${summary}).`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 17: Roll back a session
+  server.tool(
+    "mysql_rollback",
+    "Roll back a session's transaction, discarding all its changes, and close the session",
+    {
+      session: z.string().describe("Session id from mysql_begin"),
+    },
+    audited("mysql_rollback", async ({ session: id }, { signal }) => {
+      try {
+        const session = findDbSession(id, scope, owner);
+        noteAudit({ label: session.label });
+        const conn = await getConnection(session.label, scope);
+        try {
+          await withDbSession(conn, session, (connection) => connection.rollback(), signal);
+        } finally {
+          if (!session.busy && dbSessions.has(id)) discardDbSession(session);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Rolled back session ${id} on "${session.label}" (${session.statements} statement(s) discarded).`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 18: Export query results to a file
+  server.tool(
+    "mysql_export",
+    "Stream the full result of a read query to a file under the configured export directory (CSV, NDJSON, SQL INSERT statements or Parquet). Returns only the path, row count and size, not the rows.",
+    {
+      database: z.string().describe("Database label from config"),
+      query: z.string().describe("Read statement (SELECT, SHOW, ...) whose result to export"),
+      params: z
+        .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+        .optional()
+        .describe("Optional query parameters for ? placeholders"),
+      format: z.enum(EXPORT_FORMATS).describe("File format"),
+      path: z.string().describe("File path, relative to the export directory"),
+      table: z
+        .string()
+        .optional()
+        .describe("Table name for sql INSERT statements (default: the result's source table)"),
+      overwrite: z.boolean().default(false).describe("Replace an existing file"),
+    },
+    audited("mysql_export", async (args, { signal }) => {
+      const { database, query, params, format, path, table, overwrite } = args;
+      try {
+        const { exports } = await loadFullConfig();
+        if (!exports) {
+          return errorResult(
+            new Error("Exports are disabled. Set exports.dir in the config file to enable them.")
+          );
+        }
+        const conn = await getConnection(database, scope);
+        const statement = classifyStatement(query);
+        const rejected = statementRejection(conn, statement, query);
+        if (rejected) return errorResult(rejected);
+        if (!statement.readOnly) {
+          return errorResult(
+            new Error(
+              `mysql_export only runs read statements (SELECT, SHOW, DESCRIBE, EXPLAIN); got ${statement.kind}.`
+            )
+          );
+        }
+
+        const file = resolveInsideDir(exports.dir, path);
+        await mkdir(exports.dir, { recursive: true });
+        await assertRealPathInside(exports.dir, file);
+        if (!overwrite && existsSync(file)) {
+          return errorResult(new Error(`${file} already exists. Pass overwrite: true to replace it.`));
+        }
+        await mkdir(dirname(file), { recursive: true });
+
+        const result = await withPool(
+          conn,
+          async (connection) => {
+            await connection.query("SET SESSION TRANSACTION READ ONLY");
+            await connection.beginTransaction();
+            try {
+              return await exportRows(conn, connection, query, params, format, file, {
+                table,
+                maxBytes: exports.maxMb * 1024 * 1024,
+              });
+            } finally {
+              // A failed export may have destroyed the connection to stop the result
+              await connection.rollback().catch(() => {});
+              await connection.query("SET SESSION TRANSACTION READ WRITE").catch(() => {});
+            }
+          },
+          signal,
+          exports.timeoutMs
+        );
+
+        noteAudit({ rowsReturned: result.rows });
+        const size =
+          result.bytes >= 1024 * 1024
+            ? `${(result.bytes / 1024 / 1024).toFixed(1)} MB`
+            : `${result.bytes} bytes`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${result.rows} row(s) to ${file} (${format}, ${size}).`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Tool 19: Import a CSV/NDJSON file into a table
+  server.tool(
+    "mysql_import",
+    "Load a CSV or NDJSON file from the configured import directory into a table on a read-write connection. Columns are matched to the table by name (or mapping) and values are validated against the column types; rows go in as batched multi-row INSERTs in one transaction, which stops at the first failing batch and rolls back the whole import. Supports upsert (ON DUPLICATE KEY UPDATE) and a validation-only dry run.",
+    {
+      database: z.string().describe("Database label from config"),
+      table: z.string().describe("Target table"),
+      path: z.string().describe("File path, relative to the import directory"),
+      format: z
+        .enum(IMPORT_FORMATS)
+        .optional()
+        .describe("File format (default: from the extension; .jsonl is NDJSON)"),
+      mode: z
+        .enum(["insert", "upsert"])
+        .default("insert")
+        .describe("upsert updates rows whose primary or unique key already exists"),
+      mapping: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("File column → table column, for names that differ"),
+      batchSize: z.coerce.number().int().min(1).max(5000).default(500).describe("Rows per INSERT"),
+      dryRun: z.boolean().default(false).describe("Only validate the file against the table"),
+      continueOnError: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Keep trying later batches after one fails, to report every failing batch; the import is still rolled back"
+        ),
+      confirm: z
+        .string()
+        .optional()
+        .describe("Confirmation token from a dry run; required on connections with confirmWrites"),
+    },
+    audited("mysql_import", async (args, { signal }) => {
+      const { database, table, path, mode, mapping, batchSize, dryRun, continueOnError, confirm } =
+        args;
+      try {
+        noteAudit({ table });
+        const { imports } = await loadFullConfig();
+        if (!imports) {
+          return errorResult(
+            new Error("Imports are disabled. Set imports.dir in the config file to enable them.")
+          );
+        }
+        const conn = await getConnection(database, scope);
+        if (conn.readOnly) {
+          return errorResult(
+            new Error(
+              `mysql_import needs a read-write connection; "${database}" is read-only (set readOnly: false to allow writes).`
+            )
+          );
+        }
+        const notAllowed = statementNotAllowed(conn, "INSERT");
+        if (notAllowed) return errorResult(new Error(notAllowed));
+        if (conn.policy && isTableDenied(conn.policy, extractDbName(conn), table)) {
+          return errorResult(new Error(`Access to table "${table}" is denied by policy.`));
+        }
+
+        const file = resolveInsideDir(imports.dir, path);
+        await assertRealPathInside(imports.dir, file);
+        const { size } = await stat(file);
+        if (size > imports.maxMb * 1024 * 1024) {
+          return errorResult(
+            new Error(`${file} is ${(size / 1024 / 1024).toFixed(1)} MB; imports.maxMb is ${imports.maxMb}.`)
+          );
+        }
+        const text = await readFile(file, "utf-8");
+        const format: ImportFormat =
+          args.format ?? (/\.(ndjson|jsonl|json)$/i.test(file) ? "ndjson" : "csv");
+        const { header, records } =
+          format === "csv" ? parseCsvRecords(text) : parseNdjsonRecords(text);
+        if (records.length === 0) {
+          return errorResult(new Error(`${file} contains no data rows.`));
+        }
+
+        const [schema] = await loadTableSchemas(conn, [table], signal);
+        if (!schema || schema.columns.length === 0) {
+          return errorResult(new Error(`Table "${table}" not found in "${database}".`));
+        }
+        const pairs = mapImportColumns(header, schema.columns, mapping);
+        const denied = pairs.find(
+          ({ column }) => conn.policy && columnRule(conn.policy, table, column.name) === "deny"
+        );
+        if (denied) {
+          return errorResult(
+            new Error(`Access to column "${table}.${denied.column.name}" is denied by policy.`)
+          );
+        }
+
+        // Validate every value before anything is written
+        const errors: string[] = [];
+        const rows: ImportRow[] = [];
+        for (const record of records) {
+          const row: ImportRow = { line: record.line, columns: [], values: [] };
+          for (const { field, column } of pairs) {
+            let checked: ReturnType<typeof importValue>;
+            if (Object.hasOwn(record.values, field)) {
+              checked = importValue(column, record.values[field]);
+            } else {
+              // A key missing from an NDJSON object leaves the column to its default
+              const required =
+                !column.nullable && column.default === null && !/auto_increment/i.test(column.extra);
+              if (!required) continue;
+              checked = { error: "missing, and the column has no default" };
+            }
+            if ("error" in checked) {
+              if (errors.length < MAX_IMPORT_ERRORS) {
+                errors.push(`Line ${record.line}, column "${column.name}": ${checked.error}`);
+              }
+            } else {
+              row.columns.push(column.name);
+              row.values.push(checked.value);
+            }
+          }
+          rows.push(row);
+        }
+        if (errors.length > 0) {
+          return errorResult(
+            queryError(
+              `${file} does not match "${table}"; nothing was imported.\n${errors.join("\n")}`,
+              "IMPORT_INVALID"
+            )
+          );
+        }
+
+        const columns = pairs.map((p) => p.column.name);
+        const summary = `${records.length} row(s), columns: ${columns.join(", ")}`;
+        const fingerprint = queryFingerprint(
+          `import:${table}:${mode}:${JSON.stringify(mapping ?? {})}`,
+          [createHash("sha256").update(text).digest("hex")]
+        );
+        const confirming = conn.confirmWrites && !dryRun;
+        if (dryRun || (confirming && !confirm)) {
+          const lines = [`Dry run: ${file} is valid for "${table}" (${summary}). Nothing was imported.`];
+          if (confirming) {
+            const token = issueConfirmation(database, fingerprint);
+            lines.push(
+              `\nTo import, call mysql_import again with the same arguments and confirm: "${token}" (valid for ${CONFIRMATION_TTL_MS / 60_000} minutes, single use).`
+            );
+          }
+          return { content: [{ type: "text", text: lines.join("\n") }] };
+        }
+        if (confirming && !(confirm && consumeConfirmation(confirm, database, fingerprint))) {
+          return errorResult(
+            queryError(
+              "Invalid or expired confirmation token. Tokens are single-use and only valid for the same file, table and options; run mysql_import again without confirm.",
+              "CONFIRMATION_INVALID"
+            )
+          );
+        }
+
+        const keys =
+          mode === "upsert"
+            ? schema.indexes.filter((i) => i.unique).flatMap((i) => i.columns)
+            : null;
+        const result = await withPool(
+          conn,
+          async (connection, server) => {
+            const unsafe = await nonTransactionalTables(connection, extractDbName(conn), [table]);
+            if (unsafe.length > 0) {
+              throw new Error(
+                `${unsafe.join(", ")} can't roll back a failed import; mysql_import needs a transactional engine such as InnoDB.`
+              );
+            }
+            await connection.beginTransaction();
+            try {
+              const { affected, errors } = await runImportBatches(
+                connection,
+                importStatements(table, rows, batchSize, keys, server),
+                continueOnError
+              );
+              if (errors.length > 0) {
+                throw queryError(
+                  `Import into "${table}" rolled back; ${errors.length} batch(es) failed:\n${errors.join("\n")}`,
+                  "IMPORT_FAILED"
+                );
+              }
+              const overLimit = affectedRowsGuardrail(conn, classifyStatement("INSERT"), affected);
+              if (overLimit) throw overLimit;
+              await connection.commit();
+              return { affected, batches: Math.ceil(rows.length / batchSize) };
+            } catch (e) {
+              await connection.rollback().catch(() => {});
+              throw e;
+            }
+          },
+          signal,
+          imports.timeoutMs
+        );
+
+        noteAudit({ rowsImported: records.length, rowsAffected: result.affected });
+        const upserted = mode === "upsert" ? " (an updated row counts twice)" : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Imported ${records.length} row(s) from ${file} into "${table}" in ${result.batches} batch(es); ${result.affected} row(s) affected${upserted}.`,
+            },
+          ],
+        };
+      } catch (e) {
+        return errorResult(e);
+      }
+    })
+  );
+
+  // Resource template variable completion
+  const completeLabel = async (value: string) =>
+    (await loadConfig(scope)).map((c) => c.label).filter((l) => l.startsWith(value));
+
+  const completeTable = async (
+    value: string,
+    context?: { arguments?: Record<string, string> }
+  ) => {
+    const label = context?.arguments?.label;
+    if (!label) return [];
+    try {
+      const conn = await getConnection(label, scope);
+      return (await tableNames(conn)).filter((t) => t.startsWith(value));
+    } catch {
+      return [];
+    }
+  };
+
+  // Resource 1: Tables of a database
+  server.registerResource(
+    "tables",
+    new ResourceTemplate("mysql://{label}/tables", {
+      list: async () => ({
+        resources: (await loadConfig(scope)).map((c) => ({
+          uri: `mysql://${encodeURIComponent(c.label)}/tables`,
+          name: `${c.label} tables`,
+          mimeType: "text/plain",
+        })),
+      }),
+      complete: {
+        label: completeLabel,
+      },
+    }),
+    {
+      description: "Tables in a database with row counts and engine info (as mysql_list_tables)",
+      mimeType: "text/plain",
+    },
+    async (uri, { label }, { signal }) => {
+      const conn = await getConnection(uriVariable(label), scope);
+      const text = await listTablesText(conn, signal);
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+    }
+  );
+
+  // Resource 2: Table definition
+  server.registerResource(
+    "table",
+    new ResourceTemplate("mysql://{label}/tables/{table}", {
+      list: undefined, // enumerating every table of every connection is too costly
+      complete: {
+        label: completeLabel,
+        table: completeTable,
+      },
+    }),
+    {
+      description:
+        "Columns, types, constraints and indexes of a table (as mysql_describe_table)",
+      mimeType: "text/plain",
+    },
+    async (uri, { label, table }, { signal }) => {
+      const conn = await getConnection(uriVariable(label), scope);
+      const text = await describeTableText(conn, uriVariable(table), signal);
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+    }
+  );
+
+  // Prompt arguments shared by the built-in prompts
+  const labelArg = completable(
+    z.string().describe("Database label from config"),
+    completeLabel
+  );
+
+  // Prompt 1: Optimize a query
+  server.registerPrompt(
+    "optimize_query",
+    {
+      description:
+        "Review a query with its execution plan and table definitions pre-loaded, and suggest optimizations",
+      argsSchema: {
+        database: labelArg,
+        query: z.string().describe("SQL query to optimize"),
+      },
+    },
+    ({ database, query }, { signal }) =>
+      withAudit(
+        "prompt:optimize_query",
+        { database, query },
+        async () => {
+          const conn = await getConnection(database, scope);
+          const rejected = explainRejection(conn, query);
+          const plan = rejected
+            ? `(unavailable: ${rejected})`
+            : await promptContext(() => explainPlanText(conn, query, undefined, signal));
+          const tables = await promptContext(async () =>
+            tableDefinitions(conn, await referencedTables(conn, query, signal), signal)
+          );
+          return promptResult(
+            [
+              `Review and optimize this query on the "${database}" database:`,
+              "```sql",
+              query,
+              "```",
+              "",
+              "## Execution plan",
+              plan,
+              "",
+              "## Table definitions",
+              tables,
+              "",
+              "Identify the bottlenecks in the plan. Suggest rewrites and indexes (as CREATE INDEX statements), explain the expected impact of each, and note any trade-offs for writes.",
+            ].join("\n")
+          );
+        },
+        () => false
+      )
+  );
+
+  // Prompt 2: Explain a table
+  server.registerPrompt(
+    "explain_table",
+    {
+      description:
+        "Explain what a table stores and how it relates to others, with its definition pre-loaded",
+      argsSchema: {
+        database: labelArg,
+        table: z.string().describe("Table name"),
+      },
+    },
+    ({ database, table }, { signal }) =>
+      withAudit(
+        "prompt:explain_table",
+        { database },
+        async () => {
+          const conn = await getConnection(database, scope);
+          const definition = await describeTableText(conn, table, signal);
+          return promptResult(
+            [
+              `Explain the "${table}" table of the "${database}" database:`,
+              "",
+              definition,
+              "",
+              "Describe what each row represents, the role of its key columns and indexes, and its relationships to other tables. Point out anything notable, such as missing indexes on foreign keys or nullable columns that look required.",
+            ].join("\n")
+          );
+        },
+        () => false
+      )
+  );
+
+  // Prompt 3: Write a report query
+  server.registerPrompt(
+    "write_report_query",
+    {
+      description:
+        "Write a read-only reporting query for a goal, with the relevant table definitions pre-loaded",
+      argsSchema: {
+        database: labelArg,
+        goal: z.string().describe("What the report should show"),
+        tables: z
+          .string()
+          .optional()
+          .describe("Comma-separated tables to use (default: list all tables)"),
+      },
+    },
+    ({ database, goal, tables }, { signal }) =>
+      withAudit(
+        "prompt:write_report_query",
+        { database },
+        async () => {
+          const conn = await getConnection(database, scope);
+          const names = (tables ?? "")
+            .split(",")
+            .map((t) => t.trim())
+            .filter(Boolean);
+          const context = names.length
+            ? await tableDefinitions(conn, names, signal)
+            : await promptContext(() => listTablesText(conn, signal));
+          return promptResult(
+            [
+              `Write a MySQL reporting query for the "${database}" database.`,
+              "",
+              `Goal: ${goal}`,
+              "",
+              names.length ? "## Table definitions" : "## Tables",
+              context,
+              "",
+              "Write a single read-only SELECT statement (use mysql_describe_table for any table whose columns you need). Explain the assumptions behind joins and filters, then run it with mysql_query and a small limit to check the result.",
+            ].join("\n")
+          );
+        },
+        () => false
+      )
+  );
+
+  syncCustomPrompts(server, configCache?.prompts ?? []);
+
+  liveServers.add(server);
+  server.server.onclose = () => liveServers.delete(server);
+
+  return server;
+}
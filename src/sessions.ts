@@ -0,0 +1,206 @@
+import mysql from "mysql2/promise";
+import { randomBytes } from "crypto";
+import type { DbConnection, LabelScope } from "./config.js";
+import { type QueryParam, type StreamedResult, streamRows } from "./cursors.js";
+import {
+  getOrCreatePool,
+  prepareSession,
+  queryError,
+  acquireQuerySlot,
+  interruptible,
+} from "./pool.js";
+import type { ServerInfo } from "./server-flavor.js";
+import { tokenizeSql, isWord, type StatementInfo } from "./sql.js";
+import { NON_ATOMIC_KINDS } from "./transactions.js";
+import { requiresConfirmation, affectedRowsGuardrail } from "./writes.js";
+
+// ─── Sessions ────────────────────────────────────────────────────
+
+/** An open transaction pinned to one pooled connection across tool calls. */
+interface DbSession {
+  id: string;
+  label: string;
+  /** HTTP token that opened the session (null over stdio); no other token can use it. */
+  owner: string | null;
+  connection: mysql.PoolConnection;
+  server: ServerInfo;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  /** A statement is running; sessions take one call at a time. */
+  busy: boolean;
+  /** Statements run so far; part of the commit confirmation fingerprint. */
+  statements: number;
+  /** Statements that would need a confirmation token outside a session. */
+  writes: number;
+  affectedRows: number;
+}
+
+export const dbSessions = new Map<string, DbSession>();
+
+/** Lets maxAffectedRows undo one statement without ending the session. */
+const GUARDRAIL_SAVEPOINT = "mcp_guardrail";
+
+/** Error if `statement` would commit or leave the session's transaction. */
+export function sessionRejection(statement: StatementInfo, query: string): Error | null {
+  if (statement.kind === "TRANSACTION") {
+    return new Error(
+      "Transaction statements can't run in a session; use mysql_commit or mysql_rollback."
+    );
+  }
+  const tokens = tokenizeSql(query);
+  const temporary = isWord(tokens[0], "CREATE", "DROP") && isWord(tokens[1], "TEMPORARY");
+  if (NON_ATOMIC_KINDS.has(statement.kind) && !temporary) {
+    return new Error(
+      `${statement.kind} statements can't run in a session: they commit implicitly or escape its transaction. Temporary tables are allowed.`
+    );
+  }
+  return null;
+}
+
+/**
+ * Forgets a session and destroys its connection; the server rolls back
+ * whatever is uncommitted. Destroying rather than releasing keeps session
+ * variables and temporary tables out of the pool.
+ */
+export function discardDbSession(session: DbSession): void {
+  clearTimeout(session.idleTimer);
+  dbSessions.delete(session.id);
+  session.connection.destroy();
+}
+
+function touchDbSession(conn: DbConnection, session: DbSession): void {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    console.error(`Session ${session.id} (${session.label}) idle — rolled back`);
+    discardDbSession(session);
+  }, conn.sessionIdleTimeoutMs);
+  session.idleTimer.unref();
+}
+
+/** Pins a pooled connection and opens a transaction on it for `owner`. */
+export async function beginDbSession(conn: DbConnection, owner: string | null): Promise<DbSession> {
+  const open = [...dbSessions.values()].filter((s) => s.label === conn.label).length;
+  // Always leave one pooled connection for calls outside sessions
+  const limit = Math.min(conn.maxSessions, conn.poolSize - 1);
+  if (open >= limit) {
+    throw queryError(
+      `"${conn.label}" allows ${limit} open session(s) (maxSessions, and one fewer than poolSize). Commit or roll back a session first.`,
+      "SESSION_LIMIT"
+    );
+  }
+  const entry = getOrCreatePool(conn);
+  const connection = await entry.pool.getConnection();
+  try {
+    const server = await prepareSession(conn, entry, connection);
+    if (conn.readOnly) await connection.query("SET SESSION TRANSACTION READ ONLY");
+    await connection.beginTransaction();
+    const session: DbSession = {
+      id: randomBytes(12).toString("hex"),
+      label: conn.label,
+      owner,
+      connection,
+      server,
+      busy: false,
+      statements: 0,
+      writes: 0,
+      affectedRows: 0,
+    };
+    dbSessions.set(session.id, session);
+    touchDbSession(conn, session);
+    return session;
+  } catch (e) {
+    connection.destroy();
+    throw e;
+  }
+}
+
+/**
+ * Open session `id`, if `owner` opened it and its label is visible within
+ * `scope`. Other tokens get the same error as for a session that doesn't exist.
+ */
+export function findDbSession(id: string, scope: LabelScope, owner: string | null): DbSession {
+  const session = dbSessions.get(id);
+  if (!session || session.owner !== owner || (scope && !scope.includes(session.label))) {
+    throw queryError(
+      `Unknown session "${id}". It may have been committed, rolled back or closed after sessionIdleTimeoutMs of inactivity; start a new one with mysql_begin.`,
+      "SESSION_NOT_FOUND"
+    );
+  }
+  return session;
+}
+
+/**
+ * Runs `fn` on the session's connection under the usual concurrency limit
+ * and timeout. A timed-out, cancelled or broken statement ends the session.
+ */
+export async function withDbSession<T>(
+  conn: DbConnection,
+  session: DbSession,
+  fn: (connection: mysql.PoolConnection) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (session.busy) {
+    throw queryError(`Session ${session.id} is still running another statement.`, "SESSION_BUSY");
+  }
+  session.busy = true;
+  clearTimeout(session.idleTimer);
+  try {
+    const releaseSlot = await acquireQuerySlot(conn, signal);
+    try {
+      return await interruptible(
+        conn,
+        session.connection,
+        () => fn(session.connection),
+        signal,
+        (interrupted) => {
+          if (interrupted) discardDbSession(session);
+        }
+      );
+    } finally {
+      releaseSlot();
+    }
+  } catch (e) {
+    if ((e as { fatal?: unknown }).fatal) discardDbSession(session);
+    if (dbSessions.has(session.id)) throw e;
+    const code = (e as { code?: unknown }).code;
+    throw queryError(
+      `${e instanceof Error ? e.message : String(e)} Session ${session.id} was rolled back and closed.`,
+      typeof code === "string" ? code : "SESSION_CLOSED"
+    );
+  } finally {
+    session.busy = false;
+    if (dbSessions.has(session.id)) touchDbSession(conn, session);
+  }
+}
+
+/** One mysql_query statement inside a session; maxAffectedRows undoes only it. */
+export async function sessionQuery(
+  conn: DbConnection,
+  session: DbSession,
+  statement: StatementInfo,
+  query: string,
+  params: QueryParam[] | undefined,
+  offset: number,
+  max: number,
+  signal?: AbortSignal
+): Promise<StreamedResult> {
+  return withDbSession(
+    conn,
+    session,
+    async (connection) => {
+      const guarded = conn.guardrails.maxAffectedRows !== undefined && !statement.readOnly;
+      if (guarded) await connection.query(`SAVEPOINT ${GUARDRAIL_SAVEPOINT}`);
+      const streamed = await streamRows(connection, query, params, offset, max, true);
+      session.statements++;
+      const affected = streamed.header?.affectedRows;
+      const overLimit = affectedRowsGuardrail(conn, statement, affected);
+      if (overLimit) {
+        await connection.query(`ROLLBACK TO SAVEPOINT ${GUARDRAIL_SAVEPOINT}`);
+        throw overLimit;
+      }
+      if (requiresConfirmation(conn, statement)) session.writes++;
+      session.affectedRows += affected ?? 0;
+      return streamed;
+    },
+    signal
+  );
+}
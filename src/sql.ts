@@ -0,0 +1,418 @@
+// ─── SQL Tokenizer ───────────────────────────────────────────────
+
+type SqlTokenType =
+  | "word"
+  | "ident"
+  | "string"
+  | "number"
+  | "variable"
+  | "param"
+  | "punct";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Raw text for words/numbers/punctuation; unquoted content for strings and `ident`s. */
+  value: string;
+  start: number;
+  end: number;
+}
+
+function isWordChar(ch: string): boolean {
+  return /[A-Za-z0-9_$]/.test(ch) || ch.charCodeAt(0) > 0x7f;
+}
+
+/** Reads a quoted run starting at `start` (the opening quote). */
+function readQuoted(
+  sql: string,
+  start: number,
+  quote: string,
+  backslashEscapes: boolean
+): { value: string; end: number } {
+  let value = "";
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\") {
+      value += sql[i + 1] ?? "";
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        value += quote;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += ch;
+    i++;
+  }
+  return { value, end: sql.length }; // unterminated — runs to end of input
+}
+
+/**
+ * Splits SQL into tokens the way the MySQL lexer sees them. Comments are
+ * dropped, except executable comments (`/*! ... *\/`, `/*!50000 ... *\/`,
+ * MariaDB `/*M! ... *\/`) whose content MySQL runs and is therefore
+ * tokenized like regular SQL. `--` starts a comment only when followed by
+ * whitespace or end of input, as in MySQL.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  const len = sql.length;
+  let inExecutableComment = false;
+  let i = 0;
+
+  while (i < len) {
+    const ch = sql[i];
+    const next = i + 1 < len ? sql[i + 1] : "";
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // -- comment (needs trailing whitespace) and # comment → skip to EOL
+    if ((ch === "-" && next === "-" && (i + 2 >= len || /\s/.test(sql[i + 2]))) || ch === "#") {
+      const eol = sql.indexOf("\n", i);
+      i = eol === -1 ? len : eol + 1;
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const marker = sql.startsWith("/*!", i) ? 3 : sql.startsWith("/*M!", i) ? 4 : 0;
+      if (marker) {
+        // Executable comment: content IS run as SQL, so keep tokenizing it
+        let j = i + marker;
+        while (j < len && j < i + marker + 6 && sql[j] >= "0" && sql[j] <= "9") j++;
+        inExecutableComment = true;
+        i = j;
+        continue;
+      }
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? len : end + 2;
+      continue;
+    }
+
+    if (inExecutableComment && ch === "*" && next === "/") {
+      inExecutableComment = false;
+      i += 2;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const { value, end } = readQuoted(sql, i, ch, true);
+      tokens.push({ type: "string", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "`") {
+      const { value, end } = readQuoted(sql, i, "`", false);
+      tokens.push({ type: "ident", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "@") {
+      let j = i + 1;
+      if (sql[j] === "@") j++;
+      if (sql[j] === "'" || sql[j] === '"' || sql[j] === "`") {
+        j = readQuoted(sql, j, sql[j], sql[j] !== "`").end;
+      } else {
+        while (j < len && (isWordChar(sql[j]) || sql[j] === ".")) j++;
+      }
+      tokens.push({ type: "variable", value: sql.slice(i, j), start: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (ch === "?") {
+      tokens.push({ type: "param", value: "?", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if ((ch >= "0" && ch <= "9") || (ch === "." && next >= "0" && next <= "9")) {
+      let j = i + 1;
+      while (j < len && (isWordChar(sql[j]) || sql[j] === ".")) j++;
+      // 1e10 vs. identifiers starting with digits: both stay one token
+      tokens.push({ type: "number", value: sql.slice(i, j), start: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (isWordChar(ch)) {
+      let j = i + 1;
+      while (j < len && isWordChar(sql[j])) j++;
+      tokens.push({ type: "word", value: sql.slice(i, j), start: i, end: j });
+      i = j;
+      continue;
+    }
+
+    tokens.push({ type: "punct", value: ch, start: i, end: i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+export function isWord(token: SqlToken | undefined, ...words: string[]): boolean {
+  return token?.type === "word" && words.includes(token.value.toUpperCase());
+}
+
+export function isPunct(token: SqlToken | undefined, ch: string): boolean {
+  return token?.type === "punct" && token.value === ch;
+}
+
+// ─── SQL Safety ──────────────────────────────────────────────────
+
+/**
+ * Detects multi-statement SQL to prevent injection via statement stacking.
+ * Uses the tokenizer, so semicolons inside comments, string literals and
+ * backtick-quoted identifiers are ignored while those inside executable
+ * comments count. Returns true only if the SQL is a single statement.
+ *
+ * MySQL variant: handles backtick identifiers instead of dollar-quoting.
+ */
+export function isSingleStatement(sql: string): boolean {
+  const tokens = tokenizeSql(sql);
+  const semi = tokens.findIndex((t) => isPunct(t, ";"));
+  return semi === -1 || semi === tokens.length - 1;
+}
+
+// ─── Statement Classification ────────────────────────────────────
+
+/** DDL/admin keywords that bypass read-only transactions via implicit commit. */
+export const DDL_KINDS = [
+  "CREATE", "ALTER", "DROP", "RENAME", "TRUNCATE",
+  "GRANT", "REVOKE", "LOCK", "UNLOCK",
+  "LOAD", "FLUSH", "KILL", "SHUTDOWN", "RESTART",
+  "INSTALL", "UNINSTALL", "IMPORT", "CLONE",
+  "ANALYZE", "OPTIMIZE", "REPAIR", "CACHE",
+  "RESET", "PURGE", "CHANGE", "START", "STOP", "BINLOG",
+] as const;
+
+const DDL_KEYWORDS = new Set<string>(DDL_KINDS);
+
+/**
+ * Statement kinds reported by classifyStatement and accepted in a
+ * connection's `allowedStatements`.
+ */
+export const STATEMENT_KINDS = [
+  "SELECT", "SELECT_INTO_FILE", "SELECT_FOR_UPDATE", "SELECT_FOR_SHARE",
+  "INSERT", "REPLACE", "UPDATE", "DELETE",
+  "SHOW", "DESCRIBE", "EXPLAIN", "EXPLAIN_ANALYZE",
+  "SET", "SET_GLOBAL", "SET_ACCOUNT",
+  "CALL", "DO", "HANDLER", "USE", "TRANSACTION",
+  "PREPARE", "EXECUTE", "DEALLOCATE", "CHECK", "CHECKSUM",
+  ...DDL_KINDS,
+  "OTHER", "EMPTY",
+] as const;
+
+export type StatementKind = (typeof STATEMENT_KINDS)[number];
+
+/** Kinds that only read data and never take locks or have side effects. */
+const READ_ONLY_KINDS = new Set<StatementKind>(["SELECT", "SHOW", "DESCRIBE", "EXPLAIN"]);
+
+/**
+ * Kinds that escape `SET SESSION TRANSACTION READ ONLY`: implicit commits,
+ * server-global or file-system side effects, and dynamic SQL.
+ */
+const READ_ONLY_BYPASS_KINDS = new Set<StatementKind>([
+  ...DDL_KINDS,
+  "SELECT_INTO_FILE",
+  "SET_GLOBAL",
+  "SET_ACCOUNT",
+  "PREPARE",
+  "EXECUTE",
+]);
+
+export interface StatementInfo {
+  kind: StatementKind;
+  /** Pure read: SELECT (without INTO FILE or locking), SHOW, DESCRIBE, plain EXPLAIN. */
+  readOnly: boolean;
+  /** Would escape a READ ONLY transaction; blocked on read-only connections. */
+  bypassesReadOnly: boolean;
+}
+
+const SIMPLE_KINDS = new Set<string>([
+  "INSERT", "REPLACE", "UPDATE", "DELETE", "SHOW", "CALL", "DO", "HANDLER",
+  "USE", "PREPARE", "EXECUTE", "DEALLOCATE", "CHECK", "CHECKSUM",
+  ...DDL_KEYWORDS,
+]);
+
+const TRANSACTION_WORDS = new Set([
+  "BEGIN", "COMMIT", "ROLLBACK", "SAVEPOINT", "RELEASE", "XA",
+]);
+
+function info(kind: StatementKind): StatementInfo {
+  return {
+    kind,
+    readOnly: READ_ONLY_KINDS.has(kind),
+    bypassesReadOnly: READ_ONLY_BYPASS_KINDS.has(kind),
+  };
+}
+
+/** Index just past a balanced parenthesis group starting at `i` (an opening paren). */
+export function skipParens(tokens: SqlToken[], i: number): number {
+  let depth = 0;
+  for (; i < tokens.length; i++) {
+    if (isPunct(tokens[i], "(")) depth++;
+    else if (isPunct(tokens[i], ")") && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+}
+
+/** Index of the main statement keyword after a `WITH` CTE list. */
+export function skipCtes(tokens: SqlToken[], i: number): number {
+  i++; // WITH
+  if (isWord(tokens[i], "RECURSIVE")) i++;
+  while (i < tokens.length) {
+    i++; // CTE name
+    if (isPunct(tokens[i], "(")) i = skipParens(tokens, i); // column list
+    if (isWord(tokens[i], "AS")) i++;
+    if (isPunct(tokens[i], "(")) i = skipParens(tokens, i); // CTE body
+    if (!isPunct(tokens[i], ",")) break;
+    i++;
+  }
+  return i;
+}
+
+function classifySelect(tokens: SqlToken[]): StatementInfo {
+  for (let i = 0; i < tokens.length; i++) {
+    if (isWord(tokens[i], "INTO") && isWord(tokens[i + 1], "OUTFILE", "DUMPFILE")) {
+      return info("SELECT_INTO_FILE");
+    }
+  }
+  for (let i = 0; i < tokens.length; i++) {
+    if (isWord(tokens[i], "FOR") && isWord(tokens[i + 1], "UPDATE")) {
+      return info("SELECT_FOR_UPDATE");
+    }
+    if (
+      (isWord(tokens[i], "FOR") && isWord(tokens[i + 1], "SHARE")) ||
+      (isWord(tokens[i], "LOCK") && isWord(tokens[i + 1], "IN") && isWord(tokens[i + 2], "SHARE"))
+    ) {
+      return info("SELECT_FOR_SHARE");
+    }
+  }
+  return info("SELECT");
+}
+
+function classifyAt(tokens: SqlToken[], i: number): StatementInfo {
+  // Parenthesized query: (SELECT ...) UNION (SELECT ...)
+  while (isPunct(tokens[i], "(")) i++;
+  const first = tokens[i];
+  if (!first) return info("EMPTY");
+  if (first.type !== "word") return info("OTHER");
+  const word = first.value.toUpperCase();
+  const rest = tokens.slice(i);
+
+  switch (word) {
+    case "SELECT":
+    case "TABLE":
+    case "VALUES":
+      return classifySelect(rest);
+    case "WITH":
+      return classifyAt(tokens, skipCtes(tokens, i));
+    case "DESC":
+    case "DESCRIBE":
+    case "EXPLAIN":
+      return classifyExplain(tokens, i + 1);
+    case "ANALYZE":
+      // MariaDB `ANALYZE SELECT ...` executes the statement like EXPLAIN ANALYZE
+      return isWord(tokens[i + 1], "TABLE", "TABLES", "NO_WRITE_TO_BINLOG", "LOCAL")
+        ? info("ANALYZE")
+        : classifyExplain(tokens, i);
+    case "SET":
+      return classifySet(tokens, i + 1);
+    case "START":
+      return isWord(tokens[i + 1], "TRANSACTION") ? info("TRANSACTION") : info("START");
+  }
+  if (TRANSACTION_WORDS.has(word)) return info("TRANSACTION");
+  if (word === "DEALLOCATE" || (word === "DROP" && isWord(tokens[i + 1], "PREPARE"))) {
+    return info("DEALLOCATE");
+  }
+  if (SIMPLE_KINDS.has(word)) return info(word as StatementKind);
+  return info("OTHER");
+}
+
+/** EXPLAIN/DESCRIBE: either a table description or a plan for a statement. */
+function classifyExplain(tokens: SqlToken[], i: number): StatementInfo {
+  let analyze = false;
+  while (i < tokens.length) {
+    if (isWord(tokens[i], "ANALYZE")) {
+      analyze = true;
+      i++;
+    } else if (isWord(tokens[i], "EXTENDED", "PARTITIONS")) {
+      i++;
+    } else if (isWord(tokens[i], "FORMAT")) {
+      i += isPunct(tokens[i + 1], "=") ? 3 : 2;
+    } else {
+      break;
+    }
+  }
+  const next = tokens[i];
+  const explainsStatement =
+    isPunct(next, "(") ||
+    isWord(next, "SELECT", "TABLE", "VALUES", "WITH", "INSERT", "REPLACE", "UPDATE", "DELETE");
+  if (isWord(next, "FOR")) return info("EXPLAIN"); // EXPLAIN FOR CONNECTION n
+  if (!explainsStatement) return info(analyze ? "EXPLAIN" : "DESCRIBE");
+  if (!analyze) return info("EXPLAIN");
+
+  // EXPLAIN ANALYZE runs the statement, so it inherits its effects
+  const inner = classifyAt(tokens, i);
+  return inner.readOnly ? info("EXPLAIN") : { ...inner, kind: "EXPLAIN_ANALYZE" };
+}
+
+function classifySet(tokens: SqlToken[], i: number): StatementInfo {
+  if (isWord(tokens[i], "PASSWORD") || isWord(tokens[i], "DEFAULT")) {
+    return info("SET_ACCOUNT"); // SET PASSWORD / SET DEFAULT ROLE
+  }
+  // MariaDB: SET STATEMENT var = value [, ...] FOR <statement>
+  if (isWord(tokens[i], "STATEMENT")) {
+    let depth = 0;
+    for (let j = i + 1; j < tokens.length; j++) {
+      if (isPunct(tokens[j], "(")) depth++;
+      else if (isPunct(tokens[j], ")")) depth--;
+      else if (depth === 0 && isWord(tokens[j], "FOR")) return classifyAt(tokens, j + 1);
+    }
+  }
+  for (let j = i; j < tokens.length; j++) {
+    const t = tokens[j];
+    if (isWord(t, "GLOBAL", "PERSIST", "PERSIST_ONLY")) return info("SET_GLOBAL");
+    if (t.type === "variable" && /^@@(global|persist|persist_only)\./i.test(t.value)) {
+      return info("SET_GLOBAL");
+    }
+  }
+  return info("SET");
+}
+
+/**
+ * Classifies the first statement in `sql` using the tokenizer, so comments,
+ * executable comments, CTEs and parenthesized queries are handled the same
+ * way as in isSingleStatement.
+ */
+export function classifyStatement(sql: string): StatementInfo {
+  const tokens = tokenizeSql(sql);
+  const semi = tokens.findIndex((t) => isPunct(t, ";"));
+  return classifyAt(semi === -1 ? tokens : tokens.slice(0, semi), 0);
+}
+
+/**
+ * Returns true if the statement is a DDL/admin command that would bypass
+ * SET SESSION TRANSACTION READ ONLY via implicit commit in MySQL.
+ */
+export function isDdlStatement(sql: string): boolean {
+  return DDL_KEYWORDS.has(classifyStatement(sql).kind);
+}
+
+/** Error message if `kind` is outside the connection's `allowedStatements`. */
+export function statementNotAllowed(
+  conn: { label: string; allowedStatements?: string[] },
+  kind: StatementKind
+): string | null {
+  if (!conn.allowedStatements || conn.allowedStatements.includes(kind)) return null;
+  return `${kind} statements are not allowed on "${conn.label}" (allowedStatements: ${conn.allowedStatements.join(", ")}).`;
+}
@@ -0,0 +1,213 @@
+import { Client, type ClientChannel } from "ssh2";
+import { readFile } from "fs/promises";
+import { createHmac } from "crypto";
+import { Duplex, PassThrough, type Readable } from "stream";
+import { expandHome } from "./cli.js";
+import type { SshHop, SshTunnelConfig, DbConnection } from "./config.js";
+import { globToRegExp } from "./helpers.js";
+
+// ─── SSH Tunnels ─────────────────────────────────────────────────
+
+export interface SshTunnel {
+  /** Opens a forwarded channel to the MySQL server (used as mysql2 `stream`). */
+  connect(): Duplex;
+  close(): void;
+}
+
+function knownHostPatternMatches(field: string, name: string): boolean {
+  // Hashed entry: |1|<base64 salt>|<base64 HMAC-SHA1(salt, name)>
+  if (field.startsWith("|1|")) {
+    const [, , salt, hash] = field.split("|");
+    const digest = createHmac("sha1", Buffer.from(salt, "base64"))
+      .update(name)
+      .digest("base64");
+    return digest === hash;
+  }
+  let matched = false;
+  for (const raw of field.split(",")) {
+    const negated = raw.startsWith("!");
+    if (globToRegExp(negated ? raw.slice(1) : raw).test(name)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Returns the base64 host keys listed for host:port in known_hosts content.
+ * Handles plain, `[host]:port`, wildcard, negated and hashed (`|1|`) entries;
+ * `@cert-authority` / `@revoked` marker lines are ignored.
+ */
+export function findKnownHostKeys(
+  knownHosts: string,
+  host: string,
+  port: number
+): string[] {
+  const name = (port === 22 ? host : `[${host}]:${port}`).toLowerCase();
+  const keys: string[] = [];
+  for (const raw of knownHosts.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#") || line.startsWith("@")) continue;
+    const [hosts, , key] = line.split(/\s+/);
+    if (key && knownHostPatternMatches(hosts, name)) keys.push(key);
+  }
+  return keys;
+}
+
+async function connectSsh(
+  hop: SshHop,
+  ssh: SshTunnelConfig,
+  sock?: Readable
+): Promise<Client> {
+  let knownHosts: string | null = null;
+  if (ssh.strictHostKeyChecking) {
+    const path = expandHome(ssh.knownHostsPath);
+    try {
+      knownHosts = await readFile(path, "utf-8");
+    } catch {
+      throw new Error(
+        `Cannot read known_hosts (${path}). Add the host key or set ssh.strictHostKeyChecking: false`
+      );
+    }
+  }
+  const privateKey = hop.privateKeyPath
+    ? await readFile(expandHome(hop.privateKeyPath))
+    : undefined;
+
+  return new Promise((resolveClient, reject) => {
+    const client = new Client();
+    client.once("ready", () => {
+      client.removeListener("error", reject);
+      client.on("error", (e) => console.error(`SSH error (${hop.host}):`, e.message));
+      resolveClient(client);
+    });
+    client.once("error", reject);
+    client.connect({
+      host: hop.host,
+      port: hop.port,
+      username: hop.user,
+      privateKey,
+      passphrase: hop.passphrase,
+      password: hop.password,
+      agent: privateKey || hop.password ? undefined : process.env.SSH_AUTH_SOCK,
+      sock,
+      readyTimeout: 10_000,
+      keepaliveInterval: 15_000,
+      hostVerifier:
+        knownHosts === null
+          ? undefined
+          : (key: Buffer) => {
+              const known = findKnownHostKeys(knownHosts, hop.host, hop.port);
+              if (known.includes(key.toString("base64"))) return true;
+              console.error(
+                known.length
+                  ? `SSH host key mismatch for ${hop.host}:${hop.port}`
+                  : `SSH host ${hop.host}:${hop.port} not found in known_hosts`
+              );
+              return false;
+            },
+    });
+  });
+}
+
+function forwardOut(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolveChannel, reject) => {
+    client.forwardOut("127.0.0.1", 0, host, port, (err, channel) =>
+      err ? reject(err) : resolveChannel(channel)
+    );
+  });
+}
+
+/** MySQL host/port as seen from the SSH server. */
+function tunnelTarget(conn: DbConnection): { host: string; port: number } {
+  if (conn.url) {
+    const parsed = new URL(conn.url);
+    return { host: parsed.hostname, port: Number(parsed.port) || 3306 };
+  }
+  return { host: conn.host ?? "127.0.0.1", port: conn.port };
+}
+
+/**
+ * Creates a lazily-connected SSH tunnel (optionally via a jump host).
+ * The SSH session is opened on first use and re-established on the next
+ * connection attempt after it drops; each MySQL connection gets its own
+ * forwarded channel.
+ */
+export function createSshTunnel(label: string, conn: DbConnection): SshTunnel {
+  const ssh = conn.ssh as SshTunnelConfig;
+  const target = tunnelTarget(conn);
+  let client: Client | null = null;
+  let jump: Client | null = null;
+  let pending: Promise<Client> | null = null;
+  let closed = false;
+
+  async function establish(): Promise<Client> {
+    let sock: Readable | undefined;
+    let hop: Client | null = null;
+    let c: Client;
+    if (ssh.jumpHost) hop = await connectSsh(ssh.jumpHost, ssh);
+    try {
+      if (hop) sock = await forwardOut(hop, ssh.host, ssh.port);
+      c = await connectSsh(ssh, ssh, sock);
+    } catch (e) {
+      // Don't leak the jump host connection on a failed (re)connect
+      hop?.end();
+      throw e;
+    }
+    if (closed) {
+      c.end();
+      hop?.end();
+      throw new Error(`SSH tunnel for "${label}" was closed`);
+    }
+    c.on("close", () => {
+      if (client !== c) return;
+      console.error(`SSH tunnel dropped (${label}) — reconnecting on next use`);
+      client = null;
+      jump?.end();
+      jump = null;
+    });
+    client = c;
+    jump = hop;
+    return c;
+  }
+
+  function getClient(): Promise<Client> {
+    if (client) return Promise.resolve(client);
+    if (!pending) {
+      pending = establish().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  }
+
+  return {
+    connect() {
+      const toServer = new PassThrough();
+      const fromServer = new PassThrough();
+      const duplex = Duplex.from({ readable: fromServer, writable: toServer });
+      getClient()
+        .then((c) => forwardOut(c, target.host, target.port))
+        .then((channel) => {
+          if (duplex.destroyed) {
+            channel.close();
+            return;
+          }
+          channel.on("error", (e: Error) => duplex.destroy(e));
+          duplex.on("close", () => channel.close());
+          toServer.pipe(channel).pipe(fromServer);
+        })
+        .catch((e) => duplex.destroy(e));
+      return duplex;
+    },
+    close() {
+      closed = true;
+      const c = client;
+      client = null;
+      c?.end();
+      jump?.end();
+      jump = null;
+    },
+  };
+}
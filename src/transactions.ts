@@ -0,0 +1,122 @@
+import type { DbConnection } from "./config.js";
+import { type QueryParam, streamRows } from "./cursors.js";
+import { queryError, withPool } from "./pool.js";
+import { DDL_KINDS, type StatementKind, classifyStatement } from "./sql.js";
+import { statementRejection, affectedRowsGuardrail } from "./writes.js";
+
+// ─── Transactions ────────────────────────────────────────────────
+
+/** Max statements accepted by one mysql_transaction call. */
+export const MAX_TRANSACTION_STEPS = 50;
+
+/**
+ * Kinds that commit implicitly, end the transaction or run arbitrary SQL,
+ * so a rollback could no longer undo the earlier steps.
+ */
+export const NON_ATOMIC_KINDS = new Set<StatementKind>([
+  ...DDL_KINDS,
+  "TRANSACTION",
+  "CALL",
+  "PREPARE",
+  "EXECUTE",
+]);
+
+interface TransactionStep {
+  query: string;
+  params?: QueryParam[];
+}
+
+export interface StepOutcome {
+  kind: StatementKind;
+  affectedRows?: number;
+  insertId?: number;
+  /** Rows returned, for steps with a result set. */
+  rowCount?: number;
+}
+
+/** First step that fails a safety check, as an error naming the step. */
+export function transactionRejection(conn: DbConnection, steps: TransactionStep[]): Error | null {
+  for (const [i, step] of steps.entries()) {
+    const statement = classifyStatement(step.query);
+    const rejected = NON_ATOMIC_KINDS.has(statement.kind)
+      ? new Error(
+          `${statement.kind} statements can't run inside mysql_transaction: they commit implicitly or escape the transaction.`
+        )
+      : statementRejection(conn, statement, step.query);
+    if (rejected) {
+      const code = (rejected as { code?: unknown }).code;
+      return queryError(
+        `Step ${i + 1}: ${rejected.message} Nothing was run.`,
+        typeof code === "string" ? code : "STEP_REJECTED"
+      );
+    }
+  }
+  return null;
+}
+
+export interface TransactionProgress {
+  began: boolean;
+  outcomes: StepOutcome[];
+}
+
+/**
+ * Runs `steps` in order inside one transaction, recording each finished step
+ * in `progress`, then commits (or, for a dry run, rolls back). Any failure
+ * rolls back every step; `progress.outcomes.length` is then the failed index.
+ */
+export async function runTransaction(
+  conn: DbConnection,
+  steps: TransactionStep[],
+  progress: TransactionProgress,
+  commit: boolean,
+  signal?: AbortSignal
+): Promise<void> {
+  await withPool(
+    conn,
+    async (connection) => {
+      await connection.beginTransaction();
+      progress.began = true;
+      try {
+        for (const { query, params } of steps) {
+          const statement = classifyStatement(query);
+          const streamed = await streamRows(connection, query, params, 0, conn.maxRows);
+          if (streamed.hasMore) {
+            // The connection is gone; the server discarded the transaction with it
+            throw queryError(
+              `returned more than maxRows (${conn.maxRows}) rows. Add a LIMIT or run reads with mysql_query.`,
+              "STEP_TOO_MANY_ROWS"
+            );
+          }
+          const header = streamed.header;
+          const overLimit = affectedRowsGuardrail(conn, statement, header?.affectedRows);
+          if (overLimit) throw overLimit;
+          progress.outcomes.push({
+            kind: statement.kind,
+            affectedRows: header?.affectedRows,
+            insertId: header?.insertId || undefined,
+            rowCount: streamed.columns.length > 0 ? streamed.rows.length : undefined,
+          });
+        }
+        if (commit) await connection.commit();
+        else await connection.rollback();
+      } catch (e) {
+        await connection.rollback().catch(() => {});
+        throw e;
+      }
+    },
+    signal
+  );
+}
+
+/** One numbered line per finished step. */
+export function formatStepOutcomes(outcomes: StepOutcome[], dryRun: boolean): string {
+  return outcomes
+    .map((o, i) => {
+      const parts: string[] = [];
+      if (o.rowCount !== undefined) parts.push(`${o.rowCount} row(s) returned`);
+      else parts.push(`${o.affectedRows ?? 0} row(s) ${dryRun ? "would be " : ""}affected`);
+      if (o.insertId) parts.push(`insert id ${o.insertId}`);
+      return `${i + 1}. ${o.kind} — ${parts.join(", ")}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,467 @@
+import mysql from "mysql2/promise";
+import { randomBytes } from "crypto";
+import type { DbConnection } from "./config.js";
+import type { QueryParam } from "./cursors.js";
+import { formatQueryResult } from "./format.js";
+import { quoteIdent, extractDbName } from "./helpers.js";
+import { tableAliases } from "./index-advice.js";
+import { loadTableSchemas } from "./introspection.js";
+import { findPolicyViolation, applyPolicyToRows } from "./policy.js";
+import { queryError, withPool } from "./pool.js";
+import {
+  type SqlToken,
+  tokenizeSql,
+  isWord,
+  isPunct,
+  isSingleStatement,
+  type StatementKind,
+  type StatementInfo,
+  skipParens,
+  skipCtes,
+  statementNotAllowed,
+} from "./sql.js";
+
+// ─── Write Confirmation ──────────────────────────────────────────
+
+/** How long a dry run's confirmation token stays valid. */
+export const CONFIRMATION_TTL_MS = 5 * 60_000;
+/** Before/after rows shown by a dry run. */
+const PREVIEW_ROWS = 5;
+/** Engines whose changes a ROLLBACK undoes; others are never executed in a dry run. */
+const TRANSACTIONAL_ENGINES = new Set([
+  "INNODB", "NDB", "NDBCLUSTER", "ROCKSDB", "TOKUDB",
+]);
+/** Statements a dry run can execute and roll back. */
+const PREVIEWABLE_KINDS = new Set<StatementKind>([
+  "INSERT", "REPLACE", "UPDATE", "DELETE",
+]);
+
+interface PendingConfirmation {
+  label: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/** Statements that need a confirmation token on a `confirmWrites` connection. */
+export function requiresConfirmation(conn: DbConnection, statement: StatementInfo): boolean {
+  if (!conn.confirmWrites || conn.readOnly) return false;
+  return (
+    PREVIEWABLE_KINDS.has(statement.kind) ||
+    statement.bypassesReadOnly ||
+    statement.kind === "CALL"
+  );
+}
+
+/** Short-lived, single-use token for `fingerprint` (query + params) on `label`. */
+export function issueConfirmation(
+  label: string,
+  fingerprint: string,
+  now = Date.now()
+): string {
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+  const token = randomBytes(6).toString("hex");
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(token, { label, fingerprint, expiresAt });
+  return token;
+}
+
+/** Redeems a token issued for exactly this label, query and params. */
+export function consumeConfirmation(
+  token: string,
+  label: string,
+  fingerprint: string,
+  now = Date.now()
+): boolean {
+  const pending = pendingConfirmations.get(token);
+  if (!pending) return false;
+  if (pending.expiresAt <= now) {
+    pendingConfirmations.delete(token);
+    return false;
+  }
+  if (pending.label !== label || pending.fingerprint !== fingerprint) return false;
+  pendingConfirmations.delete(token);
+  return true;
+}
+
+export interface WriteTarget {
+  schema: string | null;
+  /** First table named; for multi-table statements just one of several. */
+  table: string;
+  /** Alias given to `table` (`UPDATE t a ...`), which the WHERE clause may use. */
+  alias?: string;
+  /** WHERE clause of an UPDATE/DELETE, with the params it uses. */
+  where?: { sql: string; params: QueryParam[] };
+  /** Multi-table UPDATE/DELETE: no row sample is taken. */
+  multiTable: boolean;
+}
+
+const WRITE_MODIFIERS = ["LOW_PRIORITY", "DELAYED", "HIGH_PRIORITY", "QUICK", "IGNORE"];
+
+/** Words that may follow an UPDATE/DELETE table name without being its alias. */
+const AFTER_TARGET = [
+  "SET", "WHERE", "ORDER", "LIMIT", "USING", "PARTITION", "JOIN", "INNER", "LEFT",
+  "RIGHT", "CROSS", "NATURAL", "STRAIGHT_JOIN", "USE", "FORCE", "IGNORE",
+];
+
+/**
+ * Target table of an INSERT/REPLACE/UPDATE/DELETE and, for UPDATE/DELETE,
+ * the text of its WHERE clause. Null if not recognised.
+ */
+export function writeTarget(sql: string, params: QueryParam[] = []): WriteTarget | null {
+  const tokens = tokenizeSql(sql);
+  const isName = (t: SqlToken | undefined) => t?.type === "ident" || t?.type === "word";
+  let i = isWord(tokens[0], "WITH") ? skipCtes(tokens, 0) : 0;
+  const verb = tokens[i++]?.value.toUpperCase();
+  if (!["INSERT", "REPLACE", "UPDATE", "DELETE"].includes(verb ?? "")) return null;
+  while (isWord(tokens[i], ...WRITE_MODIFIERS)) i++;
+  let multiTable = false;
+  if (verb === "DELETE") {
+    if (!isWord(tokens[i], "FROM")) multiTable = true; // DELETE t1, t2 FROM ...
+    else i++;
+  } else if (isWord(tokens[i], "INTO")) {
+    i++;
+  }
+  if (!isName(tokens[i])) return null;
+  let schema: string | null = null;
+  let table = tokens[i++].value;
+  if (isPunct(tokens[i], ".") && isName(tokens[i + 1])) {
+    schema = table;
+    table = tokens[i + 1].value;
+    i += 2;
+  }
+  if (verb === "INSERT" || verb === "REPLACE") {
+    return { schema, table, multiTable: false };
+  }
+  let alias: string | undefined;
+  if (!multiTable && isWord(tokens[i], "AS") && isName(tokens[i + 1])) {
+    alias = tokens[i + 1].value;
+    i += 2;
+  } else if (!multiTable && isName(tokens[i]) && !isWord(tokens[i], ...AFTER_TARGET)) {
+    alias = tokens[i++].value;
+  }
+  const named = alias === undefined ? { schema, table } : { schema, table, alias };
+
+  // Find the WHERE clause at depth 0, noting joins and table lists on the way
+  let depth = 0;
+  let whereAt = -1;
+  let whereEnd = tokens.length;
+  for (let j = i; j < tokens.length; j++) {
+    const t = tokens[j];
+    if (isPunct(t, "(")) depth++;
+    else if (isPunct(t, ")")) depth--;
+    else if (depth > 0) continue;
+    else if (whereAt === -1 && (isWord(t, "JOIN", "USING") || isPunct(t, ","))) {
+      if (verb === "DELETE" || !tokens.slice(i, j).some((x) => isWord(x, "SET"))) {
+        multiTable = true;
+      }
+    } else if (isWord(t, "WHERE") && whereAt === -1) whereAt = j;
+    else if (whereAt !== -1 && isWord(t, "ORDER", "LIMIT")) {
+      whereEnd = j;
+      break;
+    }
+  }
+  if (whereAt === -1) return { ...named, multiTable };
+
+  const countParams = (from: number, to: number) =>
+    tokens.slice(from, to).filter((t) => t.type === "param").length;
+  const paramsBefore = countParams(0, whereAt);
+  const paramsIn = countParams(whereAt, whereEnd);
+  const end = whereEnd < tokens.length ? tokens[whereEnd].start : sql.length;
+  return {
+    ...named,
+    multiTable,
+    where: {
+      sql: sql.slice(tokens[whereAt].end, end).trim().replace(/;\s*$/, ""),
+      params: params.slice(paramsBefore, paramsBefore + paramsIn),
+    },
+  };
+}
+
+/** Tables among `tables` whose engine ignores ROLLBACK, as "name (ENGINE)". */
+export async function nonTransactionalTables(
+  connection: mysql.PoolConnection,
+  dbName: string | undefined,
+  tables: Iterable<string>
+): Promise<string[]> {
+  const list = [...tables];
+  const [engines] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT TABLE_NAME, ENGINE FROM INFORMATION_SCHEMA.TABLES
+     WHERE TABLE_SCHEMA = ? AND TABLE_NAME IN (?)`,
+    [dbName, list.length ? list : [""]]
+  );
+  return engines
+    .filter((r) => r.ENGINE && !TRANSACTIONAL_ENGINES.has(String(r.ENGINE).toUpperCase()))
+    .map((r) => `${r.TABLE_NAME} (${r.ENGINE})`);
+}
+
+/**
+ * Runs a write inside a transaction that is always rolled back and reports
+ * what it would do, with before/after rows for single-table UPDATE/DELETE.
+ * Statements that cannot be rolled back (DDL, non-transactional engines,
+ * procedures) are described but not executed.
+ */
+export async function previewWrite(
+  conn: DbConnection,
+  statement: StatementInfo,
+  query: string,
+  params: QueryParam[] | undefined,
+  signal?: AbortSignal
+): Promise<string> {
+  if (!PREVIEWABLE_KINDS.has(statement.kind)) {
+    return `${statement.kind} statements can't be rolled back, so this one was not run.`;
+  }
+  const target = writeTarget(query, params);
+  const dbName = extractDbName(conn);
+  const tables = new Set(tableAliases(tokenizeSql(query)).values());
+  if (target) tables.add(target.table);
+  const local = target && !target.multiTable && (!target.schema || target.schema === dbName);
+  const schemas = local ? await loadTableSchemas(conn, [target.table], signal) : [];
+  const primary = schemas[0]?.indexes.find((idx) => idx.name === "PRIMARY")?.columns;
+
+  return withPool(
+    conn,
+    async (connection) => {
+      const unsafe = await nonTransactionalTables(connection, dbName, tables);
+      if (unsafe.length > 0) {
+        return `Not run: ${unsafe.join(", ")} can't roll back changes, so a dry run would apply them.`;
+      }
+
+      const render = (rows: mysql.RowDataPacket[], fields: mysql.FieldPacket[]) => {
+        const visible = conn.policy
+          ? applyPolicyToRows(conn.policy, fields, rows, `SELECT * FROM ${from}`)
+          : { columns: fields.map((f) => f.name), rows };
+        const meta = { rowCount: rows.length };
+        return formatQueryResult(visible.columns, visible.rows, meta, "markdown")[0];
+      };
+      const qualifier = target?.schema ? `${quoteIdent(target.schema)}.` : "";
+      const from = target ? `${qualifier}${quoteIdent(target.table)}` : "";
+      // The WHERE clause may refer to the table by its alias
+      const aliased = target?.alias ? `${from} AS ${quoteIdent(target.alias)}` : from;
+      const lines: string[] = [];
+
+      await connection.beginTransaction();
+      try {
+        let before: [mysql.RowDataPacket[], mysql.FieldPacket[]] | undefined;
+        if (target?.where && !target.multiTable) {
+          before = await connection.query<mysql.RowDataPacket[]>(
+            `SELECT * FROM ${aliased} WHERE ${target.where.sql} LIMIT ${PREVIEW_ROWS}`,
+            target.where.params
+          );
+        }
+
+        const [header] = params
+          ? await connection.execute<mysql.ResultSetHeader>(query, params)
+          : await connection.query<mysql.ResultSetHeader>(query);
+        lines.push(`${statement.kind}: ${header.affectedRows} row(s) would be affected.`);
+        const overLimit = affectedRowsGuardrail(conn, statement, header.affectedRows);
+        if (overLimit) lines.push(`Warning: committing will fail. ${overLimit.message}`);
+        if (header.insertId) lines.push(`First insert id: ${header.insertId}`);
+
+        if (before && before[0].length > 0) {
+          lines.push(`\nBefore (up to ${PREVIEW_ROWS} rows):\n${render(...before)}`);
+          if (statement.kind === "DELETE") {
+            lines.push("\nAfter: these rows would be deleted.");
+          } else if (primary) {
+            const keys = before[0].map((row) => primary.map((c) => row[c]));
+            const cols = primary.map(quoteIdent).join(", ");
+            const tuple = `(${primary.map(() => "?").join(", ")})`;
+            const tuples = keys.map(() => tuple).join(", ");
+            const [afterRows, afterFields] = await connection.query<
+              mysql.RowDataPacket[]
+            >(`SELECT * FROM ${from} WHERE (${cols}) IN (${tuples})`, keys.flat());
+            lines.push(`\nAfter:\n${render(afterRows, afterFields)}`);
+          } else {
+            lines.push("\nAfter: not shown, the table has no primary key to find the rows by.");
+          }
+        } else if (target?.multiTable) {
+          lines.push("No row sample for multi-table statements.");
+        }
+      } finally {
+        await connection.rollback().catch(() => {});
+      }
+      return lines.join("\n");
+    },
+    signal
+  );
+}
+
+// ─── Write Guardrails ────────────────────────────────────────────
+
+/** Literal value of a constant token, or undefined for anything else. */
+function constantValue(t: SqlToken): string | number | boolean | undefined {
+  if (t.type === "number") return Number(t.value);
+  if (t.type === "string") return t.value;
+  if (isWord(t, "TRUE")) return true;
+  if (isWord(t, "FALSE")) return false;
+  return undefined;
+}
+
+/** MySQL truthiness: strings convert via their numeric prefix ('abc' is false). */
+function truthy(v: string | number | boolean): boolean {
+  if (typeof v !== "string") return !!v;
+  const n = Number.parseFloat(v);
+  return !isNaN(n) && n !== 0;
+}
+
+function compare(x: number, op: string, y: number): boolean {
+  switch (op) {
+    case "=":
+    case "<=>":
+      return x === y;
+    case "<>":
+    case "!=":
+      return x !== y;
+    case ">":
+      return x > y;
+    case ">=":
+      return x >= y;
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+  }
+  return false;
+}
+
+/** Splits at a top-level keyword or its doubled-punct spelling (`OR` / `||`, `AND` / `&&`). */
+function splitTopLevel(tokens: SqlToken[], word: string, punct: string): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (isPunct(t, "(")) depth++;
+    else if (isPunct(t, ")")) depth--;
+    if (depth === 0 && isPunct(t, punct) && isPunct(tokens[i + 1], punct)) {
+      parts.push([]);
+      i++;
+    } else if (depth === 0 && isWord(t, word)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(t);
+    }
+  }
+  return parts;
+}
+
+/**
+ * True for conditions like `1`, `TRUE`, `1=1`, `'a'='a'`, `x = x`, `NOT 0`,
+ * `... OR 1=1`, `1 AND 1` and `TRUE IS TRUE`.
+ */
+export function isTriviallyTrue(tokens: SqlToken[]): boolean {
+  let branch = tokens;
+  while (isPunct(branch[0], "(") && skipParens(branch, 0) === branch.length) {
+    branch = branch.slice(1, -1);
+  }
+  // One always-true OR branch makes the whole condition true, and an AND
+  // is always true when each of its parts is
+  const branches = splitTopLevel(branch, "OR", "|");
+  if (branches.length > 1) return branches.some(isTriviallyTrue);
+  const parts = splitTopLevel(branch, "AND", "&");
+  if (parts.length > 1) return parts.every(isTriviallyTrue);
+
+  // `<expr> IS TRUE` and `<expr> IS NOT FALSE` hold whenever <expr> does
+  const n = branch.length;
+  if (n > 2 && isWord(branch[n - 2], "IS") && isWord(branch[n - 1], "TRUE")) {
+    return isTriviallyTrue(branch.slice(0, -2));
+  }
+  const isNot = n > 3 && isWord(branch[n - 3], "IS") && isWord(branch[n - 2], "NOT");
+  if (isNot && isWord(branch[n - 1], "FALSE")) return isTriviallyTrue(branch.slice(0, -3));
+
+  const negated = branch.length > 1 && (isWord(branch[0], "NOT") || isPunct(branch[0], "!"));
+  if (negated) branch = branch.slice(1);
+  if (branch.length === 1) {
+    const v = constantValue(branch[0]);
+    return v !== undefined && truthy(v) !== negated;
+  }
+  if (negated || branch.length < 3) return false;
+
+  // <operand> <operator> <operand>, with the operator spread over punct tokens
+  const a = branch[0];
+  const b = branch[branch.length - 1];
+  const middle = branch.slice(1, -1);
+  if (!middle.every((t) => t.type === "punct")) return false;
+  const op = middle.map((t) => t.value).join("");
+  const bindable = a.type === "param" || a.type === "variable";
+  if (["=", "<=>", ">=", "<="].includes(op) && a.type === b.type && !bindable) {
+    const sameIdent = a.type === "word" || a.type === "ident";
+    if (sameIdent ? a.value.toLowerCase() === b.value.toLowerCase() : a.value === b.value) {
+      return true;
+    }
+  }
+  const x = constantValue(a);
+  const y = constantValue(b);
+  return typeof x === "number" && typeof y === "number" && compare(x, op, y);
+}
+
+/** Rejects UPDATE/DELETE that would touch every row; null if the statement may run. */
+export function unboundedWriteError(
+  conn: DbConnection,
+  statement: StatementInfo,
+  query: string
+): Error | null {
+  if (conn.readOnly || !conn.guardrails.requireWhere) return null;
+  if (statement.kind !== "UPDATE" && statement.kind !== "DELETE") return null;
+  const target = writeTarget(query);
+  if (!target) return null;
+  const override = `Add a selective WHERE clause, or set "guardrails": { "requireWhere": false } on connection "${conn.label}" to allow it.`;
+  if (!target.where) {
+    return queryError(
+      `${statement.kind} without a WHERE clause would affect every row of "${target.table}" and was blocked by the requireWhere guardrail. ${override}`,
+      "GUARDRAIL_REQUIRE_WHERE"
+    );
+  }
+  if (isTriviallyTrue(tokenizeSql(target.where.sql))) {
+    return queryError(
+      `The WHERE clause of this ${statement.kind} (${target.where.sql}) is always true, so it was blocked by the requireWhere guardrail. ${override}`,
+      "GUARDRAIL_REQUIRE_WHERE"
+    );
+  }
+  return null;
+}
+
+/**
+ * First safety check `query` fails on this connection, or null: stacked
+ * statements, read-only escapes, allowedStatements, access policy and the
+ * requireWhere guardrail.
+ */
+export function statementRejection(
+  conn: DbConnection,
+  statement: StatementInfo,
+  query: string
+): Error | null {
+  // SQL injection protection: reject multi-statement queries
+  if (!isSingleStatement(query)) {
+    return new Error("Multi-statement queries are not allowed. Send one statement at a time.");
+  }
+  // Block statements that escape READ ONLY (implicit commit, global/file side effects)
+  if (conn.readOnly && statement.bypassesReadOnly) {
+    return new Error(
+      `DDL/admin statements (CREATE, DROP, ALTER, TRUNCATE, SET GLOBAL, SELECT ... INTO OUTFILE, etc.) are not allowed in read-only mode (detected: ${statement.kind}).`
+    );
+  }
+  const notAllowed = statementNotAllowed(conn, statement.kind);
+  if (notAllowed) return new Error(notAllowed);
+  const violation = conn.policy
+    ? findPolicyViolation(conn.policy, query, extractDbName(conn))
+    : null;
+  if (violation) return new Error(violation);
+  return unboundedWriteError(conn, statement, query);
+}
+
+/** Error when a write affected more rows than `guardrails.maxAffectedRows` allows. */
+export function affectedRowsGuardrail(
+  conn: DbConnection,
+  statement: StatementInfo,
+  affectedRows: number | undefined
+): Error | null {
+  const max = conn.guardrails.maxAffectedRows;
+  if (max === undefined || affectedRows === undefined || affectedRows <= max) return null;
+  return queryError(
+    `${statement.kind} affected ${affectedRows} rows, more than the maxAffectedRows guardrail (${max}) allows on "${conn.label}", so it was rolled back. Narrow the statement, or raise "guardrails": { "maxAffectedRows": ... } in the connection config.`,
+    "GUARDRAIL_MAX_AFFECTED_ROWS"
+  );
+}